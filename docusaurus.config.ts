@@ -1,9 +1,41 @@
+import fs from 'fs';
+import path from 'path';
 import {themes as prismThemes} from 'prism-react-renderer';
 import type {Config} from '@docusaurus/types';
 import type * as Preset from '@docusaurus/preset-classic';
+import pluginApiReference, {remarkApiLinks} from './plugins/api-reference';
+import pluginDocsExport from './plugins/docs-export';
+import pluginDocsHealth from './plugins/docs-health';
+import pluginErrorCatalog from './plugins/error-catalog';
+import pluginExamplesGallery from './plugins/examples-gallery';
+import pluginGlossary, {remarkGlossaryLinks} from './plugins/glossary';
+import pluginLinkIntegrity from './plugins/link-integrity';
+import pluginPageFeedback from './plugins/page-feedback';
+import pluginPipelinePresets from './plugins/pipeline-presets';
+import pluginPrintEdition from './plugins/print-edition';
+import pluginReleaseNotes from './plugins/release-notes';
+import pluginSymbolIndex from './plugins/symbol-index';
+import pluginTechRadar from './plugins/tech-radar';
+import pluginTranslationReport from './plugins/translation-report';
+import pluginTypecheckSnippets, {remarkSnippetSetup} from './plugins/typecheck-snippets';
+import {ERRORS} from './src/components/ErrorCatalog/errors';
+import {EXAMPLES} from './src/components/ExamplesGallery/manifest';
+import {GLOSSARY} from './src/components/Glossary/terms';
+import * as pipelinePresets from './src/components/PipelineDiagram/presets';
 
 // This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
 
+// Docs snapshots tied to @noony-serverless/core releases, newest first.
+// Create one with `npm run docs:version -- <version>` when a release ships.
+const versionsFile = path.join(__dirname, 'versions.json');
+const docsVersions: string[] = fs.existsSync(versionsFile)
+  ? JSON.parse(fs.readFileSync(versionsFile, 'utf8'))
+  : [];
+
+// @noony-serverless/core declarations, kept by hand because the package doesn't publish
+// them: snippets are type-checked against them and the API reference is generated from them.
+const noonyCoreTypes = './types/noony-core.d.ts';
+
 const config: Config = {
   title: 'Noony Framework',
   tagline: 'Type-safe serverless framework for modern cloud applications',
@@ -32,12 +64,15 @@ const config: Config = {
   trailingSlash: false,
   deploymentBranch: 'gh-pages',
 
-  // Even if you don't use internationalization, you can use this field to set
-  // useful metadata like html lang. For example, if your site is Chinese, you
-  // may want to replace "en" with "zh-Hans".
+  // Translations live in i18n/<locale>; refresh them with
+  // `npm run write-translations -- --locale es`.
   i18n: {
     defaultLocale: 'en',
-    locales: ['en'],
+    locales: ['en', 'es'],
+    localeConfigs: {
+      en: {label: 'English', htmlLang: 'en-US'},
+      es: {label: 'Español', htmlLang: 'es-ES'},
+    },
   },
 
   presets: [
@@ -51,7 +86,24 @@ const config: Config = {
           // Remove this to remove the "edit this page" links.
           editUrl:
             'https://github.com/noony-serverless/noony-docs/tree/main/noony-doc/',
+          // The newest release is served at /docs; unreleased changes live at
+          // /docs/next and older releases get the "unmaintained" banner.
+          lastVersion: docsVersions[0] ?? 'current',
+          versions: {
+            current: docsVersions.length
+              ? {label: 'Next', path: 'next', banner: 'unreleased'}
+              : {label: 'Latest'},
+          },
+          // Resolves `[](api:Handler)` links to the generated API reference
+          beforeDefaultRemarkPlugins: [
+            [remarkApiLinks, {source: path.join(__dirname, noonyCoreTypes), routeBasePath: 'api'}],
+          ],
+          // Hides the setup lines above `// ---cut---` in TypeScript snippets, and
+          // links the first mention of each glossary term on a page
+          remarkPlugins: [remarkSnippetSetup, [remarkGlossaryLinks, {entries: GLOSSARY}]],
         },
+        // The release notes blog is the release-notes plugin below.
+        blog: false,
         theme: {
           customCss: './src/css/custom.css',
         },
@@ -59,12 +111,194 @@ const config: Config = {
     ],
   ],
 
+  plugins: [
+    [
+      pluginTypecheckSnippets,
+      {
+        docsPath: 'noony-doc',
+        // Homepage quick-start sources (rendered by <CodeShowcase>) and the /examples gallery
+        sourceDirs: ['src/snippets'],
+        declarations: noonyCoreTypes,
+        externalModules: [
+          'zod',
+          'typedi',
+          'lru-cache',
+          'jsonwebtoken',
+          'google-auth-library',
+          'axios',
+          'uuid',
+          'mongodb',
+          'bcrypt',
+          'express',
+          'fastify',
+          'aws-lambda',
+          'vitest',
+          '@jest/globals',
+          '@google-cloud/*',
+          '@opentelemetry/*',
+        ],
+      },
+    ],
+    // Docs instance that generates one page per exported symbol into ./api
+    // (git-ignored) and serves them with their own sidebar.
+    [
+      pluginApiReference,
+      {
+        id: 'api',
+        source: noonyCoreTypes,
+        docs: {
+          path: 'api',
+          routeBasePath: 'api',
+          sidebarPath: './sidebars-api.ts',
+        },
+      },
+    ],
+    // Symbol definitions for the Ctrl+. palette (src/components/SymbolPalette)
+    [
+      pluginSymbolIndex,
+      {
+        apiReference: {source: noonyCoreTypes, routeBasePath: 'api'},
+      },
+    ],
+    // Validates the radar editions and serves them at /radar
+    [
+      pluginTechRadar,
+      {
+        configPath: 'radar/radar_config.json',
+        historyDir: 'radar/history',
+        routePath: 'radar',
+      },
+    ],
+    // Lists docs without a translation for each non-default locale
+    [
+      pluginTranslationReport,
+      {
+        docsPath: 'noony-doc',
+      },
+    ],
+    // One post per package version found in changelogs/<package>/CHANGELOG.md
+    [
+      pluginReleaseNotes,
+      {
+        changelogsDir: 'changelogs',
+        // Posts are generated into ./release-notes, which is git-ignored.
+        blog: {
+          path: 'release-notes',
+          routeBasePath: 'releases',
+          blogTitle: 'Release notes',
+          blogDescription: 'What changed in each release of the Noony packages',
+          blogSidebarTitle: 'All releases',
+          blogSidebarCount: 'ALL',
+          showReadingTime: false,
+          onInlineTags: 'throw',
+          feedOptions: {
+            type: ['rss', 'atom'],
+            title: 'Noony release notes',
+            description: 'What changed in each release of the Noony packages',
+            copyright: `Copyright © ${new Date().getFullYear()} Noony Framework.`,
+          },
+        },
+        docs: {path: 'noony-doc', routeBasePath: 'docs'},
+      },
+    ],
+    // Lists docs whose noony_version / verified_on front matter is out of date at /docs-health
+    [
+      pluginDocsHealth,
+      {
+        changelog: 'changelogs/core/CHANGELOG.md',
+        maxAgeMonths: 6,
+        routePath: 'docs-health',
+      },
+    ],
+    // Loads the sources of each example in the manifest for the /examples gallery
+    [
+      pluginExamplesGallery,
+      {
+        examples: EXAMPLES,
+        routePath: 'examples',
+      },
+    ],
+    // Definitions of the terms in src/components/Glossary/terms.ts at /docs/glossary
+    [
+      pluginGlossary,
+      {
+        entries: GLOSSARY,
+        routePath: 'docs/glossary',
+      },
+    ],
+    // Error classes in src/components/ErrorCatalog/errors.ts and their responses at /docs/errors
+    [
+      pluginErrorCatalog,
+      {
+        errors: ERRORS,
+        routePath: 'docs/errors',
+      },
+    ],
+    // Checks the presets in src/components/PipelineDiagram/presets.ts against the middleware order rules
+    [
+      pluginPipelinePresets,
+      {
+        presets: pipelinePresets,
+        include: ['noony-doc', 'src/pages'],
+      },
+    ],
+    // Every doc on one page in sidebar order at /docs/print; `npm run print:pdf` saves it as a PDF
+    [
+      pluginPrintEdition,
+      {
+        routePath: 'docs/print',
+        title: 'Noony Framework Documentation',
+      },
+    ],
+    // "Was this helpful?" answers and reading events (empty searches, code copies, 404s). They go to
+    // FEEDBACK_ENDPOINT when it is set (`npm run feedback:serve` starts a local one) and stay in the browser otherwise;
+    // `log: true` also prints them to the browser console.
+    [
+      pluginPageFeedback,
+      {
+        sink: process.env.FEEDBACK_ENDPOINT
+          ? {type: 'http', endpoint: process.env.FEEDBACK_ENDPOINT}
+          : {type: 'memory', log: false},
+      },
+    ],
+    // llms.txt, llms-full.txt, docs-index.json and a .md twin of every doc page, for tools and code assistants
+    [pluginDocsExport, {}],
+    // Fails the build on broken internal links and #anchors, lists external URLs for review
+    [
+      pluginLinkIntegrity,
+      {
+        reportDir: 'link-report',
+        allow: [],
+      },
+    ],
+  ],
+
   themes: [
     '@docusaurus/theme-mermaid',
     [
       require.resolve("@easyops-cn/docusaurus-search-local"),
       ({
         hashed: true,
+        language: ['en', 'es'],
+        docsDir: 'noony-doc',
+        blogDir: 'release-notes',
+        blogRouteBasePath: 'releases',
+        // Builds one index per docs version; the search bar only queries the
+        // version the reader is currently browsing.
+        docsPluginIdForPreferredVersion: 'default',
+        // One index per top-level docs section. The search bar searches the
+        // section being read (with a link to search everywhere) and the search
+        // page gets a section filter.
+        searchContextByPaths: [
+          {label: {en: 'Core Concepts', es: 'Conceptos básicos'}, path: 'docs/core-concepts'},
+          {label: {en: 'Middlewares', es: 'Middlewares'}, path: 'docs/middlewares'},
+          {label: {en: 'Authentication & Security', es: 'Autenticación y seguridad'}, path: 'docs/authentication'},
+          {label: {en: 'Advanced Topics', es: 'Temas avanzados'}, path: 'docs/advanced'},
+          {label: {en: 'Examples & Recipes', es: 'Ejemplos y recetas'}, path: 'docs/examples'},
+        ],
+        useAllContextsWithNoSearchContext: true,
+        // The print edition repeats every doc page.
+        ignoreFiles: ['docs/print'],
       }),
     ],
   ],
@@ -90,6 +324,21 @@ const config: Config = {
           position: 'left',
           label: 'Documentation',
         },
+        {
+          type: 'docSidebar',
+          sidebarId: 'apiSidebar',
+          docsPluginId: 'api',
+          position: 'left',
+          label: 'API',
+        },
+        {
+          type: 'docsVersionDropdown',
+          position: 'right',
+        },
+        {
+          type: 'localeDropdown',
+          position: 'right',
+        },
         {
           href: 'https://github.com/noony-serverless/noony-docs',
           label: 'GitHub',
@@ -136,6 +385,14 @@ const config: Config = {
               label: 'Advanced Topics',
               to: '/docs/advanced',
             },
+            {
+              label: 'Glossary',
+              to: '/docs/glossary',
+            },
+            {
+              label: 'Error Catalog',
+              to: '/docs/errors',
+            },
           ],
         },
         {
@@ -164,15 +421,31 @@ const config: Config = {
           items: [
             {
               label: 'Changelog',
-              href: 'https://github.com/noony-serverless/noony-docs/releases',
+              to: '/releases',
             },
             {
               label: 'Contributing',
-              href: 'https://github.com/noony-serverless/noony-docs/blob/main/CONTRIBUTING.md',
+              href: 'https://github.com/noony-serverless/noony-docs/blob/main/README.md',
+            },
+            {
+              label: 'Tech Radar',
+              to: '/radar',
+            },
+            {
+              label: 'Handler Scaffolder',
+              to: '/scaffold',
+            },
+            {
+              label: 'Examples Gallery',
+              to: '/examples',
+            },
+            {
+              label: 'Print Edition',
+              to: '/docs/print',
             },
             {
               label: 'npm Package',
-              href: 'https://www.npmjs.com/package/@noony/core',
+              href: 'https://www.npmjs.com/package/@noony-serverless/core',
             },
           ],
         },
@@ -0,0 +1,187 @@
+import ts from 'typescript';
+import type {ApiDoc, ApiMember, ApiMemberKind, ApiSymbol} from './model';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+function readDoc(symbol: ts.Symbol | undefined, checker: ts.TypeChecker): ApiDoc {
+  if (!symbol) {
+    return {summary: '', tags: []};
+  }
+  return {
+    summary: ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim(),
+    tags: symbol.getJsDocTags(checker).map((tag) => ({
+      name: tag.name,
+      text: ts.displayPartsToString(tag.text).trim(),
+    })),
+  };
+}
+
+function isPrivate(node: ts.Node): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  const named = node as ts.NamedDeclaration;
+  return (
+    Boolean(modifiers?.some((m) => m.kind === ts.SyntaxKind.PrivateKeyword)) ||
+    (named.name !== undefined && ts.isPrivateIdentifier(named.name))
+  );
+}
+
+function isStatic(node: ts.Node): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  return Boolean(modifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword));
+}
+
+/** Declaration text without the body and trailing semicolon. */
+function signatureText(node: ts.Node, sourceFile: ts.SourceFile): string {
+  const body = (node as ts.FunctionLikeDeclaration).body;
+  const end = body ? body.getStart(sourceFile) : node.getEnd();
+  return sourceFile.text
+    .slice(node.getStart(sourceFile), end)
+    .replace(/\s*;?\s*$/, '')
+    .replace(/^(export\s+)?(declare\s+)?/, '');
+}
+
+function memberKind(node: ts.Node): ApiMemberKind | undefined {
+  if (ts.isConstructorDeclaration(node) || ts.isConstructSignatureDeclaration(node)) {
+    return 'constructor';
+  }
+  if (ts.isMethodDeclaration(node) || ts.isMethodSignature(node) || ts.isCallSignatureDeclaration(node)) {
+    return 'method';
+  }
+  if (ts.isPropertyDeclaration(node) || ts.isPropertySignature(node)) {
+    return 'property';
+  }
+  if (ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+    return 'accessor';
+  }
+  return undefined;
+}
+
+function readMembers(
+  members: ts.NodeArray<ts.ClassElement | ts.TypeElement>,
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+): ApiMember[] {
+  const byName = new Map<string, ApiMember>();
+  for (const node of members) {
+    const kind = memberKind(node);
+    if (!kind || isPrivate(node)) {
+      continue;
+    }
+    const name = kind === 'constructor' ? 'constructor' : (node.name?.getText(sourceFile) ?? '(call)');
+    const signature = signatureText(node, sourceFile);
+    // Overloads share one entry; the first documented declaration wins.
+    const existing = byName.get(name);
+    if (existing) {
+      existing.signatures.push(signature);
+      continue;
+    }
+    const symbol = node.name ? checker.getSymbolAtLocation(node.name) : undefined;
+    byName.set(name, {
+      name,
+      kind,
+      signatures: [signature],
+      ...(isStatic(node) && {static: true}),
+      ...readDoc(symbol, checker),
+    });
+  }
+  return [...byName.values()];
+}
+
+function heritage(
+  clauses: ts.NodeArray<ts.HeritageClause> | undefined,
+  token: ts.SyntaxKind,
+  sourceFile: ts.SourceFile,
+): string[] {
+  return (clauses ?? [])
+    .filter((clause) => clause.token === token)
+    .flatMap((clause) => clause.types.map((type) => type.getText(sourceFile)));
+}
+
+function readSymbol(symbol: ts.Symbol, name: string, checker: ts.TypeChecker): ApiSymbol | undefined {
+  const declarations = symbol.getDeclarations() ?? [];
+  const [first] = declarations;
+  if (!first) {
+    return undefined;
+  }
+  const sourceFile = first.getSourceFile();
+  const typeParameters = ((first as ts.DeclarationWithTypeParameterChildren).typeParameters ?? []).map(
+    (parameter) => parameter.getText(sourceFile),
+  );
+  const doc = readDoc(symbol, checker);
+
+  if (ts.isClassDeclaration(first) || ts.isInterfaceDeclaration(first)) {
+    const kind = ts.isClassDeclaration(first) ? 'class' : 'interface';
+    const typeParams = typeParameters.length ? `<${typeParameters.join(', ')}>` : '';
+    const extendsList = heritage(first.heritageClauses, ts.SyntaxKind.ExtendsKeyword, sourceFile);
+    const implementsList = heritage(first.heritageClauses, ts.SyntaxKind.ImplementsKeyword, sourceFile);
+    const header = [
+      `${kind} ${name}${typeParams}`,
+      extendsList.length ? `extends ${extendsList.join(', ')}` : '',
+      implementsList.length ? `implements ${implementsList.join(', ')}` : '',
+    ];
+    return {
+      name,
+      kind,
+      signatures: [header.filter(Boolean).join(' ')],
+      typeParameters,
+      extends: extendsList,
+      implements: implementsList,
+      members: readMembers(first.members, sourceFile, checker),
+      ...doc,
+    };
+  }
+
+  if (ts.isFunctionDeclaration(first)) {
+    return {
+      name,
+      kind: 'function',
+      signatures: declarations.filter(ts.isFunctionDeclaration).map((decl) => signatureText(decl, sourceFile)),
+      typeParameters,
+      extends: [],
+      implements: [],
+      members: [],
+      ...doc,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads exported classes, interfaces and functions from a `.d.ts` bundle.
+ * Bundles that wrap everything in `declare module '...'` blocks are supported.
+ */
+export function readDeclarations(file: string): ApiSymbol[] {
+  const program = ts.createProgram([file], {noEmit: true, skipLibCheck: true, types: []});
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(file);
+  if (!sourceFile) {
+    return [];
+  }
+
+  const moduleSymbols: ts.Symbol[] = [];
+  const fileSymbol = checker.getSymbolAtLocation(sourceFile);
+  if (fileSymbol) {
+    moduleSymbols.push(fileSymbol);
+  }
+  for (const statement of sourceFile.statements) {
+    if (ts.isModuleDeclaration(statement) && ts.isStringLiteral(statement.name)) {
+      const ambient = checker.getSymbolAtLocation(statement.name);
+      if (ambient) {
+        moduleSymbols.push(ambient);
+      }
+    }
+  }
+
+  const symbols = new Map<string, ApiSymbol>();
+  for (const moduleSymbol of moduleSymbols) {
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const target = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+      const apiSymbol = readSymbol(target, exported.getName(), checker);
+      if (apiSymbol && !symbols.has(apiSymbol.name)) {
+        symbols.set(apiSymbol.name, apiSymbol);
+      }
+    }
+  }
+  return [...symbols.values()];
+}
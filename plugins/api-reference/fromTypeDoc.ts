@@ -0,0 +1,238 @@
+import type {ApiDoc, ApiMember, ApiMemberKind, ApiSymbol, ApiSymbolKind} from './model';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+/** Subset of the TypeDoc JSON output (`typedoc --json`) this plugin reads. */
+interface TypeDocComment {
+  summary?: {text: string}[];
+  blockTags?: {tag: string; content: {text: string}[]}[];
+}
+
+interface TypeDocType {
+  type: string;
+  name?: string;
+  value?: unknown;
+  types?: TypeDocType[];
+  typeArguments?: TypeDocType[];
+  elementType?: TypeDocType;
+  elements?: TypeDocType[];
+  target?: TypeDocType;
+  operator?: string;
+  queryType?: TypeDocType;
+  objectType?: TypeDocType;
+  indexType?: TypeDocType;
+  declaration?: TypeDocReflection;
+}
+
+interface TypeDocParameter {
+  name: string;
+  type?: TypeDocType;
+  flags?: {isOptional?: boolean; isRest?: boolean};
+  defaultValue?: string;
+}
+
+interface TypeDocTypeParameter {
+  name: string;
+  type?: TypeDocType;
+  default?: TypeDocType;
+}
+
+interface TypeDocSignature {
+  name: string;
+  comment?: TypeDocComment;
+  parameters?: TypeDocParameter[];
+  typeParameters?: TypeDocTypeParameter[];
+  typeParameter?: TypeDocTypeParameter[];
+  type?: TypeDocType;
+}
+
+interface TypeDocReflection {
+  name: string;
+  kind: number;
+  flags?: {isPrivate?: boolean; isStatic?: boolean; isOptional?: boolean; isReadonly?: boolean};
+  comment?: TypeDocComment;
+  children?: TypeDocReflection[];
+  signatures?: TypeDocSignature[];
+  getSignature?: TypeDocSignature;
+  typeParameters?: TypeDocTypeParameter[];
+  typeParameter?: TypeDocTypeParameter[];
+  extendedTypes?: TypeDocType[];
+  implementedTypes?: TypeDocType[];
+  type?: TypeDocType;
+}
+
+// ReflectionKind values from TypeDoc's models
+const KIND = {
+  Module: 2,
+  Namespace: 4,
+  Function: 64,
+  Class: 128,
+  Interface: 256,
+  Constructor: 512,
+  Property: 1024,
+  Method: 2048,
+  Accessor: 262144,
+};
+
+const SYMBOL_KINDS: Record<number, ApiSymbolKind> = {
+  [KIND.Class]: 'class',
+  [KIND.Interface]: 'interface',
+  [KIND.Function]: 'function',
+};
+
+const MEMBER_KINDS: Record<number, ApiMemberKind> = {
+  [KIND.Constructor]: 'constructor',
+  [KIND.Property]: 'property',
+  [KIND.Method]: 'method',
+  [KIND.Accessor]: 'accessor',
+};
+
+function readDoc(comment: TypeDocComment | undefined): ApiDoc {
+  return {
+    summary: (comment?.summary ?? []).map((part) => part.text).join('').trim(),
+    tags: (comment?.blockTags ?? []).map((tag) => ({
+      name: tag.tag.replace(/^@/, ''),
+      text: tag.content.map((part) => part.text).join('').trim(),
+    })),
+  };
+}
+
+function typeToString(type: TypeDocType | undefined): string {
+  if (!type) {
+    return 'unknown';
+  }
+  switch (type.type) {
+    case 'intrinsic':
+    case 'typeParameter':
+    case 'unknown':
+      return type.name ?? 'unknown';
+    case 'reference': {
+      const args = type.typeArguments?.length ? `<${type.typeArguments.map(typeToString).join(', ')}>` : '';
+      return `${type.name}${args}`;
+    }
+    case 'literal':
+      return typeof type.value === 'string' ? `'${type.value}'` : String(type.value);
+    case 'array':
+      return `${typeToString(type.elementType)}[]`;
+    case 'union':
+      return (type.types ?? []).map(typeToString).join(' | ');
+    case 'intersection':
+      return (type.types ?? []).map(typeToString).join(' & ');
+    case 'tuple':
+      return `[${(type.elements ?? []).map(typeToString).join(', ')}]`;
+    case 'typeOperator':
+      return `${type.operator} ${typeToString(type.target)}`;
+    case 'query':
+      return `typeof ${typeToString(type.queryType)}`;
+    case 'indexedAccess':
+      return `${typeToString(type.objectType)}[${typeToString(type.indexType)}]`;
+    case 'reflection': {
+      const declaration = type.declaration;
+      if (declaration?.signatures?.length) {
+        return signatureToString(declaration.signatures[0], '', ' => ');
+      }
+      const fields = (declaration?.children ?? []).map(
+        (child) => `${child.name}${child.flags?.isOptional ? '?' : ''}: ${typeToString(child.type)}`,
+      );
+      return `{ ${fields.join('; ')} }`;
+    }
+    default:
+      return type.name ?? 'unknown';
+  }
+}
+
+function typeParametersToString(parameters: TypeDocTypeParameter[] | undefined): string[] {
+  return (parameters ?? []).map((parameter) =>
+    [
+      parameter.name,
+      parameter.type ? ` extends ${typeToString(parameter.type)}` : '',
+      parameter.default ? ` = ${typeToString(parameter.default)}` : '',
+    ].join(''),
+  );
+}
+
+function signatureToString(signature: TypeDocSignature, name: string, returnSeparator = ': '): string {
+  const typeParameters = typeParametersToString(signature.typeParameters ?? signature.typeParameter);
+  const parameters = (signature.parameters ?? []).map(
+    (parameter) =>
+      `${parameter.flags?.isRest ? '...' : ''}${parameter.name}${parameter.flags?.isOptional ? '?' : ''}: ${typeToString(parameter.type)}`,
+  );
+  const generics = typeParameters.length ? `<${typeParameters.join(', ')}>` : '';
+  return `${name}${generics}(${parameters.join(', ')})${returnSeparator}${typeToString(signature.type)}`;
+}
+
+function readMember(reflection: TypeDocReflection): ApiMember | undefined {
+  const kind = MEMBER_KINDS[reflection.kind];
+  if (!kind || reflection.flags?.isPrivate) {
+    return undefined;
+  }
+  let signatures: string[];
+  if (reflection.signatures?.length) {
+    signatures = reflection.signatures.map((signature) =>
+      signatureToString(signature, kind === 'constructor' ? 'constructor' : reflection.name),
+    );
+  } else if (reflection.getSignature) {
+    signatures = [`get ${reflection.name}(): ${typeToString(reflection.getSignature.type)}`];
+  } else {
+    const readonly = reflection.flags?.isReadonly ? 'readonly ' : '';
+    const optional = reflection.flags?.isOptional ? '?' : '';
+    signatures = [`${readonly}${reflection.name}${optional}: ${typeToString(reflection.type)}`];
+  }
+  return {
+    name: reflection.name,
+    kind,
+    signatures,
+    ...(reflection.flags?.isStatic && {static: true}),
+    ...readDoc(reflection.comment ?? reflection.signatures?.[0]?.comment ?? reflection.getSignature?.comment),
+  };
+}
+
+function readSymbol(reflection: TypeDocReflection): ApiSymbol | undefined {
+  const kind = SYMBOL_KINDS[reflection.kind];
+  if (!kind) {
+    return undefined;
+  }
+  if (kind === 'function') {
+    const signatures = reflection.signatures ?? [];
+    return {
+      name: reflection.name,
+      kind,
+      signatures: signatures.map((signature) => `function ${signatureToString(signature, reflection.name)}`),
+      typeParameters: typeParametersToString(signatures[0]?.typeParameters ?? signatures[0]?.typeParameter),
+      extends: [],
+      implements: [],
+      members: [],
+      ...readDoc(signatures[0]?.comment),
+    };
+  }
+
+  const typeParameters = typeParametersToString(reflection.typeParameters ?? reflection.typeParameter);
+  const extendsList = (reflection.extendedTypes ?? []).map(typeToString);
+  const implementsList = (reflection.implementedTypes ?? []).map(typeToString);
+  const header = [
+    `${kind} ${reflection.name}${typeParameters.length ? `<${typeParameters.join(', ')}>` : ''}`,
+    extendsList.length ? `extends ${extendsList.join(', ')}` : '',
+    implementsList.length ? `implements ${implementsList.join(', ')}` : '',
+  ];
+  return {
+    name: reflection.name,
+    kind,
+    signatures: [header.filter(Boolean).join(' ')],
+    typeParameters,
+    extends: extendsList,
+    implements: implementsList,
+    members: (reflection.children ?? []).map(readMember).filter((member): member is ApiMember => Boolean(member)),
+    ...readDoc(reflection.comment),
+  };
+}
+
+/** Reads classes, interfaces and functions from a TypeDoc JSON project. */
+export function readTypeDoc(project: TypeDocReflection): ApiSymbol[] {
+  const flatten = (reflection: TypeDocReflection): TypeDocReflection[] =>
+    (reflection.children ?? []).flatMap((child) =>
+      child.kind === KIND.Module || child.kind === KIND.Namespace ? flatten(child) : [child],
+    );
+  return flatten(project)
+    .map(readSymbol)
+    .filter((symbol): symbol is ApiSymbol => Boolean(symbol));
+}
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import pluginContentDocs, {
+  validateOptions as validateDocsOptions,
+  type LoadedContent,
+  type Options as DocsOptions,
+  type PluginOptions as DocsPluginOptions,
+} from '@docusaurus/plugin-content-docs';
+import type {LoadContext, OptionValidationContext, Plugin} from '@docusaurus/types';
+import {normalizePluginOptions} from '@docusaurus/utils-validation';
+import {loadApiModel} from './loadModel';
+import {writeApiDocs} from './markdown';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export {default as remarkApiLinks} from './remark';
+
+export interface ApiReferenceOptions {
+  /** Plugin id, shared with the docs instance that serves the pages (`docsPluginId` in navbar items). */
+  id: string;
+  /** `.d.ts` bundle or TypeDoc JSON file, relative to the site directory. */
+  source: string;
+  /**
+   * Options of the docs instance that serves the generated pages. Its `path`
+   * is where they are written, so it must be git-ignored.
+   */
+  docs: DocsOptions;
+}
+
+/**
+ * A docs plugin instance whose content is generated from the declarations:
+ * pages are written in `loadContent`, just before the docs plugin reads them,
+ * so loading the config has no side effects and `npm start` picks up changes
+ * to `source`.
+ */
+export default async function pluginApiReference(
+  context: LoadContext,
+  options: ApiReferenceOptions,
+): Promise<Plugin<LoadedContent>> {
+  const source = path.resolve(context.siteDir, options.source);
+  // What Docusaurus would do for a docs instance declared in the config.
+  const docsOptions = validateDocsOptions({
+    validate: normalizePluginOptions as OptionValidationContext<DocsOptions, DocsPluginOptions>['validate'],
+    options: {...options.docs, id: options.id},
+  });
+  const outputDir = path.resolve(context.siteDir, docsOptions.path);
+  // The docs plugin checks that its content directory exists when it is created.
+  fs.mkdirSync(outputDir, {recursive: true});
+  const docs = await pluginContentDocs(context, docsOptions);
+
+  return {
+    ...docs,
+
+    async loadContent() {
+      if (!fs.existsSync(source)) {
+        logger.warn`API reference skipped: no @noony-serverless/core declarations at path=${source}`;
+      }
+      writeApiDocs(
+        {...loadApiModel(source), source: path.relative(context.siteDir, source)},
+        outputDir,
+        docsOptions.routeBasePath,
+      );
+      return docs.loadContent!();
+    },
+
+    getPathsToWatch() {
+      return [...docs.getPathsToWatch!(), source];
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import fs from 'fs';
+import {readDeclarations} from './fromDeclarations';
+import {readTypeDoc} from './fromTypeDoc';
+import type {ApiModel} from './model';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+const modelCache = new Map<string, {mtimeMs: number; model: ApiModel}>();
+
+/**
+ * Reads the API model from a declaration bundle or TypeDoc JSON file. The
+ * model is empty when `source` doesn't exist.
+ */
+export function loadApiModel(source: string): ApiModel {
+  if (!fs.existsSync(source)) {
+    return {source, symbols: []};
+  }
+  const {mtimeMs} = fs.statSync(source);
+  const cached = modelCache.get(source);
+  if (cached?.mtimeMs === mtimeMs) {
+    return cached.model;
+  }
+  const symbols = source.endsWith('.json')
+    ? readTypeDoc(JSON.parse(fs.readFileSync(source, 'utf8')))
+    : readDeclarations(source);
+  const model = {source, symbols: symbols.sort((a, b) => a.name.localeCompare(b.name))};
+  modelCache.set(source, {mtimeMs, model});
+  return model;
+}
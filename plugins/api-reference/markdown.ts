@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import type {ApiDocTag, ApiMember, ApiMemberKind, ApiModel, ApiSymbol, ApiSymbolKind} from './model';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+/** Written into the output directory so we never wipe a folder we didn't generate. */
+const MARKER_FILE = '.generated-api-reference';
+
+const KIND_DIRS: Record<ApiSymbolKind, {dir: string; label: string; title: string}> = {
+  class: {dir: 'classes', label: 'Classes', title: 'Class'},
+  interface: {dir: 'interfaces', label: 'Interfaces', title: 'Interface'},
+  function: {dir: 'functions', label: 'Functions', title: 'Function'},
+};
+
+const MEMBER_SECTIONS: {kind: ApiMemberKind; title: string}[] = [
+  {kind: 'constructor', title: 'Constructor'},
+  {kind: 'property', title: 'Properties'},
+  {kind: 'accessor', title: 'Accessors'},
+  {kind: 'method', title: 'Methods'},
+];
+
+export function symbolPath(routeBasePath: string, name: string, member?: string): string {
+  const anchor = member ? `#${memberAnchor(member)}` : '';
+  return `/${routeBasePath}/${name}${anchor}`;
+}
+
+function memberAnchor(name: string): string {
+  return name.replace(/[^\w$]/g, '').toLowerCase() || 'member';
+}
+
+/** Escapes prose for MDX while leaving inline code spans untouched. */
+export function escapeMdx(text: string): string {
+  return text
+    .split(/(`[^`]*`)/)
+    .map((part, index) => (index % 2 ? part : part.replace(/[{}]/g, '\\$&').replace(/</g, '&lt;')))
+    .join('');
+}
+
+function codeBlock(code: string): string {
+  return ['```typescript', code, '```'].join('\n');
+}
+
+function referencedSymbols(signatures: string[], model: ApiModel, self: string): string[] {
+  const text = signatures.join('\n');
+  return model.symbols
+    .map((symbol) => symbol.name)
+    .filter((name) => name !== self && new RegExp(`\\b${name.replace(/\$/g, '\\$')}\\b`).test(text));
+}
+
+function symbolLinks(names: string[], routeBasePath: string): string {
+  return names.map((name) => `[\`${name}\`](${symbolPath(routeBasePath, name)})`).join(', ');
+}
+
+function renderTags(tags: ApiDocTag[]): string[] {
+  const lines: string[] = [];
+  const params = tags.filter((tag) => tag.name === 'param');
+  if (params.length) {
+    lines.push('**Parameters:**', '');
+    for (const tag of params) {
+      const [name, ...rest] = tag.text.replace(/^-\s*/, '').split(/\s+/);
+      const description = rest.join(' ').replace(/^-\s*/, '');
+      lines.push(`- \`${name}\`${description ? ` — ${escapeMdx(description)}` : ''}`);
+    }
+    lines.push('');
+  }
+  for (const tag of tags) {
+    switch (tag.name) {
+      case 'param':
+        break;
+      case 'returns':
+      case 'return':
+        lines.push(`**Returns:** ${escapeMdx(tag.text)}`, '');
+        break;
+      case 'deprecated':
+        lines.push(':::warning Deprecated', '', escapeMdx(tag.text || 'This API is deprecated.'), '', ':::', '');
+        break;
+      case 'example':
+        lines.push('**Example:**', '', tag.text.includes('```') ? tag.text : codeBlock(tag.text), '');
+        break;
+      default:
+        lines.push(`**@${tag.name}** ${escapeMdx(tag.text)}`, '');
+    }
+  }
+  return lines;
+}
+
+function renderMember(member: ApiMember, owner: ApiSymbol, model: ApiModel, routeBasePath: string): string[] {
+  const label = member.kind === 'method' || member.kind === 'constructor' ? `${member.name}()` : member.name;
+  const lines = [
+    `### ${member.static ? 'static ' : ''}\`${label}\` {#${memberAnchor(member.name)}}`,
+    '',
+    codeBlock(member.signatures.join('\n')),
+    '',
+  ];
+  if (member.summary) {
+    lines.push(escapeMdx(member.summary), '');
+  }
+  lines.push(...renderTags(member.tags));
+  const references = referencedSymbols(member.signatures, model, owner.name);
+  if (references.length) {
+    lines.push(`**See also:** ${symbolLinks(references, routeBasePath)}`, '');
+  }
+  return lines;
+}
+
+function renderSymbol(symbol: ApiSymbol, model: ApiModel, routeBasePath: string): string {
+  const {title} = KIND_DIRS[symbol.kind];
+  const lines = [
+    '---',
+    `title: ${symbol.name}`,
+    `slug: /${symbol.name}`,
+    'custom_edit_url: null',
+    '---',
+    '',
+    `# ${title}: \`${symbol.name}\``,
+    '',
+  ];
+  if (symbol.summary) {
+    lines.push(escapeMdx(symbol.summary), '');
+  }
+  lines.push(codeBlock(symbol.signatures.join('\n')), '');
+  if (symbol.typeParameters.length) {
+    lines.push(`**Type parameters:** ${symbol.typeParameters.map((p) => `\`${p}\``).join(', ')}`, '');
+  }
+  const heritage = (label: string, types: string[]) => {
+    const links = types.map((type) => {
+      const base = type.replace(/<.*$/, '');
+      return model.symbols.some((s) => s.name === base)
+        ? `[\`${type}\`](${symbolPath(routeBasePath, base)})`
+        : `\`${type}\``;
+    });
+    if (links.length) {
+      lines.push(`**${label}:** ${links.join(', ')}`, '');
+    }
+  };
+  heritage('Extends', symbol.extends);
+  heritage('Implements', symbol.implements);
+  lines.push(...renderTags(symbol.tags));
+
+  if (symbol.kind === 'function') {
+    const references = referencedSymbols(symbol.signatures, model, symbol.name);
+    if (references.length) {
+      lines.push(`**See also:** ${symbolLinks(references, routeBasePath)}`, '');
+    }
+  }
+
+  for (const section of MEMBER_SECTIONS) {
+    const members = symbol.members.filter((member) => member.kind === section.kind);
+    if (members.length) {
+      lines.push(`## ${section.title}`, '');
+      for (const member of members) {
+        lines.push(...renderMember(member, symbol, model, routeBasePath));
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+function renderIndex(model: ApiModel, routeBasePath: string): string {
+  const lines = [
+    '---',
+    'title: API Reference',
+    'slug: /',
+    'sidebar_position: 1',
+    'custom_edit_url: null',
+    '---',
+    '',
+    '# API Reference',
+    '',
+  ];
+  if (!model.symbols.length) {
+    lines.push(
+      ':::info',
+      '',
+      `No \`@noony-serverless/core\` declarations were found at \`${model.source}\`. ` +
+        'Add a declaration bundle or TypeDoc JSON file there to generate the reference.',
+      '',
+      ':::',
+    );
+    return lines.join('\n');
+  }
+  lines.push(`Generated from \`${model.source}\`. Every exported class, interface and function has its own page.`, '');
+  for (const kind of Object.keys(KIND_DIRS) as ApiSymbolKind[]) {
+    const symbols = model.symbols.filter((symbol) => symbol.kind === kind);
+    if (symbols.length) {
+      lines.push(`## ${KIND_DIRS[kind].label}`, '');
+      for (const symbol of symbols) {
+        const summary = symbol.summary.split('\n')[0];
+        lines.push(`- [\`${symbol.name}\`](${symbolPath(routeBasePath, symbol.name)})${summary ? ` — ${escapeMdx(summary)}` : ''}`);
+      }
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+}
+
+function listFiles(dir: string, prefix = ''): string[] {
+  return fs
+    .readdirSync(path.join(dir, prefix), {withFileTypes: true})
+    .flatMap((entry) =>
+      entry.isDirectory() ? listFiles(dir, path.join(prefix, entry.name)) : [path.join(prefix, entry.name)],
+    );
+}
+
+/**
+ * Regenerates the Markdown tree served by the api-reference docs instance.
+ * Only changed files are written, so `npm start` doesn't reload for nothing.
+ */
+export function writeApiDocs(model: ApiModel, outputDir: string, routeBasePath: string): void {
+  const files = new Map<string, string>([
+    [MARKER_FILE, ''],
+    ['index.md', renderIndex(model, routeBasePath)],
+  ]);
+  (Object.keys(KIND_DIRS) as ApiSymbolKind[]).forEach((kind, index) => {
+    const symbols = model.symbols.filter((symbol) => symbol.kind === kind);
+    if (!symbols.length) {
+      return;
+    }
+    const {dir, label} = KIND_DIRS[kind];
+    files.set(path.join(dir, '_category_.json'), JSON.stringify({label, position: index + 2}, null, 2));
+    for (const symbol of symbols) {
+      files.set(path.join(dir, `${symbol.name}.md`), renderSymbol(symbol, model, routeBasePath));
+    }
+  });
+
+  const existing = fs.existsSync(outputDir) ? listFiles(outputDir) : [];
+  if (existing.length && !existing.includes(MARKER_FILE)) {
+    throw new Error(`Refusing to overwrite ${outputDir}: it was not generated by the api-reference plugin.`);
+  }
+  for (const file of existing.filter((file) => !files.has(file))) {
+    fs.rmSync(path.join(outputDir, file));
+  }
+  for (const {dir} of Object.values(KIND_DIRS)) {
+    const kindDir = path.join(outputDir, dir);
+    if (fs.existsSync(kindDir) && !fs.readdirSync(kindDir).length) {
+      fs.rmdirSync(kindDir);
+    }
+  }
+  for (const [file, content] of files) {
+    const target = path.join(outputDir, file);
+    if (!fs.existsSync(target) || fs.readFileSync(target, 'utf8') !== content) {
+      fs.mkdirSync(path.dirname(target), {recursive: true});
+      fs.writeFileSync(target, content);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export type ApiSymbolKind = 'class' | 'interface' | 'function';
+
+export type ApiMemberKind = 'constructor' | 'property' | 'method' | 'accessor';
+
+export interface ApiDocTag {
+  /** Tag name without the `@`, e.g. `param`, `returns`, `example`. */
+  name: string;
+  text: string;
+}
+
+export interface ApiDoc {
+  summary: string;
+  tags: ApiDocTag[];
+}
+
+export interface ApiMember extends ApiDoc {
+  name: string;
+  kind: ApiMemberKind;
+  /** TypeScript signature(s), one per overload. */
+  signatures: string[];
+  static?: boolean;
+}
+
+export interface ApiSymbol extends ApiDoc {
+  name: string;
+  kind: ApiSymbolKind;
+  /** Declaration header (class/interface line or function overloads). */
+  signatures: string[];
+  typeParameters: string[];
+  extends: string[];
+  implements: string[];
+  members: ApiMember[];
+}
+
+/** Every public symbol of one declaration bundle, sorted by name. */
+export interface ApiModel {
+  source: string;
+  symbols: ApiSymbol[];
+}
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import type {Link, Root} from 'mdast';
+import {visit} from 'unist-util-visit';
+import {symbolPath} from './markdown';
+import {loadApiModel} from './loadModel';
+
+export interface RemarkApiLinksOptions {
+  /** Absolute path of the `.d.ts` bundle or TypeDoc JSON file. */
+  source: string;
+  routeBasePath: string;
+}
+
+const PROTOCOL = 'api:';
+
+/**
+ * Resolves short API links in hand-written docs:
+ *
+ * - `[](api:Handler)` renders as `Handler` and links to its reference page
+ * - `[the use() method](api:Handler#use)` links to a member anchor
+ *
+ * Unknown symbols and members fail the build. Without a `source`, links go
+ * to the reference's index page unchecked.
+ */
+export default function remarkApiLinks({source, routeBasePath}: RemarkApiLinksOptions) {
+  return (tree: Root, file: {path?: string}) => {
+    const model = loadApiModel(source);
+    const validate = fs.existsSync(source);
+    visit(tree, 'link', (node: Link) => {
+      if (!node.url.startsWith(PROTOCOL)) {
+        return;
+      }
+      const [name, member] = node.url.slice(PROTOCOL.length).split('#');
+      const symbol = model.symbols.find((s) => s.name === name);
+      if (validate) {
+        if (!symbol) {
+          throw new Error(`Unknown API symbol "${node.url}" in ${file.path}`);
+        }
+        if (member && !symbol.members.some((m) => m.name === member)) {
+          throw new Error(`"${name}" has no member "${member}" (linked as "${node.url}" in ${file.path})`);
+        }
+      }
+      node.url = symbol ? symbolPath(routeBasePath, name, member) : `/${routeBasePath}`;
+      if (!node.children.length) {
+        node.children = [{type: 'inlineCode', value: member ? `${name}.${member}` : name}];
+      }
+    });
+  };
+}
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import {aliasedSitePathToRelativePath, normalizeUrl} from '@docusaurus/utils';
+import {applyTrailingSlash} from '@docusaurus/utils-common';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {LoadedContent, LoadedVersion} from '@docusaurus/plugin-content-docs';
+import {buildOutline} from '../print-edition/outline';
+import {readPageOutline, toMarkdownTwin, twinPermalink, type PageCodeBlock, type PageHeading} from './markdown';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface DocsExportOptions {
+  /** Id of the docs plugin instance to export. */
+  docsPluginId?: string;
+}
+
+type DocMetadata = LoadedVersion['docs'][number];
+
+/** One entry of `docs-index.json`. */
+interface IndexedPage {
+  id: string;
+  version: string;
+  /** Top-level sidebar category, or the doc title for a top-level doc. */
+  section: string;
+  title: string;
+  description: string;
+  /** `htmlLang` of the locale, e.g. `en-US`. */
+  language: string;
+  url: string;
+  markdownUrl: string;
+  headings: PageHeading[];
+  codeBlocks: PageCodeBlock[];
+}
+
+interface ExportedVersion {
+  version: LoadedVersion;
+  /** Docs in sidebar order, then listed docs that are in no sidebar. */
+  pages: {doc: DocMetadata; section: string}[];
+}
+
+function sourceFile(siteDir: string, doc: DocMetadata): string {
+  return path.resolve(siteDir, aliasedSitePathToRelativePath(doc.source));
+}
+
+function orderVersion(version: LoadedVersion, baseUrl: string): ExportedVersion {
+  const docs = new Map(version.docs.map((doc) => [doc.id, doc]));
+  const pages: ExportedVersion['pages'] = [];
+  let section = '';
+  for (const item of buildOutline(version, baseUrl)) {
+    if (item.depth === 0) {
+      section = item.type === 'part' ? item.label : item.title;
+    }
+    if (item.type === 'doc') {
+      pages.push({doc: docs.get(item.id)!, section});
+    }
+  }
+  const inSidebar = new Set(pages.map(({doc}) => doc.id));
+  for (const doc of version.docs) {
+    if (!inSidebar.has(doc.id) && !doc.unlisted) {
+      pages.push({doc, section: doc.title});
+    }
+  }
+  return {version, pages};
+}
+
+export default function pluginDocsExport(context: LoadContext, options: DocsExportOptions): Plugin {
+  const {siteDir, siteConfig, i18n} = context;
+  const docsPluginId = options.docsPluginId ?? 'default';
+  const language = i18n.localeConfigs[i18n.currentLocale]?.htmlLang ?? i18n.currentLocale;
+  let versions: ExportedVersion[] = [];
+
+  const absoluteUrl = (permalink: string) => normalizeUrl([siteConfig.url, permalink]);
+  // The URL the page is served at, e.g. without the trailing slash of index docs.
+  const pageUrl = (doc: DocMetadata) =>
+    applyTrailingSlash(doc.permalink, {trailingSlash: siteConfig.trailingSlash, baseUrl: context.baseUrl});
+  const twinUrl = (doc: DocMetadata) => twinPermalink(pageUrl(doc));
+  // Files are written under the build directory, which is served from the base URL.
+  const outputFile = (outDir: string, permalink: string) =>
+    path.join(outDir, permalink.slice(context.baseUrl.length));
+  // The newest version gets the site-wide llms.txt; the others get one in their own path.
+  const llmsPath = (version: LoadedVersion) => (version.isLast ? context.baseUrl : `${version.path}/`);
+
+  function llmsTxt({version, pages}: ExportedVersion): string {
+    const others = versions.filter((other) => other.version !== version);
+    const sections = new Map<string, string[]>();
+    for (const {doc, section} of pages) {
+      const description = doc.description.replace(/\s+/g, ' ').trim();
+      const entry = `- [${doc.title}](${absoluteUrl(twinUrl(doc))})${description ? `: ${description}` : ''}`;
+      sections.set(section, [...(sections.get(section) ?? []), entry]);
+    }
+    return [
+      `# ${siteConfig.title}`,
+      `> ${siteConfig.tagline}`,
+      `${others.length ? `Documentation of version ${version.label}. ` : ''}Every link below is the Markdown source of a docs page; add \`.md\` to the URL of any docs page to get the same.`,
+      ...[...sections].map(([title, entries]) => `## ${title}\n\n${entries.join('\n')}`),
+      others.length
+        ? `## Other versions\n\n${others
+            .map(({version: other}) => `- [${other.label}](${absoluteUrl(`${llmsPath(other)}llms.txt`)})`)
+            .join('\n')}`
+        : '',
+      `## Optional\n\n- [Full documentation](${absoluteUrl(`${llmsPath(version)}llms-full.txt`)}): every page above in one file, in the same order`,
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+      .concat('\n');
+  }
+
+  return {
+    name: 'docs-export',
+
+    async allContentLoaded({allContent}) {
+      const docs = allContent['docusaurus-plugin-content-docs']?.[docsPluginId] as LoadedContent | undefined;
+      if (!docs) {
+        throw new Error(`Docs export: no docs plugin instance with id "${docsPluginId}"`);
+      }
+      versions = docs.loadedVersions.map((version) => orderVersion(version, context.baseUrl));
+    },
+
+    // Written next to the HTML, so the files are only part of production builds.
+    async postBuild({outDir}) {
+      const index: IndexedPage[] = [];
+      for (const exported of versions) {
+        const {version, pages} = exported;
+        // Twins of other docs of the same version, by source file.
+        const twins = new Map(
+          version.docs.map((doc) => [sourceFile(siteDir, doc), twinUrl(doc)]),
+        );
+        const contents = new Map<string, {source: string; twin: string}>();
+        for (const doc of version.docs) {
+          const file = sourceFile(siteDir, doc);
+          const source = fs.readFileSync(file, 'utf8');
+          const twin = toMarkdownTwin(source, doc.title, (target) => twins.get(path.resolve(path.dirname(file), target)));
+          const twinFile = outputFile(outDir, twinUrl(doc));
+          fs.mkdirSync(path.dirname(twinFile), {recursive: true});
+          fs.writeFileSync(twinFile, twin);
+          contents.set(doc.id, {source, twin});
+        }
+
+        const full = pages.map(({doc, section}) => {
+          const {source, twin} = contents.get(doc.id)!;
+          index.push({
+            id: doc.id,
+            version: version.versionName,
+            section,
+            title: doc.title,
+            description: doc.description,
+            language,
+            url: absoluteUrl(pageUrl(doc)),
+            markdownUrl: absoluteUrl(twinUrl(doc)),
+            ...readPageOutline(source),
+          });
+          return `Source: ${absoluteUrl(pageUrl(doc))}\n\n${twin}`;
+        });
+
+        const dir = outputFile(outDir, llmsPath(version));
+        fs.mkdirSync(dir, {recursive: true});
+        fs.writeFileSync(path.join(dir, 'llms.txt'), llmsTxt(exported));
+        fs.writeFileSync(path.join(dir, 'llms-full.txt'), full.join('\n---\n\n'));
+      }
+
+      fs.writeFileSync(
+        path.join(outDir, 'docs-index.json'),
+        JSON.stringify(
+          {
+            title: siteConfig.title,
+            url: absoluteUrl(context.baseUrl),
+            language,
+            versions: versions.map(({version}) => ({
+              name: version.versionName,
+              label: version.label,
+              url: absoluteUrl(version.path),
+              isLast: version.isLast,
+            })),
+            pages: index,
+          },
+          null,
+          2,
+        ),
+      );
+      logger.info`Docs export: wrote llms.txt, llms-full.txt and docs-index.json with number=${index.length} pages`;
+    },
+  };
+}
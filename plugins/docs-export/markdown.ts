@@ -0,0 +1,93 @@
+import {readHeadings} from '../symbol-index/extract';
+import {extractSnippets} from '../typecheck-snippets/snippets';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface PageHeading {
+  depth: number;
+  text: string;
+  /** Heading id on the rendered page. */
+  anchor: string;
+}
+
+export interface PageCodeBlock {
+  language?: string;
+  meta?: string;
+  code: string;
+}
+
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const ESM = /^(?:import|export)\s/;
+/** `[text](./other.md#anchor "title")`, the links Docusaurus resolves to doc routes. */
+const FILE_LINK = /\]\(([^)\s]+?\.mdx?)(#[^)\s]*)?(\s+"[^"]*")?\)/g;
+
+function isClosingFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length >= fence.length && /^(`+|~+)$/.test(trimmed) && trimmed[0] === fence[0];
+}
+
+export function stripFrontMatter(source: string): string {
+  return source.replace(FRONT_MATTER, '');
+}
+
+/** `/noony-docs/docs/intro` -> `/noony-docs/docs/intro.md`, `/noony-docs/docs/` -> `/noony-docs/docs/index.md` */
+export function twinPermalink(permalink: string): string {
+  return permalink.endsWith('/') ? `${permalink}index.md` : `${permalink}.md`;
+}
+
+/**
+ * Markdown twin of a doc: the source without front matter or MDX
+ * `import`/`export` statements, with links to other doc files pointed at their
+ * twins, and the doc title as a heading when the source doesn't start with one.
+ * JSX components are kept as written.
+ */
+export function toMarkdownTwin(
+  source: string,
+  title: string,
+  resolveLink: (target: string) => string | undefined,
+): string {
+  const lines: string[] = [];
+  let fence: string | undefined;
+  let inEsm = false;
+  for (const line of stripFrontMatter(source).split('\n')) {
+    if (fence) {
+      lines.push(line);
+      if (isClosingFence(line, fence)) {
+        fence = undefined;
+      }
+      continue;
+    }
+    // An MDX import/export statement runs until the next blank line.
+    if (inEsm || ESM.test(line)) {
+      inEsm = line.trim() !== '';
+      continue;
+    }
+    const open = FENCE.exec(line);
+    if (open) {
+      fence = open[1];
+      lines.push(line);
+      continue;
+    }
+    lines.push(
+      line.replace(FILE_LINK, (match, target: string, hash = '', linkTitle = '') => {
+        const twin = resolveLink(target);
+        return twin ? `](${twin}${hash}${linkTitle})` : match;
+      }),
+    );
+  }
+  const body = lines.join('\n').trim();
+  return `${/^#\s/.test(body) ? body : `# ${title}\n\n${body}`}\n`;
+}
+
+export function readPageOutline(source: string): {headings: PageHeading[]; codeBlocks: PageCodeBlock[]} {
+  const body = stripFrontMatter(source);
+  return {
+    headings: readHeadings(body.split('\n')).map(({depth, text, anchor}) => ({depth, text, anchor})),
+    codeBlocks: extractSnippets(body, '').map(({lang, meta, code}) => ({
+      language: lang || undefined,
+      meta: meta || undefined,
+      code,
+    })),
+  };
+}
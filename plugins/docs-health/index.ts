@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import {normalizeUrl} from '@docusaurus/utils';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {LoadedContent} from '@docusaurus/plugin-content-docs';
+import {freshnessProblems, readFreshnessFields} from '../../src/components/DocsHealth/freshness';
+import type {DocHealthPage, DocsHealthData, DocsHealthReportData} from '../../src/components/DocsHealth/types';
+import {parseChangelog} from '../release-notes/changelog';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface DocsHealthOptions {
+  /**
+   * `CHANGELOG.md` of the package the docs describe; its newest version is the
+   * current one. Until it exists, no page is checked and the report says so.
+   */
+  changelog: string;
+  /** Pages whose `verified_on` is older than this are listed as stale. */
+  maxAgeMonths: number;
+  /** Route of the report page, relative to the base URL. */
+  routePath: string;
+  /** Id of the docs plugin instance to report on. */
+  docsPluginId?: string;
+}
+
+function currentVersion(changelog: string): string | undefined {
+  if (!fs.existsSync(changelog)) {
+    logger.warn`Docs health: no changelog at path=${changelog}; docs are not checked until it exists.`;
+    return undefined;
+  }
+  const [latest] = parseChangelog(fs.readFileSync(changelog, 'utf8'), path.basename(path.dirname(changelog)));
+  if (!latest) {
+    throw new Error(`Docs health: ${changelog} has no "## <version>" headings`);
+  }
+  return latest.version;
+}
+
+export default function pluginDocsHealth(context: LoadContext, options: DocsHealthOptions): Plugin {
+  const changelog = path.resolve(context.siteDir, options.changelog);
+  const docsPluginId = options.docsPluginId ?? 'default';
+
+  return {
+    name: 'docs-health',
+
+    getPathsToWatch() {
+      return [changelog];
+    },
+
+    // Runs once every docs instance has loaded, so the report sees the
+    // parsed front matter rather than re-reading the Markdown files.
+    async allContentLoaded({allContent, actions}) {
+      const docs = allContent['docusaurus-plugin-content-docs']?.[docsPluginId] as LoadedContent | undefined;
+      // Released versions are frozen snapshots; only the docs being edited are reviewed.
+      const current = docs?.loadedVersions.find((version) => version.versionName === 'current');
+      if (!current) {
+        throw new Error(`Docs health: no docs plugin instance with id "${docsPluginId}"`);
+      }
+      const version = currentVersion(changelog);
+      const today = new Date().toISOString().slice(0, 10);
+      const pages: DocHealthPage[] = current.docs
+        .filter((doc) => !doc.unlisted)
+        .map((doc) => {
+          const fields = readFreshnessFields(doc.frontMatter);
+          return {
+            title: doc.title,
+            permalink: doc.permalink,
+            source: doc.source,
+            ...fields,
+            // Until the changelog exists, the page explains that instead of flagging every doc.
+            problems: version ? freshnessProblems(fields, version, options.maxAgeMonths, today) : [],
+          };
+        });
+
+      const data: DocsHealthData = {
+        currentVersion: version,
+        maxAgeMonths: options.maxAgeMonths,
+        generatedOn: today,
+        routePath: normalizeUrl(['/', options.routePath]),
+      };
+      const flagged = pages.filter((page) => page.problems.length).length;
+      if (flagged) {
+        logger.info`Docs health: number=${flagged} of number=${pages.length} docs are not verified against @noony-serverless/core name=${version}, see url=${data.routePath}`;
+      }
+      // The badges only need the current release; the page list is loaded by the report alone.
+      actions.setGlobalData(data);
+      const report: DocsHealthReportData = {
+        ...data,
+        changelog: path.relative(context.siteDir, changelog),
+        pages,
+      };
+      actions.addRoute({
+        path: normalizeUrl([context.baseUrl, options.routePath]),
+        component: '@site/src/components/DocsHealth/Report.tsx',
+        exact: true,
+        modules: {
+          data: await actions.createData('docs-health.json', report),
+        },
+      });
+    },
+  };
+}
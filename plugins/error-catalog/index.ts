@@ -0,0 +1,66 @@
+import {normalizeUrl} from '@docusaurus/utils';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {ErrorCatalogData, ErrorDefinition} from '../../src/components/ErrorCatalog/types';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface ErrorCatalogOptions {
+  /** Typed error registry, see `src/components/ErrorCatalog/errors.ts`. */
+  errors: ErrorDefinition[];
+  /** Route of the catalog page, relative to the base URL. */
+  routePath: string;
+}
+
+function duplicate(values: string[]): string | undefined {
+  return values.find((value, index) => values.indexOf(value) !== index);
+}
+
+// Previews look errors up by name and links by id, so both have to be unique.
+function validateErrors(errors: ErrorDefinition[]): void {
+  const duplicateName = duplicate(errors.map((error) => error.name));
+  if (duplicateName) {
+    throw new Error(`Error class "${duplicateName}" is listed more than once in the error catalog`);
+  }
+  const duplicateId = duplicate(errors.map((error) => error.id));
+  if (duplicateId) {
+    throw new Error(`Error catalog id "${duplicateId}" is used more than once`);
+  }
+  for (const error of errors) {
+    if (!Number.isInteger(error.status) || error.status < 400 || error.status > 599) {
+      throw new Error(`Error "${error.name}": status ${error.status} is not an HTTP error status`);
+    }
+    if (error.code !== undefined && !/^[A-Z][A-Z0-9_]*$/.test(error.code)) {
+      throw new Error(`Error "${error.name}": code "${error.code}" must be UPPER_SNAKE_CASE`);
+    }
+    if (error.doc && !error.doc.to.startsWith('/')) {
+      throw new Error(`Error "${error.name}": doc link "${error.doc.to}" must be a site path starting with "/"`);
+    }
+  }
+}
+
+export default function pluginErrorCatalog(
+  context: LoadContext,
+  options: ErrorCatalogOptions,
+): Plugin<ErrorCatalogData> {
+  return {
+    name: 'error-catalog',
+
+    async loadContent() {
+      validateErrors(options.errors);
+      return {
+        routePath: normalizeUrl(['/', options.routePath]),
+        errors: options.errors,
+      };
+    },
+
+    async contentLoaded({content, actions}) {
+      // The catalog page and every <ErrorResponsePreview> read the same registry.
+      actions.setGlobalData(content);
+      actions.addRoute({
+        path: normalizeUrl([context.baseUrl, options.routePath]),
+        component: '@site/src/components/ErrorCatalog/index.tsx',
+        exact: true,
+      });
+    },
+  };
+}
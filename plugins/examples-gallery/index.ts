@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import {normalizeUrl, posixPath} from '@docusaurus/utils';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {
+  Example,
+  ExampleFile,
+  ExampleManifestEntry,
+  ExamplesData,
+} from '../../src/components/ExamplesGallery/types';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface ExamplesGalleryOptions {
+  /** Typed manifest, see `src/components/ExamplesGallery/manifest.ts`. */
+  examples: ExampleManifestEntry[];
+  /** Route of the gallery page, relative to the base URL. */
+  routePath: string;
+}
+
+function readSourceFiles(dir: string, root = dir): ExampleFile[] {
+  return fs.readdirSync(dir, {withFileTypes: true}).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return readSourceFiles(full, root);
+    }
+    return /\.tsx?$/.test(entry.name)
+      ? [{name: posixPath(path.relative(root, full)), code: fs.readFileSync(full, 'utf8').trimEnd()}]
+      : [];
+  });
+}
+
+function loadExample(siteDir: string, entry: ExampleManifestEntry): Example {
+  const dir = path.resolve(siteDir, entry.source);
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Example "${entry.id}": source directory ${entry.source} does not exist`);
+  }
+  const files = readSourceFiles(dir).sort((a, b) => a.name.localeCompare(b.name));
+  const first = files.find((file) => file.name === entry.entry);
+  if (!first) {
+    throw new Error(`Example "${entry.id}": entry file ${entry.entry} is not in ${entry.source}`);
+  }
+  return {...entry, files: [first, ...files.filter((file) => file !== first)]};
+}
+
+export default function pluginExamplesGallery(
+  context: LoadContext,
+  options: ExamplesGalleryOptions,
+): Plugin<ExamplesData> {
+  return {
+    name: 'examples-gallery',
+
+    getPathsToWatch() {
+      return options.examples.map((entry) => path.join(path.resolve(context.siteDir, entry.source), '**/*.ts'));
+    },
+
+    async loadContent() {
+      const duplicate = options.examples.find(
+        (entry, index) => options.examples.findIndex((other) => other.id === entry.id) !== index,
+      );
+      if (duplicate) {
+        throw new Error(`Example id "${duplicate.id}" is used more than once in the examples manifest`);
+      }
+      return {examples: options.examples.map((entry) => loadExample(context.siteDir, entry))};
+    },
+
+    async contentLoaded({content, actions}) {
+      // Only the gallery reads the sources, so they are not sent with every page.
+      actions.addRoute({
+        path: normalizeUrl([context.baseUrl, options.routePath]),
+        component: '@site/src/components/ExamplesGallery/index.tsx',
+        exact: true,
+        modules: {
+          data: await actions.createData('examples-gallery.json', content),
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import {normalizeUrl} from '@docusaurus/utils';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {GlossaryData, GlossaryEntry} from '../../src/components/Glossary/types';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export {default as remarkGlossaryLinks} from './remark';
+
+export interface GlossaryOptions {
+  /** Typed glossary, see `src/components/Glossary/terms.ts`. */
+  entries: GlossaryEntry[];
+  /** Route of the glossary page, relative to the base URL. */
+  routePath: string;
+}
+
+function duplicate(values: string[]): string | undefined {
+  return values.find((value, index) => values.indexOf(value) !== index);
+}
+
+// Two entries claiming the same name would make the linked term depend on their order.
+function validateEntries(entries: GlossaryEntry[]): void {
+  const ids = entries.map((entry) => entry.id);
+  const duplicateId = duplicate(ids);
+  if (duplicateId) {
+    throw new Error(`Glossary id "${duplicateId}" is used more than once`);
+  }
+  const duplicateCode = duplicate(entries.flatMap((entry) => entry.code ?? []));
+  if (duplicateCode) {
+    throw new Error(`Glossary code name "${duplicateCode}" belongs to more than one entry`);
+  }
+  const duplicatePhrase = duplicate(entries.flatMap((entry) => (entry.phrases ?? []).map((p) => p.toLowerCase())));
+  if (duplicatePhrase) {
+    throw new Error(`Glossary phrase "${duplicatePhrase}" belongs to more than one entry`);
+  }
+  for (const entry of entries) {
+    if (!entry.doc.to.startsWith('/')) {
+      throw new Error(`Glossary entry "${entry.id}": doc link "${entry.doc.to}" must be a site path starting with "/"`);
+    }
+    const unknown = entry.related?.find((id) => !ids.includes(id));
+    if (unknown) {
+      throw new Error(`Glossary entry "${entry.id}" relates to unknown entry "${unknown}"`);
+    }
+  }
+}
+
+export default function pluginGlossary(context: LoadContext, options: GlossaryOptions): Plugin<GlossaryData> {
+  return {
+    name: 'glossary',
+
+    async loadContent() {
+      validateEntries(options.entries);
+      const entries = [...options.entries].sort((a, b) => a.term.localeCompare(b.term, 'en', {sensitivity: 'base'}));
+      return {routePath: normalizeUrl(['/', options.routePath]), entries};
+    },
+
+    async contentLoaded({content, actions}) {
+      // The page and every linked term read the same data.
+      actions.setGlobalData(content);
+      actions.addRoute({
+        path: normalizeUrl([context.baseUrl, options.routePath]),
+        component: '@site/src/components/Glossary/index.tsx',
+        exact: true,
+      });
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import type {Parent, PhrasingContent, Root, RootContent} from 'mdast';
+import type {MdxJsxTextElement} from 'mdast-util-mdx-jsx';
+import type {GlossaryEntry} from '../../src/components/Glossary/types';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface RemarkGlossaryLinksOptions {
+  entries: GlossaryEntry[];
+}
+
+/** Front matter field that turns term linking off for a page: `glossary_links: false`. */
+export const OPT_OUT_FIELD = 'glossary_links';
+
+// Headings and links can't hold another link, and component children or
+// table cells would clip the hover card.
+const SKIPPED = new Set(['heading', 'link', 'linkReference', 'table', 'mdxJsxFlowElement', 'mdxJsxTextElement']);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function phrasePattern(phrases: string[]): RegExp {
+  const alternatives = [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map((phrase) => escapeRegExp(phrase).replace(/\s+/g, '\\s+'));
+  return new RegExp(`(?<![\\w-])(?:${alternatives.join('|')})(?![\\w-])`, 'i');
+}
+
+function termElement(entry: GlossaryEntry, child: PhrasingContent): MdxJsxTextElement {
+  return {
+    type: 'mdxJsxTextElement',
+    name: 'GlossaryTerm',
+    attributes: [{type: 'mdxJsxAttribute', name: 'id', value: entry.id}],
+    children: [child],
+  };
+}
+
+/**
+ * Links the first mention of each glossary term on a page to its entry,
+ * rendered by `<GlossaryTerm>` with a hover card. A mention is inline code
+ * equal to one of the entry's `code` names, or one of its `phrases` in running
+ * text. Headings, links, tables and JSX components are left alone.
+ */
+export default function remarkGlossaryLinks({entries}: RemarkGlossaryLinksOptions) {
+  const byCode = new Map(entries.flatMap((entry) => (entry.code ?? []).map((code) => [code, entry] as const)));
+  const byPhrase = entries
+    .filter((entry) => entry.phrases?.length)
+    .map((entry) => ({entry, pattern: phrasePattern(entry.phrases!)}));
+
+  return (tree: Root, file: {data: {frontMatter?: {[key: string]: unknown}}}) => {
+    if (file.data.frontMatter?.[OPT_OUT_FIELD] === false) {
+      return;
+    }
+    const linked = new Set<string>();
+
+    // Splits a text node around the first mention of each term not linked yet.
+    const linkPhrases = (value: string): PhrasingContent[] | undefined => {
+      const parts: PhrasingContent[] = [];
+      let rest = value;
+      for (;;) {
+        let first: {entry: GlossaryEntry; match: RegExpExecArray} | undefined;
+        for (const {entry, pattern} of byPhrase) {
+          const match = linked.has(entry.id) ? null : pattern.exec(rest);
+          if (match && (!first || match.index < first.match.index)) {
+            first = {entry, match};
+          }
+        }
+        if (!first) {
+          break;
+        }
+        const {entry, match} = first;
+        linked.add(entry.id);
+        if (match.index) {
+          parts.push({type: 'text', value: rest.slice(0, match.index)});
+        }
+        parts.push(termElement(entry, {type: 'text', value: match[0]}));
+        rest = rest.slice(match.index + match[0].length);
+      }
+      if (!parts.length) {
+        return undefined;
+      }
+      return rest ? [...parts, {type: 'text', value: rest}] : parts;
+    };
+
+    const visit = (parent: Parent) => {
+      for (let index = 0; index < parent.children.length; index++) {
+        const node: RootContent = parent.children[index];
+        if (node.type === 'inlineCode') {
+          const entry = byCode.get(node.value);
+          if (entry && !linked.has(entry.id)) {
+            linked.add(entry.id);
+            parent.children[index] = termElement(entry, node);
+          }
+        } else if (node.type === 'text') {
+          const parts = linkPhrases(node.value);
+          if (parts) {
+            parent.children.splice(index, 1, ...parts);
+            index += parts.length - 1;
+          }
+        } else if ('children' in node && !SKIPPED.has(node.type)) {
+          visit(node);
+        }
+      }
+    };
+    visit(tree);
+  };
+}
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import {normalizeRoute, type BuiltPage} from './scan';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface LinkError {
+  /** Link as written in the page. */
+  href: string;
+  reason: 'missing page' | 'missing anchor' | 'malformed URL';
+  /** Routes of the pages containing the link. */
+  pages: string[];
+}
+
+export interface ExternalLink {
+  url: string;
+  pages: string[];
+}
+
+export interface LinkCheckResult {
+  checked: number;
+  errors: LinkError[];
+  external: ExternalLink[];
+}
+
+// Resolving against a fake origin tells internal links apart from external ones.
+const ORIGIN = 'https://link-integrity.invalid';
+const IGNORED_PROTOCOLS = /^(mailto|tel|javascript|data):/i;
+
+function toPattern(entry: string): RegExp {
+  const source = entry.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+// `undefined` for a malformed `%` escape, which the decoders throw on
+function tryDecode(decode: (value: string) => string, value: string): string | undefined {
+  try {
+    return decode(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function addTo<K>(map: Map<K, Set<string>>, key: K, page: string): void {
+  const pages = map.get(key) ?? new Set<string>();
+  pages.add(page);
+  map.set(key, pages);
+}
+
+/**
+ * Checks every link of the built pages: internal links must point to an
+ * existing page (or static file) and their `#fragment` to an id on that page.
+ * External links are collected for the report, not fetched.
+ *
+ * @param allow Exact links or `*` patterns to skip, matched against external
+ *   URLs and against site paths without the baseUrl (`/docs/intro#setup`).
+ */
+export function checkLinks(
+  pages: Map<string, BuiltPage>,
+  {outDir, baseUrl, allow}: {outDir: string; baseUrl: string; allow: string[]},
+): LinkCheckResult {
+  const allowed = allow.map(toPattern);
+  const isAllowed = (link: string) => allowed.some((pattern) => pattern.test(link));
+  const errors = new Map<string, Set<string>>();
+  const external = new Map<string, Set<string>>();
+  let checked = 0;
+
+  for (const page of pages.values()) {
+    for (const href of page.links) {
+      if (!href || IGNORED_PROTOCOLS.test(href)) {
+        continue;
+      }
+      checked += 1;
+      let url: URL;
+      try {
+        url = new URL(href, `${ORIGIN}${page.route}`);
+      } catch {
+        addTo(errors, `malformed URL\0${href}`, page.route);
+        continue;
+      }
+
+      if (url.origin !== ORIGIN) {
+        if (/^https?:$/.test(url.protocol) && !isAllowed(url.href)) {
+          addTo(external, url.href, page.route);
+        }
+        continue;
+      }
+
+      const pathname = tryDecode(decodeURI, url.pathname);
+      const anchor = tryDecode(decodeURIComponent, url.hash.slice(1));
+      if (pathname === undefined || anchor === undefined) {
+        addTo(errors, `malformed URL\0${href}`, page.route);
+        continue;
+      }
+      const sitePath = pathname.startsWith(baseUrl) ? `/${pathname.slice(baseUrl.length)}` : pathname;
+      if (isAllowed(sitePath + url.hash)) {
+        continue;
+      }
+
+      const target = pages.get(normalizeRoute(pathname.replace(/\.html$/, '')));
+      if (!target) {
+        const isStaticFile = pathname.startsWith(baseUrl) && fs.existsSync(path.join(outDir, sitePath));
+        if (!isStaticFile) {
+          addTo(errors, `missing page\0${href}`, page.route);
+        }
+        continue;
+      }
+      if (anchor && !target.ids.has(anchor)) {
+        addTo(errors, `missing anchor\0${href}`, page.route);
+      }
+    }
+  }
+
+  return {
+    checked,
+    errors: [...errors].map(([key, sources]) => {
+      const [reason, href] = key.split('\0') as [LinkError['reason'], string];
+      return {href, reason, pages: [...sources].sort()};
+    }),
+    external: [...external]
+      .map(([url, sources]) => ({url, pages: [...sources].sort()}))
+      .sort((a, b) => a.url.localeCompare(b.url)),
+  };
+}
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import {checkLinks, type LinkCheckResult, type LinkError} from './check';
+import {readBuiltPages} from './scan';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface LinkIntegrityOptions {
+  /** Directory for the per-locale external link reports, relative to the site directory. */
+  reportDir: string;
+  /**
+   * Links that are never reported: exact values or `*` patterns, matched
+   * against external URLs and against site paths without the baseUrl.
+   */
+  allow?: string[];
+}
+
+function formatErrors(errors: LinkError[]): string {
+  return errors
+    .map(({href, reason, pages}) => {
+      const sources = pages.length > 3 ? `${pages.slice(0, 3).join(', ')} and ${pages.length - 3} more` : pages.join(', ');
+      return `  - ${href} (${reason}) on ${sources}`;
+    })
+    .join('\n');
+}
+
+export default function pluginLinkIntegrity(
+  context: LoadContext,
+  options: LinkIntegrityOptions,
+): Plugin {
+  const {baseUrl, i18n} = context.siteConfig;
+
+  function run(outDir: string, locale: string): LinkCheckResult {
+    // The default locale is built at the root, next to the other locales' directories.
+    const skipDirs = locale === i18n.defaultLocale ? i18n.locales.filter((name) => name !== locale) : [];
+    const pages = readBuiltPages(outDir, baseUrl, skipDirs);
+    const result = checkLinks(pages, {outDir, baseUrl, allow: options.allow ?? []});
+
+    const reportPath = path.resolve(context.siteDir, options.reportDir, `${locale}.json`);
+    fs.mkdirSync(path.dirname(reportPath), {recursive: true});
+    fs.writeFileSync(reportPath, `${JSON.stringify({locale, external: result.external}, null, 2)}\n`);
+    logger.info`Checked number=${result.checked} links on number=${pages.size} pages (locale name=${locale}); number=${result.external.length} external URLs listed in path=${path.relative(context.siteDir, reportPath)}`;
+    return result;
+  }
+
+  return {
+    name: 'link-integrity',
+
+    extendCli(cli) {
+      cli
+        .command('check-links [locale]')
+        .description('Check the internal links and anchors of an existing build and list its external URLs.')
+        .option('--out-dir <dir>', 'build output directory, relative to the site directory', 'build')
+        .action((locale: string | undefined, {outDir}: {outDir: string}) => {
+          const target = locale ?? i18n.defaultLocale;
+          const dir = path.resolve(context.siteDir, outDir, target === i18n.defaultLocale ? '' : target);
+          if (!fs.existsSync(dir)) {
+            logger.error`No build found at path=${dir}. Run code=${`npm run build -- --locale ${target}`} first.`;
+            process.exit(1);
+          }
+          const {errors} = run(dir, target);
+          if (errors.length) {
+            logger.error(`Found ${errors.length} broken internal links:\n${formatErrors(errors)}`);
+            process.exit(1);
+          }
+        });
+    },
+
+    // Runs before Docusaurus' own broken link check, on the final HTML of every page,
+    // so links rendered by TSX pages and the navbar/footer config are covered too.
+    async postBuild({outDir}) {
+      const {errors} = run(outDir, context.i18n.currentLocale);
+      if (errors.length) {
+        throw new Error(
+          `Found ${errors.length} broken internal links:\n${formatErrors(errors)}\n` +
+            'Fix the link target, or add it to the link-integrity "allow" list in docusaurus.config.ts.',
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import {posixPath} from '@docusaurus/utils';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface BuiltPage {
+  /** Route without a trailing slash, including the baseUrl. */
+  route: string;
+  /** Every `id` attribute on the page (heading anchors among them). */
+  ids: Set<string>;
+  /** `href` of every `<a>` element, as written in the HTML. */
+  links: string[];
+}
+
+const ANCHOR = /<a\b([^>]*)>/g;
+const HREF_ATTRIBUTE = /\shref="([^"]*)"/;
+const ID_ATTRIBUTE = /\sid="([^"]*)"/g;
+
+const ENTITIES: Record<string, string> = {amp: '&', quot: '"', apos: "'", lt: '<', gt: '>'};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1)));
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+export function normalizeRoute(route: string): string {
+  return route.replace(/\/+$/, '') || '/';
+}
+
+function collectHtmlFiles(dir: string, skipDirs: string[]): string[] {
+  return fs.readdirSync(dir, {withFileTypes: true}).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return skipDirs.includes(entry.name) ? [] : collectHtmlFiles(full, []);
+    }
+    return entry.name.endsWith('.html') ? [full] : [];
+  });
+}
+
+/**
+ * Reads every page of a build output directory.
+ *
+ * @param skipDirs Top-level directories to leave out, e.g. the output of
+ *   other locales nested inside the default locale's build.
+ */
+export function readBuiltPages(outDir: string, baseUrl: string, skipDirs: string[] = []): Map<string, BuiltPage> {
+  const pages = new Map<string, BuiltPage>();
+  for (const file of collectHtmlFiles(outDir, skipDirs)) {
+    const html = fs.readFileSync(file, 'utf8');
+    const relative = posixPath(path.relative(outDir, file))
+      .replace(/(^|\/)index\.html$/, '')
+      .replace(/\.html$/, '');
+    const route = normalizeRoute(`${baseUrl}${relative}`);
+    pages.set(route, {
+      route,
+      ids: new Set([...html.matchAll(ID_ATTRIBUTE)].map((match) => decodeEntities(match[1]))),
+      links: [...html.matchAll(ANCHOR)].flatMap(([, attributes]) => {
+        const href = HREF_ATTRIBUTE.exec(attributes)?.[1];
+        // Locale dropdown items (`lang="…"`) point into another locale's build, checked on its own.
+        return href === undefined || /\slang="/.test(attributes) ? [] : [decodeEntities(href)];
+      }),
+    });
+  }
+  return pages;
+}
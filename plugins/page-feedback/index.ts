@@ -0,0 +1,61 @@
+import path from 'path';
+import logger from '@docusaurus/logger';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {FeedbackSinkConfig, PageFeedbackData} from '../../src/components/PageFeedback/types';
+import {startFeedbackServer} from './server';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface PageFeedbackOptions {
+  /** Where "Was this helpful?" answers and reading events go. */
+  sink: FeedbackSinkConfig;
+  /** Skip reading analytics for readers who send Do Not Track or Global Privacy Control. Defaults to `true`. */
+  respectDoNotTrack?: boolean;
+}
+
+function validateSink(sink: FeedbackSinkConfig): void {
+  if (sink.type !== 'http') {
+    return;
+  }
+  let url: URL;
+  try {
+    // Relative endpoints are resolved against the page, e.g. `/api/feedback`
+    url = new URL(sink.endpoint, 'https://site.invalid');
+  } catch {
+    throw new Error(`Page feedback: sink endpoint "${sink.endpoint}" is not a valid URL`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Page feedback: sink endpoint "${sink.endpoint}" must be an http(s) URL`);
+  }
+}
+
+export default function pluginPageFeedback(context: LoadContext, options: PageFeedbackOptions): Plugin {
+  validateSink(options.sink);
+
+  return {
+    name: 'page-feedback',
+
+    async contentLoaded({actions}) {
+      const data: PageFeedbackData = {
+        sink: options.sink,
+        respectDoNotTrack: options.respectDoNotTrack ?? true,
+      };
+      actions.setGlobalData(data);
+    },
+
+    extendCli(cli) {
+      cli
+        .command('feedback:serve')
+        .description('Run a local feedback endpoint that logs the events it receives and saves them as JSON lines.')
+        .option('--port <port>', 'port to listen on', '3302')
+        .option('--output <file>', 'file to append events to, relative to the site directory', 'feedback-events.jsonl')
+        .action(async ({port, output}: {port: string; output: string}) => {
+          const file = path.resolve(context.siteDir, output);
+          const endpoint = `http://127.0.0.1:${port}/`;
+          await startFeedbackServer(Number(port), file);
+          logger.info`Listening on url=${endpoint}, saving events to path=${file}`;
+          logger.info`Start the site with code=${`FEEDBACK_ENDPOINT=${endpoint} npm start`} to send events here.`;
+        });
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import http from 'http';
+import logger from '@docusaurus/logger';
+import type {FeedbackEvent} from '../../src/components/PageFeedback/types';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+const EVENT_TYPES = new Set<string>(['page-feedback', 'search-no-results', 'copy-code', 'not-found']);
+
+// Comments are capped at 1000 characters; anything much larger isn't from the widget
+const MAX_BODY_BYTES = 16 * 1024;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function isFeedbackEvent(value: unknown): value is FeedbackEvent {
+  const event = value as Partial<FeedbackEvent> | null;
+  return (
+    typeof event === 'object' &&
+    event !== null &&
+    EVENT_TYPES.has(event.type as string) &&
+    typeof event.path === 'string' &&
+    typeof event.timestamp === 'string'
+  );
+}
+
+function describe(event: FeedbackEvent): string {
+  switch (event.type) {
+    case 'page-feedback':
+      return `${event.helpful ? 'helpful' : 'not helpful'}${event.heading ? ` #${event.heading}` : ''}${event.comment ? `: ${event.comment}` : ''}`;
+    case 'search-no-results':
+      return `"${event.query}" (${event.source})`;
+    case 'copy-code':
+      return event.heading ? `#${event.heading}` : '';
+    case 'not-found':
+      return event.referrer ? `from ${event.referrer}` : '';
+  }
+}
+
+/**
+ * Local stand-in for a feedback endpoint: accepts the events the HTTP sink
+ * POSTs, logs them and appends them to `outFile` as JSON lines.
+ */
+export async function startFeedbackServer(port: number, outFile: string): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405, {...CORS_HEADERS, Allow: 'POST, OPTIONS'}).end();
+      return;
+    }
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (Buffer.byteLength(body) > MAX_BODY_BYTES) {
+        res.writeHead(413, CORS_HEADERS).end();
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      if (res.headersSent) {
+        return;
+      }
+      let event: unknown;
+      try {
+        event = JSON.parse(body);
+      } catch {
+        event = undefined;
+      }
+      if (!isFeedbackEvent(event)) {
+        res.writeHead(400, CORS_HEADERS).end();
+        return;
+      }
+      fs.appendFileSync(outFile, `${JSON.stringify(event)}\n`);
+      logger.info`name=${event.type} path=${event.path} ${describe(event)}`;
+      res.writeHead(204, CORS_HEADERS).end();
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', resolve);
+  });
+  return server;
+}
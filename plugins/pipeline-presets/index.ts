@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import {checkChain, parseChain} from '../../src/components/MiddlewareMatrix/check';
+import {validateSequence, type SequencePath} from '../../src/components/MiddlewareSequence/diagram';
+import type {PipelinePreset} from '../../src/components/PipelineDiagram/presets';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface PipelinePresetsOptions {
+  /** Presets by export name, see `src/components/PipelineDiagram/presets.ts`. */
+  presets: Record<string, PipelinePreset>;
+  /** Directories, relative to the site directory, whose diagrams must use one of the presets. */
+  include: string[];
+}
+
+const DIAGRAM_TAG = /<(MiddlewareSequence|PipelineDiagram)\s([^>]*?)\/?>/g;
+
+function listSources(dir: string): string[] {
+  return fs.readdirSync(dir, {withFileTypes: true}).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listSources(full);
+    }
+    return /\.(mdx?|tsx)$/.test(entry.name) ? [full] : [];
+  });
+}
+
+// The chain a preset draws has to pass the same check as the order checker on the docs pages.
+function presetProblems(name: string, preset: PipelinePreset): string[] {
+  const chain = parseChain(preset.middlewares.map((middleware) => middleware.name).join('\n'));
+  return checkChain(chain)
+    .filter((issue) => issue.severity !== 'info')
+    .map((issue) => `preset "${name}": ${issue.message}`);
+}
+
+// A diagram described inline would skip the preset check, so every one has to spread a preset.
+function usageProblems(file: string, source: string, presets: Record<string, PipelinePreset>): string[] {
+  return [...source.matchAll(DIAGRAM_TAG)].flatMap(([, component, attributes]) => {
+    const spread = /\{\.\.\.(\w+)\}/.exec(attributes!)?.[1];
+    const preset = spread && presets[spread];
+    if (!preset) {
+      return [`${file}: <${component}> must spread one of the presets (${Object.keys(presets).join(', ')})`];
+    }
+    if (component !== 'MiddlewareSequence') {
+      return [];
+    }
+    const sequencePath = (/\bpath="([^"]*)"/.exec(attributes!)?.[1] ?? 'success') as SequencePath;
+    return validateSequence(preset.middlewares, preset.handler, sequencePath).map(
+      (error) => `${file}: <MiddlewareSequence {...${spread}} path="${sequencePath}">: ${error}`,
+    );
+  });
+}
+
+/**
+ * Fails the build when a pipeline preset breaks the middleware order rules or
+ * a page draws a diagram the presets don't describe, so the diagrams can't
+ * drift from what the order checker recommends.
+ */
+export default function pluginPipelinePresets(context: LoadContext, options: PipelinePresetsOptions): Plugin<void> {
+  const dirs = options.include.map((dir) => path.resolve(context.siteDir, dir));
+  return {
+    name: 'pipeline-presets',
+
+    getPathsToWatch() {
+      return dirs.map((dir) => path.join(dir, '**/*.{md,mdx,tsx}'));
+    },
+
+    async loadContent() {
+      const problems = [
+        ...Object.entries(options.presets).flatMap(([name, preset]) => presetProblems(name, preset)),
+        ...dirs
+          .flatMap(listSources)
+          .flatMap((file) =>
+            usageProblems(path.relative(context.siteDir, file), fs.readFileSync(file, 'utf8'), options.presets),
+          ),
+      ];
+      if (problems.length > 0) {
+        throw new Error(`Pipeline diagrams are out of date:\n- ${problems.join('\n- ')}`);
+      }
+    },
+  };
+}
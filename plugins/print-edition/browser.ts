@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import puppeteer, {type Browser} from 'puppeteer-core';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+const BROWSER_NAMES = ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser', 'chrome'];
+
+const BROWSER_PATHS = [
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  '/Applications/Chromium.app/Contents/MacOS/Chromium',
+  'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+  'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+];
+
+/**
+ * Local Chrome or Chromium executable: `CHROME_PATH` if set, else the first
+ * one found on the `PATH` or at its usual install location. Nothing is
+ * downloaded, so builds without a browser keep working.
+ */
+export function findBrowser(): string | undefined {
+  if (process.env.CHROME_PATH) {
+    return process.env.CHROME_PATH;
+  }
+  const onPath = (process.env.PATH ?? '')
+    .split(path.delimiter)
+    .filter(Boolean)
+    .flatMap((dir) => BROWSER_NAMES.map((name) => path.join(dir, name)));
+  return [...onPath, ...BROWSER_PATHS].find((file) => fs.existsSync(file));
+}
+
+export async function withBrowser<T>(executablePath: string, run: (browser: Browser) => Promise<T>): Promise<T> {
+  const browser = await puppeteer.launch({
+    executablePath,
+    // Chrome refuses to start its sandbox as root, e.g. in CI containers.
+    args: process.getuid?.() === 0 ? ['--no-sandbox'] : [],
+  });
+  try {
+    return await run(browser);
+  } finally {
+    await browser.close();
+  }
+}
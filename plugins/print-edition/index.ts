@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import {aliasedSitePathToRelativePath, normalizeUrl} from '@docusaurus/utils';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {LoadedContent} from '@docusaurus/plugin-content-docs';
+import type {PrintEditionData} from '../../src/components/PrintEdition/types';
+import {findBrowser, withBrowser} from './browser';
+import {extractDiagrams, readCache, renderDiagrams, writeCache} from './mermaid';
+import {buildOutline} from './outline';
+import {resolveBuildFile, serveBuild} from './serve';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+const PRINT_TIMEOUT = 5 * 60 * 1000;
+
+export interface PrintEditionOptions {
+  /** Route of the single-page edition, relative to the base URL. */
+  routePath: string;
+  /** Title printed on the cover and used as the page title. */
+  title: string;
+  /** Id of the docs plugin instance to print. */
+  docsPluginId?: string;
+}
+
+export default function pluginPrintEdition(context: LoadContext, options: PrintEditionOptions): Plugin {
+  const {siteDir, siteConfig, i18n} = context;
+  const docsPluginId = options.docsPluginId ?? 'default';
+  // Kept across builds so Chrome only starts when a diagram changed.
+  const cacheFile = path.join(context.generatedFilesDir, 'print-edition', 'mermaid-cache.json');
+
+  // Mermaid needs a DOM, so diagrams are rendered to SVG in a headless browser
+  // when one is installed. Without one they render client-side as on any page.
+  async function prerenderDiagrams(diagrams: string[]): Promise<{[source: string]: string}> {
+    const cache = readCache(cacheFile);
+    const missing = [...new Set(diagrams)].filter((source) => !(source in cache));
+    if (missing.length) {
+      const browser = findBrowser();
+      if (!browser) {
+        logger.warn`Print edition: number=${missing.length} Mermaid diagrams render in the browser because no Chrome or Chromium was found. Set code=${'CHROME_PATH'} to print them as static SVG.`;
+      } else {
+        const mermaidConfig = siteConfig.themeConfig.mermaid as {theme?: {light?: string}} | undefined;
+        const {rendered, failed} = await withBrowser(browser, (instance) =>
+          renderDiagrams(instance, missing, mermaidConfig?.theme?.light ?? 'default'),
+        );
+        if (failed.length) {
+          const types = failed.map((source) => source.trim().split(/\s/)[0]);
+          logger.warn`Print edition: number=${failed.length} Mermaid diagrams failed to render and are left to the browser: code=${types.join(', ')}`;
+        }
+        Object.assign(cache, rendered);
+      }
+    }
+    const svgs = Object.fromEntries(
+      diagrams.filter((source) => source in cache).map((source) => [source, cache[source]!]),
+    );
+    if (missing.length) {
+      // Drops the diagrams that were edited or removed since the last build.
+      writeCache(cacheFile, svgs);
+    }
+    return svgs;
+  }
+
+  return {
+    name: 'print-edition',
+
+    async allContentLoaded({allContent, actions}) {
+      const docs = allContent['docusaurus-plugin-content-docs']?.[docsPluginId] as LoadedContent | undefined;
+      // The edition prints the docs being edited; released versions are frozen snapshots.
+      const current = docs?.loadedVersions.find((version) => version.versionName === 'current');
+      if (!current) {
+        throw new Error(`Print edition: no docs plugin instance with id "${docsPluginId}"`);
+      }
+      const outline = buildOutline(current, context.baseUrl);
+      const sources = outline.flatMap((item) =>
+        item.type === 'doc' ? [current.docs.find((doc) => doc.id === item.id)!.source] : [],
+      );
+      const diagrams = sources.flatMap((source) =>
+        extractDiagrams(fs.readFileSync(path.resolve(siteDir, aliasedSitePathToRelativePath(source)), 'utf8')),
+      );
+
+      const data: PrintEditionData = {
+        title: options.title,
+        generatedOn: new Date().toISOString().slice(0, 10),
+        outline,
+        diagrams: await prerenderDiagrams(diagrams),
+      };
+      actions.addRoute({
+        path: normalizeUrl([context.baseUrl, options.routePath]),
+        component: '@site/src/components/PrintEdition/index.tsx',
+        exact: true,
+        modules: {
+          data: await actions.createData('print-edition.json', data),
+          // Compiled by the docs plugin's MDX loader, exactly as on the doc pages.
+          docs: sources.map((source) => ({content: source})),
+        },
+      });
+    },
+
+    extendCli(cli) {
+      cli
+        .command('print:pdf [locale]')
+        .description('Save the print edition of an existing build as a PDF, using a local Chrome or Chromium.')
+        .option('--out-dir <dir>', 'build output directory, relative to the site directory', 'build')
+        .option('--output <file>', 'PDF file to write, relative to the site directory', 'noony-docs.pdf')
+        .action(async (locale: string | undefined, {outDir, output}: {outDir: string; output: string}) => {
+          const target = locale ?? i18n.defaultLocale;
+          const isDefault = target === i18n.defaultLocale;
+          const dir = path.resolve(siteDir, outDir, isDefault ? '' : target);
+          const route = normalizeUrl(['/', options.routePath]);
+          if (!resolveBuildFile(dir, route)) {
+            logger.error`No print edition found in path=${dir}. Run code=${`npm run build -- --locale ${target}`} first.`;
+            process.exit(1);
+          }
+          const browser = findBrowser();
+          if (!browser) {
+            logger.error`No Chrome or Chromium found. Install one, or set code=${'CHROME_PATH'} to its executable.`;
+            process.exit(1);
+          }
+
+          const baseUrl = isDefault ? siteConfig.baseUrl : normalizeUrl([siteConfig.baseUrl, target, '/']);
+          const file = path.resolve(siteDir, output);
+          const server = await serveBuild(dir, baseUrl);
+          try {
+            await withBrowser(browser, async (instance) => {
+              const page = await instance.newPage();
+              // The whole docs site in one page takes a while to lay out and print.
+              page.setDefaultTimeout(PRINT_TIMEOUT);
+              await page.goto(server.origin + normalizeUrl([baseUrl, route]), {waitUntil: 'networkidle0'});
+              await page.pdf({
+                timeout: PRINT_TIMEOUT,
+                path: file,
+                format: 'A4',
+                margin: {top: '18mm', right: '16mm', bottom: '18mm', left: '16mm'},
+                printBackground: true,
+                displayHeaderFooter: true,
+                headerTemplate: '<span></span>',
+                footerTemplate:
+                  '<div style="width: 100%; font-size: 8px; text-align: center;"><span class="pageNumber"></span> / <span class="totalPages"></span></div>',
+              });
+            });
+          } finally {
+            await server.close();
+          }
+          logger.success`Saved the print edition to path=${file}.`;
+        });
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+import {simpleHash} from '@docusaurus/utils';
+import type {Browser} from 'puppeteer-core';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+interface MermaidApi {
+  initialize(config: {startOnLoad: boolean; theme: string}): void;
+  render(id: string, text: string): Promise<{svg: string}>;
+}
+
+/** Sources of the ```mermaid code blocks of a Markdown file, as the MDX loader passes them to `<Mermaid>`. */
+export function extractDiagrams(markdown: string): string[] {
+  return [...markdown.matchAll(/^(`{3,}|~{3,})mermaid[^\n]*\n([\s\S]*?)\n\1[ \t]*$/gm)].map((match) => match[2]!);
+}
+
+/**
+ * Renders diagrams to SVG in a headless browser page, with the same Mermaid
+ * build the site uses. Diagrams that fail to render are left out and keep
+ * rendering client-side, where the error is shown in place.
+ */
+export async function renderDiagrams(
+  browser: Browser,
+  diagrams: string[],
+  theme: string,
+): Promise<{rendered: {[source: string]: string}; failed: string[]}> {
+  const page = await browser.newPage();
+  try {
+    await page.setContent('<!DOCTYPE html><html><body></body></html>');
+    await page.addScriptTag({path: path.join(path.dirname(require.resolve('mermaid')), 'mermaid.min.js')});
+    const results = await page.evaluate(
+      async (sources: string[], ids: string[], mermaidTheme: string) => {
+        const {mermaid} = window as unknown as {mermaid: MermaidApi};
+        mermaid.initialize({startOnLoad: false, theme: mermaidTheme});
+        const svgs: (string | null)[] = [];
+        for (const [index, source] of sources.entries()) {
+          try {
+            svgs.push((await mermaid.render(ids[index]!, source)).svg);
+          } catch {
+            svgs.push(null);
+          }
+        }
+        return svgs;
+      },
+      diagrams,
+      // Stable across builds, so cached SVGs never share an id.
+      diagrams.map((source) => `mermaid-${simpleHash(source, 8)}`),
+      theme,
+    );
+    const rendered: {[source: string]: string} = {};
+    const failed: string[] = [];
+    diagrams.forEach((source, index) => {
+      const svg = results[index];
+      if (svg) {
+        rendered[source] = svg;
+      } else {
+        failed.push(source);
+      }
+    });
+    return {rendered, failed};
+  } finally {
+    await page.close();
+  }
+}
+
+export function readCache(file: string): {[source: string]: string} {
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+}
+
+export function writeCache(file: string, cache: {[source: string]: string}): void {
+  fs.mkdirSync(path.dirname(file), {recursive: true});
+  fs.writeFileSync(file, JSON.stringify(cache));
+}
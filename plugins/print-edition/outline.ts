@@ -0,0 +1,51 @@
+import type {LoadedVersion} from '@docusaurus/plugin-content-docs';
+import {docAnchor} from '../../src/components/PrintEdition/links';
+import type {PrintDoc, PrintOutlineItem} from '../../src/components/PrintEdition/types';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+type SidebarItem = LoadedVersion['sidebars'][string][number];
+
+function slug(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Flattens the sidebars of a docs version into print order: each category
+ * becomes a part heading followed by its index doc and its items. Links, HTML
+ * items and docs that are in no sidebar have nothing to print and are skipped;
+ * a doc listed twice is only printed the first time.
+ */
+export function buildOutline(version: LoadedVersion, baseUrl: string): PrintOutlineItem[] {
+  const docs = new Map(version.docs.map((doc) => [doc.id, doc]));
+  const printed = new Set<string>();
+
+  const printDoc = (id: string, depth: number): PrintDoc[] => {
+    const doc = docs.get(id);
+    if (!doc || printed.has(id)) {
+      return [];
+    }
+    printed.add(id);
+    return [
+      {type: 'doc', id, title: doc.title, permalink: doc.permalink, anchor: docAnchor(doc.permalink, baseUrl), depth},
+    ];
+  };
+
+  const visit = (items: SidebarItem[], parent: string, depth: number): PrintOutlineItem[] =>
+    items.flatMap((item): PrintOutlineItem[] => {
+      if (item.type === 'doc' || item.type === 'ref') {
+        return printDoc(item.id, depth);
+      }
+      if (item.type === 'category') {
+        const anchor = `${parent}-${slug(item.label)}`;
+        return [
+          {type: 'part', label: item.label, anchor, depth},
+          ...(item.link?.type === 'doc' ? printDoc(item.link.id, depth + 1) : []),
+          ...visit(item.items, anchor, depth + 1),
+        ];
+      }
+      return [];
+    });
+
+  return Object.values(version.sidebars).flatMap((sidebar) => visit(sidebar, 'part', 0));
+}
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import type {AddressInfo} from 'net';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+const CONTENT_TYPES: {[extension: string]: string} = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+/** File of a built route, whether it was emitted as `page.html` or `page/index.html`. */
+export function resolveBuildFile(dir: string, route: string): string | undefined {
+  const file = path.resolve(dir, `.${route}`);
+  if (file !== dir && !file.startsWith(dir + path.sep)) {
+    return undefined;
+  }
+  return [file, `${file}.html`, path.join(file, 'index.html')].find(
+    (candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile(),
+  );
+}
+
+/** Serves a build directory under its base URL on a free local port, as GitHub Pages would. */
+export async function serveBuild(dir: string, baseUrl: string): Promise<{origin: string; close: () => Promise<void>}> {
+  const server = http.createServer((req, res) => {
+    let route: string;
+    try {
+      route = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+      // Malformed percent-encoding (or host, for `//` URLs) in the request
+      res.writeHead(400).end();
+      return;
+    }
+    const file = route.startsWith(baseUrl) ? resolveBuildFile(dir, `/${route.slice(baseUrl.length)}`) : undefined;
+    if (!file) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, {'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream'});
+    fs.createReadStream(file).pipe(res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const {port} = server.address() as AddressInfo;
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
@@ -0,0 +1,88 @@
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export type ChangeGroup = 'breaking' | 'features' | 'fixes' | 'other';
+
+export interface ChangeEntry {
+  /** Markdown text of the entry, without the list marker and commit prefix. */
+  text: string;
+  /** Commit hash Changesets puts in front of the entry (`- 1a2b3c4: ...`). */
+  commit?: string;
+}
+
+export interface Release {
+  packageName: string;
+  version: string;
+  /** `YYYY-MM-DD`, from a `## <version> (<date>)` heading; Changesets headings have none. */
+  date?: string;
+  changes: Record<ChangeGroup, ChangeEntry[]>;
+}
+
+export const CHANGE_GROUPS: ChangeGroup[] = ['breaking', 'features', 'fixes', 'other'];
+
+// Changesets headings first, then the Keep a Changelog / conventional-changelog ones.
+const GROUP_HEADINGS: [RegExp, ChangeGroup][] = [
+  [/major|breaking/i, 'breaking'],
+  [/minor|feature|added/i, 'features'],
+  [/patch|fix/i, 'fixes'],
+];
+
+// `## 2.1.0`, `## 2.1.0 (2025-09-12)`, `## [2.1.0] - 2025-09-12`
+const VERSION_HEADING = /^##\s+\[?v?(\d+\.\d+\.\d+[\w.+-]*)\]?(?:\s*[-–(]\s*(\d{4}-\d{2}-\d{2})\)?)?\s*$/;
+const COMMIT_PREFIX = /^([0-9a-f]{7,40}):\s*/;
+
+function groupOf(heading: string): ChangeGroup {
+  return GROUP_HEADINGS.find(([pattern]) => pattern.test(heading))?.[1] ?? 'other';
+}
+
+function emptyChanges(): Record<ChangeGroup, ChangeEntry[]> {
+  return {breaking: [], features: [], fixes: [], other: []};
+}
+
+/**
+ * Parses a `CHANGELOG.md` as written by Changesets (`## <version>` with
+ * `### Major/Minor/Patch Changes` lists) into one release per version.
+ * "Updated dependencies" entries are dropped.
+ *
+ * @param fallbackName Package name to use when the file has no `# <name>` title.
+ */
+export function parseChangelog(source: string, fallbackName: string): Release[] {
+  const packageName = /^#\s+(.+)$/m.exec(source)?.[1].trim() ?? fallbackName;
+  const releases: Release[] = [];
+  let release: Release | undefined;
+  let group: ChangeGroup = 'other';
+  let entry: string[] | undefined;
+
+  const flush = () => {
+    if (!release || !entry) {
+      return;
+    }
+    const text = entry.join('\n').trim();
+    const commit = COMMIT_PREFIX.exec(text)?.[1];
+    if (!/^(?:[0-9a-f]{7,40}:\s*)?Updated dependencies/.test(text)) {
+      release.changes[group].push({text: text.replace(COMMIT_PREFIX, ''), ...(commit && {commit})});
+    }
+    entry = undefined;
+  };
+
+  for (const line of source.split('\n')) {
+    const version = VERSION_HEADING.exec(line);
+    if (version) {
+      flush();
+      release = {packageName, version: version[1], date: version[2], changes: emptyChanges()};
+      releases.push(release);
+      group = 'other';
+    } else if (/^###\s/.test(line)) {
+      flush();
+      group = groupOf(line);
+    } else if (/^[-*]\s/.test(line)) {
+      flush();
+      entry = [line.slice(2)];
+    } else if (entry && (line.startsWith('  ') || line.trim() === '')) {
+      entry.push(line.slice(2));
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return releases;
+}
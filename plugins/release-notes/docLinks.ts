@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import {posixPath} from '@docusaurus/utils';
+import {extractDocSymbols} from '../symbol-index/extract';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface DocLink {
+  title: string;
+  /** Site path without the baseUrl, e.g. `/docs/middlewares/BodyValidationMiddleware-Guide`. */
+  url: string;
+}
+
+interface NameLinks {
+  /** Pages named after the symbol, e.g. `BodyParserMiddleware-Guide.md`. */
+  pages: DocLink[];
+  /** Headings that document the symbol, e.g. ``### `RouteGuards.requireAuth()` ``. */
+  headings: DocLink[];
+}
+
+export type DocIndex = Map<string, NameLinks>;
+
+/** `Handler<T, U>` and `RouteGuards.requireAuth()` compare on their bare, lower-cased name. */
+function normalizeName(name: string): string {
+  return name
+    .replace(/<.*$/, '')
+    .replace(/\(\)$/, '')
+    .toLowerCase();
+}
+
+function collectDocFiles(dir: string): string[] {
+  return fs.readdirSync(dir, {withFileTypes: true}).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.name.startsWith('_')) {
+      return [];
+    }
+    if (entry.isDirectory()) {
+      return collectDocFiles(full);
+    }
+    return /\.mdx?$/.test(entry.name) ? [full] : [];
+  });
+}
+
+function docTitle(source: string, fallback: string): string {
+  const frontMatterTitle = /^---\n[\s\S]*?^title:\s*(.+?)\s*$[\s\S]*?^---$/m.exec(source)?.[1];
+  const heading = /^#\s+(.+)$/m.exec(source)?.[1];
+  return (frontMatterTitle ?? heading ?? fallback).replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/** Indexes the docs by the symbols they are named after or document. */
+export function buildDocIndex(docsDir: string, routeBasePath: string): DocIndex {
+  const index: DocIndex = new Map();
+  const links = (name: string) => {
+    const key = normalizeName(name);
+    const existing = index.get(key) ?? {pages: [], headings: []};
+    index.set(key, existing);
+    return existing;
+  };
+
+  for (const file of collectDocFiles(docsDir)) {
+    const source = fs.readFileSync(file, 'utf8');
+    if (!source.trim()) {
+      continue;
+    }
+    const relative = posixPath(path.relative(docsDir, file)).replace(/\.mdx?$/, '');
+    const stem = path.basename(relative);
+    const url = `/${routeBasePath}/${relative.replace(/(^|\/)index$/, '')}`.replace(/\/$/, '');
+    const title = docTitle(source, stem);
+
+    const symbolName = stem.replace(/-Guide$/i, '');
+    if (/^[A-Za-z]+$/.test(symbolName)) {
+      links(symbolName).pages.push({title, url});
+    }
+    for (const symbol of extractDocSymbols(source).filter((entry) => entry.kind === 'heading')) {
+      links(symbol.name).headings.push({title, url: `${url}#${symbol.anchor}`});
+    }
+  }
+  return index;
+}
+
+/**
+ * Docs affected by a changelog entry: the symbols it names in code spans
+ * (or bare `*Middleware` class names) resolved to the page named after them,
+ * or else to the headings that document them. Keeps one link per page.
+ */
+export function findAffectedDocs(text: string, index: DocIndex): DocLink[] {
+  const names = [
+    ...[...text.matchAll(/`([^`]+)`/g)].map((match) => match[1]),
+    ...(text.replace(/`[^`]*`/g, '').match(/\b[A-Z]\w*Middleware\b/g) ?? []),
+  ];
+  const found = new Map<string, DocLink>();
+  for (const name of names) {
+    const links = index.get(normalizeName(name));
+    for (const link of links ? (links.pages.length ? links.pages : links.headings) : []) {
+      const page = link.url.replace(/#.*$/, '');
+      if (!found.has(page)) {
+        found.set(page, link);
+      }
+    }
+  }
+  return [...found.values()];
+}
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import pluginContentBlog, {
+  validateOptions as validateBlogOptions,
+  type BlogContent,
+  type Options as BlogOptions,
+  type PluginOptions as BlogPluginOptions,
+} from '@docusaurus/plugin-content-blog';
+import type {LoadContext, OptionValidationContext, Plugin} from '@docusaurus/types';
+import {normalizeUrl} from '@docusaurus/utils';
+import {normalizePluginOptions} from '@docusaurus/utils-validation';
+import {parseChangelog, type Release} from './changelog';
+import {buildDocIndex} from './docLinks';
+import {writeReleasePosts} from './posts';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface ReleaseNotesOptions {
+  /** Directory searched for per-package `CHANGELOG.md` files, relative to the site directory. */
+  changelogsDir: string;
+  /**
+   * Options of the blog instance that serves the posts. Its `path` is where
+   * they are written, so it must be git-ignored. Its `routeBasePath` serves a
+   * "no releases yet" page until a changelog is added.
+   */
+  blog: BlogOptions;
+  /** Docs that release entries link to, see `findAffectedDocs`. */
+  docs: {path: string; routeBasePath: string};
+  /** Repository the changelog commit hashes belong to, for commit links. */
+  repositoryUrl?: string;
+}
+
+function findChangelogs(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, {withFileTypes: true}).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name === 'node_modules' ? [] : findChangelogs(full);
+    }
+    return entry.name === 'CHANGELOG.md' ? [full] : [];
+  });
+}
+
+function loadReleases(siteDir: string, changelogsDir: string): Release[] {
+  const files = findChangelogs(changelogsDir);
+  if (!files.length) {
+    logger.warn`Release notes: no CHANGELOG.md files found under path=${changelogsDir}`;
+  }
+  return files.flatMap((file) => {
+    const releases = parseChangelog(fs.readFileSync(file, 'utf8'), path.basename(path.dirname(file)));
+    for (const release of releases.filter((undated) => !undated.date)) {
+      logger.warn`Release notes: no release date for name=${release.version} in path=${path.relative(siteDir, file)}; it is dated when its post is first generated. Write the heading as code=${'## 2.1.0 (YYYY-MM-DD)'} to date it.`;
+    }
+    return releases;
+  });
+}
+
+/**
+ * A blog plugin instance whose posts are generated from the changelogs: they
+ * are written in `loadContent`, just before the blog plugin reads them, so
+ * loading the config has no side effects and `npm start` picks up changelog
+ * edits.
+ */
+export default async function pluginReleaseNotes(
+  context: LoadContext,
+  options: ReleaseNotesOptions,
+): Promise<Plugin<BlogContent>> {
+  const changelogsDir = path.resolve(context.siteDir, options.changelogsDir);
+  // What Docusaurus would do for a blog instance declared in the config.
+  const blogOptions = validateBlogOptions({
+    validate: normalizePluginOptions as OptionValidationContext<BlogOptions, BlogPluginOptions>['validate'],
+    options: options.blog,
+  });
+  const blog = await pluginContentBlog(context, blogOptions);
+  let hasReleases = false;
+
+  return {
+    ...blog,
+
+    async loadContent() {
+      const releases = loadReleases(context.siteDir, changelogsDir);
+      hasReleases = releases.length > 0;
+      writeReleasePosts(releases, path.resolve(context.siteDir, blogOptions.path), {
+        docIndex: buildDocIndex(path.resolve(context.siteDir, options.docs.path), options.docs.routeBasePath),
+        repositoryUrl: options.repositoryUrl,
+      });
+      return blog.loadContent!();
+    },
+
+    async contentLoaded(args) {
+      await blog.contentLoaded!(args);
+      // The blog instance creates no routes without posts, which would break
+      // the links to the release notes.
+      if (!hasReleases) {
+        args.actions.addRoute({
+          path: normalizeUrl([context.baseUrl, blogOptions.routeBasePath]),
+          component: '@site/src/components/ReleaseNotesEmpty/index.tsx',
+          exact: true,
+        });
+      }
+    },
+
+    getPathsToWatch() {
+      return [...blog.getPathsToWatch!(), path.join(changelogsDir, '**/CHANGELOG.md')];
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import {escapeMdx} from '../api-reference/markdown';
+import {CHANGE_GROUPS, type ChangeEntry, type ChangeGroup, type Release} from './changelog';
+import {findAffectedDocs, type DocIndex} from './docLinks';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+/** Written into the output directory so we never wipe a folder we didn't generate. */
+const MARKER_FILE = '.generated-release-notes';
+
+const GROUP_TITLES: Record<ChangeGroup, string> = {
+  breaking: '⚠️ Breaking changes',
+  features: '✨ Features',
+  fixes: '🐛 Fixes',
+  other: 'Other changes',
+};
+
+export interface PostOptions {
+  docIndex: DocIndex;
+  /** Repository the changelog commits belong to, e.g. `https://github.com/noony-serverless/noony-core`. */
+  repositoryUrl?: string;
+}
+
+/** `@noony-serverless/core` → `core`; also the tag key of the package. */
+export function packageTag(packageName: string): string {
+  return packageName.split('/').pop()!.replace(/[^\w-]/g, '-');
+}
+
+function postSlug(release: Release): string {
+  return `${packageTag(release.packageName)}-${release.version.replace(/\./g, '-')}`;
+}
+
+const SUMMARY_NOUNS: Partial<Record<ChangeGroup, [string, string]>> = {
+  breaking: ['breaking change', 'breaking changes'],
+  features: ['new feature', 'new features'],
+  fixes: ['fix', 'fixes'],
+};
+
+function summary(release: Release): string {
+  const counts = CHANGE_GROUPS.flatMap((group) => {
+    const count = release.changes[group].length;
+    const nouns = SUMMARY_NOUNS[group];
+    return nouns && count ? [`${count} ${nouns[count > 1 ? 1 : 0]}`] : [];
+  });
+  const contents = counts.length ? counts.join(', ').replace(/, ([^,]*)$/, ' and $1') : 'maintenance updates';
+  return `\`${release.packageName}\` ${release.version} ships ${contents}.`;
+}
+
+function renderEntry(entry: ChangeEntry, options: PostOptions): string[] {
+  const [first, ...rest] = escapeMdx(entry.text).split('\n');
+  const commit =
+    entry.commit && options.repositoryUrl
+      ? ` ([${entry.commit.slice(0, 7)}](${options.repositoryUrl}/commit/${entry.commit}))`
+      : '';
+  const lines = [`- ${first}${commit}`, ...rest.map((line) => (line ? `  ${line}` : ''))];
+  const docs = findAffectedDocs(entry.text, options.docIndex);
+  if (docs.length) {
+    lines.push(`  <br />📖 ${docs.map((doc) => `[${escapeMdx(doc.title)}](${doc.url})`).join(' · ')}`);
+  }
+  return lines;
+}
+
+function renderPost(release: Release, options: PostOptions): string {
+  const tag = packageTag(release.packageName);
+  const lines = [
+    '---',
+    `title: '${release.packageName} ${release.version}'`,
+    `slug: ${postSlug(release)}`,
+    // Without a date, the blog uses the time the post file was created
+    ...(release.date ? [`date: ${release.date}`] : []),
+    `tags: [${tag}]`,
+    `description: '${summary(release).replace(/`/g, '').replace(/'/g, "''")}'`,
+    '---',
+    '',
+    summary(release),
+    '',
+    '<!-- truncate -->',
+    '',
+  ];
+  for (const group of CHANGE_GROUPS) {
+    const entries = release.changes[group];
+    if (entries.length) {
+      lines.push(`## ${GROUP_TITLES[group]}`, '');
+      entries.forEach((entry) => lines.push(...renderEntry(entry, options)));
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+}
+
+function renderTags(packageNames: string[]): string {
+  return packageNames
+    .map((name) =>
+      [
+        `${packageTag(name)}:`,
+        `  label: '${name}'`,
+        `  permalink: /${packageTag(name)}`,
+        `  description: 'Releases of ${name}'`,
+      ].join('\n'),
+    )
+    .join('\n\n');
+}
+
+/**
+ * Regenerates the posts (and their `tags.yml`) read by the release notes blog
+ * instance. Only changed files are written, so `npm start` doesn't reload for
+ * nothing and undated posts keep the time they were first written.
+ */
+export function writeReleasePosts(releases: Release[], outputDir: string, options: PostOptions): void {
+  const packageNames = [...new Set(releases.map((release) => release.packageName))];
+  const files = new Map<string, string>([
+    [MARKER_FILE, ''],
+    ['tags.yml', packageNames.length ? `${renderTags(packageNames)}\n` : '{}\n'],
+  ]);
+  for (const release of releases) {
+    const fileName = release.date ? `${release.date}-${postSlug(release)}.md` : `${postSlug(release)}.md`;
+    files.set(fileName, renderPost(release, options));
+  }
+
+  const existing = fs.existsSync(outputDir) ? fs.readdirSync(outputDir) : [];
+  if (existing.length && !existing.includes(MARKER_FILE)) {
+    throw new Error(`Refusing to overwrite ${outputDir}: it was not generated by the release-notes plugin.`);
+  }
+  for (const file of existing.filter((file) => !files.has(file))) {
+    fs.rmSync(path.join(outputDir, file), {recursive: true});
+  }
+  fs.mkdirSync(outputDir, {recursive: true});
+  for (const [file, content] of files) {
+    const target = path.join(outputDir, file);
+    if (!fs.existsSync(target) || fs.readFileSync(target, 'utf8') !== content) {
+      fs.writeFileSync(target, content);
+    }
+  }
+}
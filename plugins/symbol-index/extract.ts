@@ -0,0 +1,149 @@
+import {createSlugger, parseMarkdownHeadingId} from '@docusaurus/utils';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface DocSymbol {
+  name: string;
+  kind: 'heading' | 'member';
+  signature?: string;
+  /** Heading id, as generated by Docusaurus for the rendered page. */
+  anchor: string;
+}
+
+export interface Heading {
+  line: number;
+  /** 1 to 6. */
+  depth: number;
+  text: string;
+  anchor: string;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w-]*)/;
+const CODE_SPAN = /`([^`]+)`/g;
+/** `RouteGuards.configure()`, `Handler<T, U>`, `bodyParser<T>()`, `businessData` */
+const SYMBOL = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*(<[^>]*>)?(\(\))?$/;
+const DECLARATION = /^(?:export\s+)?(?:declare\s+)?(?:abstract\s+)?(?:class|interface)\s+([A-Za-z_$][\w$]*)/;
+const MEMBER = /^(?:(?:readonly|static|public|protected|async)\s+)*([A-Za-z_$][\w$]*)\??\s*(<[^(]*>)?\s*([(:])/;
+const SIGNATURE_LANGUAGES = ['typescript', 'ts'];
+
+function isClosingFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length >= fence.length && /^(`+|~+)$/.test(trimmed) && trimmed[0] === fence[0];
+}
+
+/** Heading text as it renders, which is what Docusaurus slugs. */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(CODE_SPAN, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*|\*/g, '');
+}
+
+/** `Handler<T, U>` -> `Handler`, `RouteGuards.configure()` -> `RouteGuards.configure` */
+function baseName(symbol: string): string {
+  return symbol.replace(/<[^>]*>/, '').replace(/\(\)$/, '');
+}
+
+function headingSymbol(text: string): string | undefined {
+  const spans = [...text.matchAll(CODE_SPAN)].map((match) => match[1].trim());
+  return spans.reverse().find((span) => SYMBOL.test(span));
+}
+
+/** Lists every heading outside code fences, with the id Docusaurus gives it. */
+export function readHeadings(lines: string[]): Heading[] {
+  const slugger = createSlugger();
+  const headings: Heading[] = [];
+  let fence: string | undefined;
+  lines.forEach((line, index) => {
+    if (fence) {
+      if (isClosingFence(line, fence)) {
+        fence = undefined;
+      }
+      return;
+    }
+    const open = FENCE.exec(line);
+    if (open) {
+      fence = open[1];
+      return;
+    }
+    const match = HEADING.exec(line);
+    if (match) {
+      const {text, id} = parseMarkdownHeadingId(match[2]);
+      headings.push({line: index, depth: match[1].length, text, anchor: id ?? slugger.slug(plainText(text))});
+    }
+  });
+  return headings;
+}
+
+/** Members at the top level of the first `class`/`interface` named `owner` in a code block. */
+function readMembers(code: string[], owner: string): {name: string; signature: string}[] {
+  const start = code.findIndex((line) => DECLARATION.exec(line.trim())?.[1] === owner);
+  if (start === -1) {
+    return [];
+  }
+  const members: {name: string; signature: string}[] = [];
+  let depth = 0;
+  for (const line of code.slice(start)) {
+    const trimmed = line.replace(/\/\/.*$/, '').trim();
+    const match = depth === 1 ? MEMBER.exec(trimmed) : null;
+    if (match) {
+      const signature = trimmed.replace(/[;,]$/, '');
+      members.push({
+        name: match[3] === '(' ? `${match[1]}()` : match[1],
+        signature: signature.endsWith('{') ? `${signature} … }` : signature,
+      });
+    }
+    depth += (trimmed.match(/{/g) ?? []).length - (trimmed.match(/}/g) ?? []).length;
+    if (depth <= 0 && trimmed.includes('}')) {
+      break;
+    }
+  }
+  return members;
+}
+
+/** First TypeScript code block between a heading and the next one. */
+function signatureBlock(lines: string[], from: number, to: number): string[] | undefined {
+  for (let i = from; i < to; i++) {
+    const open = FENCE.exec(lines[i]);
+    if (open) {
+      if (!SIGNATURE_LANGUAGES.includes(open[2])) {
+        return undefined;
+      }
+      const end = lines.findIndex((line, j) => j > i && isClosingFence(line, open[1]));
+      return lines.slice(i + 1, end === -1 ? to : end);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the symbols a Markdown/MDX doc defines: headings whose text is a code
+ * span naming a symbol, and the members of the signature block right below
+ * such a heading (so `Context.businessData` links to `### Context<T, U>`).
+ */
+export function extractDocSymbols(source: string): DocSymbol[] {
+  const lines = source.split('\n');
+  const headings = readHeadings(lines);
+  const symbols: DocSymbol[] = [];
+
+  headings.forEach((heading, index) => {
+    const name = headingSymbol(heading.text);
+    if (!name) {
+      return;
+    }
+    const code = signatureBlock(lines, heading.line + 1, headings[index + 1]?.line ?? lines.length);
+    const owner = baseName(name);
+    const declaration = code?.find((line) => DECLARATION.exec(line.trim())?.[1] === owner);
+    symbols.push({
+      name,
+      kind: 'heading',
+      signature: declaration?.trim().replace(/\s*{$/, ''),
+      anchor: heading.anchor,
+    });
+    for (const member of code ? readMembers(code, owner) : []) {
+      symbols.push({name: `${owner}.${member.name}`, kind: 'member', signature: member.signature, anchor: heading.anchor});
+    }
+  });
+  return symbols;
+}
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import type {LoadedContent, LoadedVersion} from '@docusaurus/plugin-content-docs';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import {aliasedSitePathToRelativePath, normalizeUrl} from '@docusaurus/utils';
+import {SYMBOL_INDEX_FILE, type SymbolEntry, type SymbolIndexData} from '../../src/components/SymbolPalette/types';
+import {loadApiModel} from '../api-reference/loadModel';
+import {symbolPath} from '../api-reference/markdown';
+import {extractDocSymbols} from './extract';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface SymbolIndexOptions {
+  /** Docs plugin instance whose versions are indexed. */
+  docsPluginId?: string;
+  /** Generated API reference to index as well (see `plugins/api-reference`). */
+  apiReference?: {
+    source: string;
+    routeBasePath: string;
+  };
+}
+
+function docSymbols(context: LoadContext, version: LoadedVersion): SymbolEntry[] {
+  return version.docs.flatMap((doc) => {
+    const file = path.resolve(context.siteDir, aliasedSitePathToRelativePath(doc.source));
+    const section = doc.id.includes('/') ? doc.id.split('/')[0] : 'docs';
+    return extractDocSymbols(fs.readFileSync(file, 'utf8')).map((symbol): SymbolEntry => ({
+      name: symbol.name,
+      kind: symbol.kind,
+      signature: symbol.signature,
+      page: doc.title,
+      section,
+      version: version.versionName,
+      url: `${doc.permalink}#${symbol.anchor}`,
+    }));
+  });
+}
+
+function apiSymbols(context: LoadContext, options: NonNullable<SymbolIndexOptions['apiReference']>): SymbolEntry[] {
+  // The api-reference plugin reports a missing source; the palette just has no API entries then.
+  const {symbols} = loadApiModel(path.resolve(context.siteDir, options.source));
+  const url = (name: string, member?: string) =>
+    normalizeUrl([context.baseUrl, symbolPath(options.routeBasePath, name, member)]);
+
+  return symbols.flatMap((symbol) => [
+    {
+      name: symbol.name,
+      kind: symbol.kind,
+      signature: symbol.signatures[0],
+      page: symbol.name,
+      section: 'api',
+      url: url(symbol.name),
+    },
+    ...symbol.members
+      .filter((member) => member.kind !== 'constructor')
+      .map((member): SymbolEntry => ({
+        name: `${symbol.name}.${member.name}${member.kind === 'method' ? '()' : ''}`,
+        kind: member.kind === 'method' ? 'method' : 'property',
+        signature: member.signatures[0],
+        page: symbol.name,
+        section: 'api',
+        url: url(symbol.name, member.name),
+      })),
+  ]);
+}
+
+/**
+ * Collects symbol definitions from the doc headings of every docs version and
+ * from the API reference, for the symbol palette
+ * (`src/components/SymbolPalette`). The index is written with `createData`
+ * rather than as global data: the palette loads it when first opened, so
+ * pages don't carry it.
+ */
+export default function pluginSymbolIndex(context: LoadContext, options: SymbolIndexOptions): Plugin {
+  return {
+    name: 'symbol-index',
+
+    async allContentLoaded({allContent, actions}) {
+      const docsPluginId = options.docsPluginId ?? 'default';
+      const docs = allContent['docusaurus-plugin-content-docs']?.[docsPluginId] as LoadedContent | undefined;
+      const versions = docs?.loadedVersions ?? [];
+      const symbols = [
+        ...versions.flatMap((version) => docSymbols(context, version)),
+        ...(options.apiReference ? apiSymbols(context, options.apiReference) : []),
+      ].sort((a, b) => a.name.localeCompare(b.name));
+      const data: SymbolIndexData = {
+        docsPluginId,
+        lastVersion: (versions.find((version) => version.isLast) ?? versions[0])?.versionName,
+        symbols,
+      };
+      await actions.createData(SYMBOL_INDEX_FILE, data);
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import {normalizeUrl} from '@docusaurus/utils';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {RadarConfig, TechRadarData} from '../../src/components/TechRadar/types';
+import {validateRadarConfig} from './schema';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface TechRadarOptions {
+  /** Current edition, relative to the site directory. */
+  configPath: string;
+  /** Directory holding past editions as `<date>.json`. */
+  historyDir: string;
+  /** Route of the radar page, relative to the base URL. */
+  routePath: string;
+}
+
+function readEdition(file: string): RadarConfig {
+  return validateRadarConfig(JSON.parse(fs.readFileSync(file, 'utf8')), file);
+}
+
+export default function pluginTechRadar(context: LoadContext, options: TechRadarOptions): Plugin<TechRadarData> {
+  const configPath = path.resolve(context.siteDir, options.configPath);
+  const historyDir = path.resolve(context.siteDir, options.historyDir);
+
+  return {
+    name: 'tech-radar',
+
+    getPathsToWatch() {
+      return [configPath, path.join(historyDir, '*.json')];
+    },
+
+    async loadContent() {
+      const current = readEdition(configPath);
+      const history = fs.existsSync(historyDir)
+        ? fs
+            .readdirSync(historyDir)
+            .filter((file) => file.endsWith('.json'))
+            .map((file) => readEdition(path.join(historyDir, file)))
+        : [];
+      const past = history.filter((edition) => edition.date !== current.date).sort((a, b) => b.date.localeCompare(a.date));
+      return {editions: [current, ...past]};
+    },
+
+    async contentLoaded({content, actions}) {
+      actions.addRoute({
+        path: normalizeUrl([context.baseUrl, options.routePath]),
+        component: '@site/src/components/TechRadar/index.tsx',
+        exact: true,
+        modules: {
+          data: await actions.createData('tech-radar.json', content),
+        },
+      });
+    },
+
+    extendCli(cli) {
+      cli
+        .command('radar:archive')
+        .description('Copy the current tech radar edition into the history directory before editing the next one.')
+        .action(() => {
+          const current = readEdition(configPath);
+          const target = path.join(historyDir, `${current.date}.json`);
+          if (fs.existsSync(target)) {
+            logger.error`Edition name=${current.date} is already archived at path=${target}`;
+            process.exit(1);
+          }
+          fs.mkdirSync(historyDir, {recursive: true});
+          fs.copyFileSync(configPath, target);
+          logger.success`Archived edition name=${current.date} to path=${target}. Update the date in path=${configPath} for the next edition.`;
+        });
+    },
+  };
+}
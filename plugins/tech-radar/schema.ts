@@ -0,0 +1,48 @@
+import {Joi} from '@docusaurus/utils-validation';
+import {MOVEMENTS, QUADRANT_IDS, RING_IDS, type RadarConfig} from '../../src/components/TechRadar/types';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+const percentage = Joi.number().min(0).max(100).required();
+
+const TechnologySchema = Joi.object({
+  id: Joi.number().integer().positive().required(),
+  name: Joi.string().required(),
+  status: Joi.string()
+    .valid(...RING_IDS)
+    .required(),
+  quadrant: Joi.string()
+    .valid(...QUADRANT_IDS)
+    .required(),
+  description: Joi.string().required(),
+  url: Joi.string().uri(),
+  movement: Joi.string()
+    .valid(...MOVEMENTS)
+    .required(),
+  position: Joi.object({x: percentage, y: percentage}).required(),
+});
+
+const RadarConfigSchema = Joi.object({
+  title: Joi.string().required(),
+  date: Joi.string()
+    .pattern(/^\d{4}\.\d{2}$/, 'YYYY.MM')
+    .required(),
+  quadrants: Joi.object(
+    Object.fromEntries(QUADRANT_IDS.map((id) => [id, Joi.object({name: Joi.string().required()}).required()])),
+  ).required(),
+  technologies: Joi.array()
+    .items(TechnologySchema)
+    .unique('id')
+    .messages({'array.unique': '{{#label}} reuses technology id {{#dupeValue.id}}'})
+    .required(),
+});
+
+/** Throws with every problem found in one radar edition. */
+export function validateRadarConfig(data: unknown, file: string): RadarConfig {
+  const {error, value} = RadarConfigSchema.validate(data, {abortEarly: false, convert: false});
+  if (error) {
+    const details = error.details.map((detail) => `  - ${detail.message}`).join('\n');
+    throw new Error(`Invalid tech radar edition ${file}:\n${details}`);
+  }
+  return value as RadarConfig;
+}
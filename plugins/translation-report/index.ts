@@ -0,0 +1,51 @@
+import logger from '@docusaurus/logger';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import {findUntranslatedDocs, type LocaleReport} from './report';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface TranslationReportOptions {
+  /** Docs directory of the default locale, relative to the site directory. */
+  docsPath: string;
+}
+
+function logReport({locale, versions}: LocaleReport): void {
+  for (const {version, total, untranslated} of versions) {
+    if (!untranslated.length) {
+      logger.success`Locale name=${locale} (version name=${version}): all number=${total} docs are translated.`;
+      continue;
+    }
+    logger.warn`Locale name=${locale} (version name=${version}): number=${untranslated.length} of number=${total} docs are untranslated:path=${untranslated}`;
+  }
+}
+
+export default function pluginTranslationReport(
+  context: LoadContext,
+  options: TranslationReportOptions,
+): Plugin {
+  const {defaultLocale, locales} = context.siteConfig.i18n;
+
+  return {
+    name: 'translation-report',
+
+    extendCli(cli) {
+      cli
+        .command('i18n:report [locale]')
+        .description('List the docs that have no translation yet, per locale and docs version.')
+        .action((locale?: string) => {
+          const targets = locale ? [locale] : locales.filter((name) => name !== defaultLocale);
+          for (const target of targets) {
+            logReport(findUntranslatedDocs(context.siteDir, options.docsPath, target));
+          }
+        });
+    },
+
+    // Each locale is built separately, so every build reports on its own locale.
+    async postBuild() {
+      const {currentLocale} = context.i18n;
+      if (currentLocale !== defaultLocale) {
+        logReport(findUntranslatedDocs(context.siteDir, options.docsPath, currentLocale));
+      }
+    },
+  };
+}
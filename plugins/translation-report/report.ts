@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface VersionReport {
+  /** `current` or a released version name from versions.json. */
+  version: string;
+  total: number;
+  /** Doc paths relative to the version's docs directory. */
+  untranslated: string[];
+}
+
+export interface LocaleReport {
+  locale: string;
+  versions: VersionReport[];
+}
+
+function listDocs(dir: string, base = dir): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir, {withFileTypes: true})
+    .flatMap((entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return listDocs(entryPath, base);
+      }
+      return /\.mdx?$/.test(entry.name) ? [path.relative(base, entryPath).split(path.sep).join('/')] : [];
+    })
+    .sort();
+}
+
+function readVersions(siteDir: string): string[] {
+  const versionsFile = path.join(siteDir, 'versions.json');
+  return fs.existsSync(versionsFile) ? JSON.parse(fs.readFileSync(versionsFile, 'utf8')) : [];
+}
+
+/**
+ * Compares every doc of every docs version with the locale's copy under
+ * `i18n/<locale>/docusaurus-plugin-content-docs/`. Docs without one fall back
+ * to the default-locale text on the translated site.
+ */
+export function findUntranslatedDocs(siteDir: string, docsPath: string, locale: string): LocaleReport {
+  const translationsDir = path.join(siteDir, 'i18n', locale, 'docusaurus-plugin-content-docs');
+  const sources = [
+    {version: 'current', dir: path.resolve(siteDir, docsPath)},
+    ...readVersions(siteDir).map((version) => ({
+      version,
+      dir: path.join(siteDir, 'versioned_docs', `version-${version}`),
+    })),
+  ];
+  return {
+    locale,
+    versions: sources.map(({version, dir}) => {
+      const docs = listDocs(dir);
+      const translated = new Set(listDocs(path.join(translationsDir, version === 'current' ? 'current' : `version-${version}`)));
+      return {version, total: docs.length, untranslated: docs.filter((doc) => !translated.has(doc))};
+    }),
+  };
+}
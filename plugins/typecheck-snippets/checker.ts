@@ -0,0 +1,113 @@
+import path from 'path';
+import ts from 'typescript';
+import type {Snippet} from './snippets';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export interface CheckerOptions {
+  siteDir: string;
+  /** Absolute path to the pinned `@noony-serverless/core` declaration bundle. */
+  declarations: string;
+  /** Module specifiers that resolve to the declaration bundle. */
+  modules: string[];
+  /**
+   * Third-party modules snippets may import. Installed ones are checked against
+   * their real types; the rest are declared as untyped so snippets still compile.
+   */
+  externalModules: string[];
+}
+
+export interface SnippetError {
+  file: string;
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+const SNIPPET_ROOT = '__snippets__';
+
+function snippetFileName(siteDir: string, index: number): string {
+  return path.join(siteDir, SNIPPET_ROOT, `snippet-${index}.ts`);
+}
+
+/**
+ * Type-checks every snippet as its own module in a single TypeScript program.
+ * Snippets are virtual files, so nothing is written to disk.
+ */
+export function checkSnippets(snippets: Snippet[], options: CheckerOptions): SnippetError[] {
+  const compilerOptions: ts.CompilerOptions = {
+    noEmit: true,
+    strict: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+    types: [],
+    skipLibCheck: true,
+    baseUrl: options.siteDir,
+    paths: Object.fromEntries(options.modules.map((name) => [name, [options.declarations]])),
+  };
+
+  const virtualFiles = new Map<string, {source: string; snippet?: Snippet}>();
+  snippets.forEach((snippet, index) => {
+    // Source files keep their own path, so relative imports between the files of one example resolve.
+    const fileName = /\.ts$/.test(snippet.file)
+      ? path.join(options.siteDir, snippet.file)
+      : snippetFileName(options.siteDir, index);
+    // Trailing export keeps each snippet in its own module scope without shifting lines.
+    virtualFiles.set(fileName, {
+      source: `${snippet.code}\nexport {};\n`,
+      snippet,
+    });
+  });
+  const externalsFile = path.join(options.siteDir, SNIPPET_ROOT, 'externals.d.ts');
+  // An exact `declare module` would shadow installed typings, so only declare what doesn't resolve.
+  const untypedModules = options.externalModules.filter(
+    (name) =>
+      name.includes('*') || !ts.resolveModuleName(name, externalsFile, compilerOptions, ts.sys).resolvedModule,
+  );
+  virtualFiles.set(externalsFile, {
+    source: untypedModules.map((name) => `declare module '${name}';`).join('\n'),
+  });
+
+  const host = ts.createCompilerHost(compilerOptions);
+  const {getSourceFile, fileExists, readFile} = host;
+  host.fileExists = (fileName) => virtualFiles.has(fileName) || fileExists(fileName);
+  host.readFile = (fileName) => virtualFiles.get(fileName)?.source ?? readFile(fileName);
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const virtual = virtualFiles.get(fileName);
+    return virtual
+      ? ts.createSourceFile(fileName, virtual.source, languageVersion, true)
+      : getSourceFile(fileName, languageVersion, ...rest);
+  };
+
+  const program = ts.createProgram([...virtualFiles.keys()], compilerOptions, host);
+  const diagnostics = [
+    ...program.getOptionsDiagnostics(),
+    ...program.getSyntacticDiagnostics(),
+    ...program.getSemanticDiagnostics(),
+  ];
+
+  return diagnostics.flatMap((diagnostic): SnippetError[] => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (!diagnostic.file || diagnostic.start === undefined) {
+      return [{file: '(compiler options)', line: 0, column: 0, code: diagnostic.code, message}];
+    }
+    const snippet = virtualFiles.get(diagnostic.file.fileName)?.snippet;
+    if (!snippet) {
+      // Errors inside the declaration bundle itself are not the docs' concern.
+      return [];
+    }
+    const {line, character} = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return [
+      {
+        file: snippet.file,
+        line: snippet.line + line,
+        column: character + 1,
+        code: diagnostic.code,
+        message,
+      },
+    ];
+  });
+}
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import {checkSnippets, type SnippetError} from './checker';
+import {collectMarkdownFiles, collectSourceSnippets, extractSnippets, isCheckedSnippet} from './snippets';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+export {default as remarkSnippetSetup} from './remark';
+
+export interface TypecheckSnippetsOptions {
+  /** Docs directory to scan, relative to the site directory. */
+  docsPath: string;
+  /** Directories of standalone `.ts` snippet files, relative to the site directory. */
+  sourceDirs?: string[];
+  /** Pinned `@noony-serverless/core` declaration bundle, relative to the site directory. */
+  declarations: string;
+  /** Module specifiers that resolve to the declaration bundle. */
+  modules?: string[];
+  /** Third-party modules that snippets may import without type information. */
+  externalModules?: string[];
+}
+
+// `@/*` covers snippets that import from the framework's own source layout.
+const DEFAULT_MODULES = ['@noony-serverless/core', '@/*'];
+
+function formatErrors(errors: SnippetError[]): string {
+  return errors
+    .map((error) => `  ${error.file}:${error.line}:${error.column} - TS${error.code}: ${error.message}`)
+    .join('\n');
+}
+
+/**
+ * Returns the errors found, or `null` when the check was skipped because the
+ * declaration bundle is missing.
+ */
+function runCheck(siteDir: string, options: TypecheckSnippetsOptions): SnippetError[] | null {
+  const declarations = path.resolve(siteDir, options.declarations);
+  if (!fs.existsSync(declarations)) {
+    logger.warn`Snippet type-check skipped: no @noony-serverless/core declaration bundle at path=${declarations}`;
+    return null;
+  }
+
+  const snippets = collectMarkdownFiles(path.resolve(siteDir, options.docsPath))
+    .flatMap((file) => extractSnippets(fs.readFileSync(file, 'utf8'), path.relative(siteDir, file)))
+    .filter((snippet) => isCheckedSnippet(snippet.lang, snippet.meta))
+    .concat((options.sourceDirs ?? []).flatMap((dir) => collectSourceSnippets(path.resolve(siteDir, dir), siteDir)));
+
+  const errors = checkSnippets(snippets, {
+    siteDir,
+    declarations,
+    modules: options.modules ?? DEFAULT_MODULES,
+    externalModules: options.externalModules ?? [],
+  });
+  logger.info`Type-checked number=${snippets.length} snippets against path=${path.relative(siteDir, declarations)}`;
+  return errors;
+}
+
+export default function pluginTypecheckSnippets(
+  context: LoadContext,
+  options: TypecheckSnippetsOptions,
+): Plugin {
+  return {
+    name: 'typecheck-snippets',
+
+    extendCli(cli) {
+      cli
+        .command('check-snippets')
+        .description('Type-check every TypeScript snippet in the docs and snippet directories against the pinned @noony-serverless/core types.')
+        .action(() => {
+          const errors = runCheck(context.siteDir, options);
+          if (errors?.length) {
+            logger.error(`Found ${errors.length} snippet type errors:\n${formatErrors(errors)}`);
+            process.exit(1);
+          }
+        });
+    },
+
+    async postBuild() {
+      const errors = runCheck(context.siteDir, options);
+      if (errors?.length) {
+        throw new Error(
+          `Found ${errors.length} TypeScript snippets that no longer compile against @noony-serverless/core:\n${formatErrors(errors)}\n` +
+            'Fix the snippet, add hidden setup lines above a "// ---cut---" marker, or opt out with ```typescript nocheck.',
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import type {Root} from 'mdast';
+import {visit} from 'unist-util-visit';
+import {CHECKED_LANGUAGES, stripSetupLines} from './snippets';
+
+/**
+ * Removes the hidden setup lines (everything above `// ---cut---`) from
+ * TypeScript code blocks, so pages only render the part of the snippet that
+ * matters while the type-checker still sees the whole thing.
+ */
+export default function remarkSnippetSetup() {
+  return (tree: Root) => {
+    visit(tree, 'code', (node) => {
+      if (node.lang && CHECKED_LANGUAGES.includes(node.lang)) {
+        node.value = stripSetupLines(node.value);
+      }
+    });
+  };
+}
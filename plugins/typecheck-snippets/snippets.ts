@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+/** Languages whose fenced code blocks are type-checked. */
+export const CHECKED_LANGUAGES = ['typescript', 'ts'];
+
+/** Meta flag that opts a single code block out of type-checking. */
+export const NOCHECK_FLAG = 'nocheck';
+
+/**
+ * Marker line for partial snippets: everything above it is setup code that is
+ * type-checked but hidden from the rendered page.
+ */
+export const CUT_MARKER = '// ---cut---';
+
+export interface Snippet {
+  /** Markdown or source file the snippet was found in, relative to the site directory. */
+  file: string;
+  /** 1-based line of the first code line (the line after the opening fence). */
+  line: number;
+  lang: string;
+  meta: string;
+  /** Full code, including hidden setup lines. */
+  code: string;
+}
+
+const FENCE_OPEN = /^(\s*)(`{3,}|~{3,})\s*([\w-]*)\s*(.*)$/;
+
+export function isCheckedSnippet(lang: string | null | undefined, meta: string | null | undefined): boolean {
+  if (!lang || !CHECKED_LANGUAGES.includes(lang)) {
+    return false;
+  }
+  return !(meta ?? '').split(/\s+/).includes(NOCHECK_FLAG);
+}
+
+/** Returns the code as it should be rendered, without hidden setup lines. */
+export function stripSetupLines(code: string): string {
+  const lines = code.split('\n');
+  const cut = lines.findIndex((line) => line.trim() === CUT_MARKER);
+  return cut === -1 ? code : lines.slice(cut + 1).join('\n');
+}
+
+/** Extracts every fenced code block from a Markdown/MDX source. */
+export function extractSnippets(source: string, file: string): Snippet[] {
+  const lines = source.split('\n');
+  const snippets: Snippet[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = FENCE_OPEN.exec(lines[i]);
+    if (!open) {
+      continue;
+    }
+    const [, indent, fence, lang, meta] = open;
+    const body: string[] = [];
+    let j = i + 1;
+    for (; j < lines.length; j++) {
+      const trimmed = lines[j].trim();
+      if (trimmed.startsWith(fence) && /^(`+|~+)$/.test(trimmed)) {
+        break;
+      }
+      body.push(lines[j].startsWith(indent) ? lines[j].slice(indent.length) : lines[j].trimStart());
+    }
+    snippets.push({file, line: i + 2, lang, meta: meta.trim(), code: body.join('\n')});
+    i = j;
+  }
+
+  return snippets;
+}
+
+/** Recursively collects Markdown and MDX files under a directory. */
+export function collectMarkdownFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir, {withFileTypes: true})
+    .flatMap((entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return collectMarkdownFiles(entryPath);
+      }
+      return /\.mdx?$/.test(entry.name) ? [entryPath] : [];
+    })
+    .sort();
+}
+
+/**
+ * Reads standalone `.ts` snippet files (e.g. the homepage quick-start) as one
+ * snippet each, so they are checked exactly like fenced blocks in the docs.
+ */
+export function collectSourceSnippets(dir: string, siteDir: string): Snippet[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir, {withFileTypes: true})
+    .flatMap((entry): Snippet[] => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return collectSourceSnippets(entryPath, siteDir);
+      }
+      if (!/\.ts$/.test(entry.name) || entry.name.endsWith('.d.ts')) {
+        return [];
+      }
+      const code = fs.readFileSync(entryPath, 'utf8');
+      return [{file: path.relative(siteDir, entryPath), line: 1, lang: 'typescript', meta: '', code}];
+    })
+    .sort((a, b) => a.file.localeCompare(b.file));
+}
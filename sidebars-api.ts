@@ -0,0 +1,14 @@
+import type {SidebarsConfig} from '@docusaurus/plugin-content-docs';
+
+// This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
+
+/**
+ * Sidebar of the generated API reference (`api` docs plugin instance).
+ * Pages are grouped into classes, interfaces and functions by the
+ * api-reference plugin, so the folder structure is all we need.
+ */
+const sidebars: SidebarsConfig = {
+  apiSidebar: [{type: 'autogenerated', dirName: '.'}],
+};
+
+export default sidebars;
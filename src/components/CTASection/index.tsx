@@ -1,6 +1,7 @@
 import type {ReactNode} from 'react';
 import clsx from 'clsx';
 import Link from '@docusaurus/Link';
+import Translate from '@docusaurus/Translate';
 import styles from './styles.module.css';
 
 export default function CTASection(): ReactNode {
@@ -10,28 +11,48 @@ export default function CTASection(): ReactNode {
         <div className={styles.ctaContent}>
           <div className={styles.ctaText}>
             <h2 className={styles.ctaTitle}>
-              Ready to revolutionize your <span className="text-gradient">serverless development</span>?
+              <Translate
+                id="homepage.cta.title"
+                values={{
+                  topic: (
+                    <span className="text-gradient">
+                      <Translate id="homepage.cta.title.topic">serverless development</Translate>
+                    </span>
+                  ),
+                }}>
+                {'Ready to revolutionize your {topic}?'}
+              </Translate>
             </h2>
             <p className={styles.ctaSubtitle}>
-              Join thousands of developers who have already made the switch to CloudFlow Functions. 
-              Get started with our free tier and experience the future of cloud computing.
+              <Translate id="homepage.cta.subtitle">
+                Join thousands of developers who have already made the switch to CloudFlow Functions. Get started
+                with our free tier and experience the future of cloud computing.
+              </Translate>
             </p>
             <div className={styles.ctaFeatures}>
               <div className={styles.ctaFeature}>
                 <span className={styles.ctaFeatureIcon}>✅</span>
-                <span>Free tier with 1M requests/month</span>
+                <span>
+                  <Translate id="homepage.cta.feature.freeTier">Free tier with 1M requests/month</Translate>
+                </span>
               </div>
               <div className={styles.ctaFeature}>
                 <span className={styles.ctaFeatureIcon}>✅</span>
-                <span>No credit card required</span>
+                <span>
+                  <Translate id="homepage.cta.feature.noCard">No credit card required</Translate>
+                </span>
               </div>
               <div className={styles.ctaFeature}>
                 <span className={styles.ctaFeatureIcon}>✅</span>
-                <span>Deploy in under 2 minutes</span>
+                <span>
+                  <Translate id="homepage.cta.feature.deploy">Deploy in under 2 minutes</Translate>
+                </span>
               </div>
               <div className={styles.ctaFeature}>
                 <span className={styles.ctaFeatureIcon}>✅</span>
-                <span>24/7 expert support</span>
+                <span>
+                  <Translate id="homepage.cta.feature.support">24/7 expert support</Translate>
+                </span>
               </div>
             </div>
           </div>
@@ -39,22 +60,22 @@ export default function CTASection(): ReactNode {
             <Link
               className={clsx('button button--primary button--lg', styles.ctaPrimaryButton)}
               to="/docs/intro">
-              🚀 Start Building Now
+              🚀 <Translate id="homepage.cta.startBuilding">Start Building Now</Translate>
             </Link>
             <Link
               className={clsx('button button--outline button--lg', styles.ctaSecondaryButton)}
               to="/docs/examples">
-              � Explore Examples
+              📖 <Translate id="homepage.cta.exploreExamples">Explore Examples</Translate>
             </Link>
             <div className={styles.ctaTrust}>
               <span className={styles.trustBadge}>
-                🔒 SOC 2 Certified
+                🔒 <Translate id="homepage.cta.badge.soc2">SOC 2 Certified</Translate>
               </span>
               <span className={styles.trustBadge}>
-                🌍 99.99% Uptime
+                🌍 <Translate id="homepage.cta.badge.uptime">99.99% Uptime</Translate>
               </span>
               <span className={styles.trustBadge}>
-                ⚡ Sub-50ms Cold Starts
+                ⚡ <Translate id="homepage.cta.badge.coldStarts">Sub-50ms Cold Starts</Translate>
               </span>
             </div>
           </div>
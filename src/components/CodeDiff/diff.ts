@@ -0,0 +1,94 @@
+/**
+ * Line diff of two snippets, from their longest common subsequence. Doc
+ * snippets are a few dozen lines, so the quadratic table is cheap; the common
+ * head and tail are skipped first anyway.
+ */
+
+export type DiffLineKind = 'unchanged' | 'removed' | 'added';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  /** Index of the line in the before snippet (unchanged and removed lines). */
+  before?: number;
+  /** Index of the line in the after snippet (unchanged and added lines). */
+  after?: number;
+}
+
+/** One row of the side-by-side view; a removed line is paired with the added line that replaced it. */
+export interface SplitRow {
+  before?: DiffLine;
+  after?: DiffLine;
+}
+
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  let head = 0;
+  while (head < before.length && head < after.length && before[head] === after[head]) {
+    head += 1;
+  }
+  let tail = 0;
+  while (
+    tail < before.length - head &&
+    tail < after.length - head &&
+    before[before.length - 1 - tail] === after[after.length - 1 - tail]
+  ) {
+    tail += 1;
+  }
+
+  const a = before.slice(head, before.length - tail);
+  const b = after.slice(head, after.length - tail);
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({length: a.length + 1}, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  for (let k = 0; k < head; k += 1) {
+    lines.push({kind: 'unchanged', before: k, after: k});
+  }
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({kind: 'unchanged', before: head + i, after: head + j});
+      i += 1;
+      j += 1;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removals first, as in `git diff`
+      lines.push({kind: 'removed', before: head + i});
+      i += 1;
+    } else {
+      lines.push({kind: 'added', after: head + j});
+      j += 1;
+    }
+  }
+  for (let k = 0; k < tail; k += 1) {
+    lines.push({kind: 'unchanged', before: before.length - tail + k, after: after.length - tail + k});
+  }
+  return lines;
+}
+
+export function splitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].kind === 'unchanged') {
+      rows.push({before: lines[index], after: lines[index]});
+      index += 1;
+      continue;
+    }
+    // A run of changes: removed and added lines side by side
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].kind !== 'unchanged') {
+      (lines[index].kind === 'removed' ? removed : added).push(lines[index]);
+      index += 1;
+    }
+    for (let row = 0; row < Math.max(removed.length, added.length); row += 1) {
+      rows.push({before: removed[row], after: added[row]});
+    }
+  }
+  return rows;
+}
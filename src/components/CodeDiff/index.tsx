@@ -0,0 +1,146 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import {Highlight, type Token, type TokenInputProps, type TokenOutputProps} from 'prism-react-renderer';
+import {usePrismTheme} from '@docusaurus/theme-common';
+import {readCodeBlocks} from '../CodeFiles/blocks';
+import {diffLines, splitRows, type DiffLine} from './diff';
+import styles from './styles.module.css';
+
+export type DiffView = 'unified' | 'split';
+
+export interface CodeDiffProps {
+  /** Two fenced code blocks: the old code, then the new one. A `title="..."` on either labels its side. */
+  children: ReactNode;
+  /** `unified` lists removed and added lines in one column; `split` puts before and after side by side. */
+  view?: DiffView;
+}
+
+type GetTokenProps = (input: TokenInputProps) => TokenOutputProps;
+
+const MARKERS: Record<DiffLine['kind'], string> = {
+  unchanged: ' ',
+  removed: '-',
+  added: '+',
+};
+
+interface LineCodeProps {
+  tokens: Token[];
+  getTokenProps: GetTokenProps;
+  /** Colors the cell itself; the unified view colors whole rows instead. */
+  kind?: DiffLine['kind'];
+}
+
+function LineCode({tokens, getTokenProps, kind}: LineCodeProps) {
+  return (
+    <td className={clsx(styles.code, kind && styles[kind])}>
+      {tokens.map((token, index) => (
+        <span key={index} {...getTokenProps({token})} />
+      ))}
+    </td>
+  );
+}
+
+function LineNumber({index, kind}: {index?: number; kind?: DiffLine['kind']}) {
+  return <td className={clsx(styles.number, kind && styles[kind])}>{index === undefined ? '' : index + 1}</td>;
+}
+
+/**
+ * Before/after view of a code change with Prism highlighting. Each version is
+ * highlighted as a whole, so multi-line comments and strings keep their colors.
+ * Anything other than two code blocks throws, which fails the build.
+ */
+export default function CodeDiff({children, view: initialView = 'unified'}: CodeDiffProps): ReactNode {
+  const blocks = readCodeBlocks(children);
+  if (blocks.length !== 2) {
+    throw new Error(`<CodeDiff> needs two code blocks, the old code then the new one; found ${blocks.length}`);
+  }
+  const [before, after] = blocks;
+  const language = after.language ?? before.language ?? 'text';
+  const prismTheme = usePrismTheme();
+  const [view, setView] = React.useState<DiffView>(initialView);
+
+  const lines = React.useMemo(
+    () => diffLines(before.code.split('\n'), after.code.split('\n')),
+    [before.code, after.code],
+  );
+  const added = lines.filter((line) => line.kind === 'added').length;
+  const removed = lines.filter((line) => line.kind === 'removed').length;
+
+  return (
+    <div className={styles.diff}>
+      <div className={styles.header}>
+        <span className={styles.titles}>
+          <span className={styles.removedTitle}>{before.title ?? 'Before'}</span>
+          <span aria-hidden="true">→</span>
+          <span className={styles.addedTitle}>{after.title ?? 'After'}</span>
+        </span>
+        <span className={styles.stats}>
+          <span className={styles.addedCount}>+{added}</span> <span className={styles.removedCount}>-{removed}</span>
+        </span>
+        <div className={styles.viewSwitch} role="radiogroup" aria-label="Diff view">
+          {(['unified', 'split'] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={view === value}
+              className={clsx('button button--sm', view === value ? 'button--primary' : 'button--secondary')}
+              onClick={() => setView(value)}>
+              {value === 'unified' ? 'Unified' : 'Split'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <Highlight theme={prismTheme} code={before.code} language={language}>
+        {(old) => (
+          <Highlight theme={prismTheme} code={after.code} language={language}>
+            {(next) => (
+              <div className={clsx(next.className, styles.body)} style={next.style}>
+                <table className={clsx(styles.table, view === 'split' && styles.split)}>
+                  <tbody>
+                    {view === 'unified'
+                      ? lines.map((line, index) => (
+                          <tr key={index} className={styles[line.kind]}>
+                            <LineNumber index={line.before} />
+                            <LineNumber index={line.after} />
+                            <td className={styles.marker}>{MARKERS[line.kind]}</td>
+                            {line.after !== undefined ? (
+                              <LineCode tokens={next.tokens[line.after]} getTokenProps={next.getTokenProps} />
+                            ) : (
+                              <LineCode tokens={old.tokens[line.before!]} getTokenProps={old.getTokenProps} />
+                            )}
+                          </tr>
+                        ))
+                      : splitRows(lines).map((row, index) => (
+                          <tr key={index}>
+                            {[row.before, row.after].map((line, side) => {
+                              const lineIndex = side === 0 ? line?.before : line?.after;
+                              const source = side === 0 ? old : next;
+                              return line && lineIndex !== undefined ? (
+                                <React.Fragment key={side}>
+                                  <LineNumber index={lineIndex} kind={line.kind} />
+                                  <td className={clsx(styles.marker, styles[line.kind])}>{MARKERS[line.kind]}</td>
+                                  <LineCode
+                                    tokens={source.tokens[lineIndex]}
+                                    getTokenProps={source.getTokenProps}
+                                    kind={line.kind}
+                                  />
+                                </React.Fragment>
+                              ) : (
+                                <td key={side} colSpan={3} className={styles.empty} />
+                              );
+                            })}
+                          </tr>
+                        ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Highlight>
+        )}
+      </Highlight>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+
+/**
+ * Reads the fenced code blocks written as children of an MDX component. MDX
+ * turns each fence into `<pre><code className="language-x" metastring="...">`,
+ * which is where the language, the code and the meta (`title="..."`) come from.
+ */
+
+export interface CodeBlockSource {
+  code: string;
+  language?: string;
+  /** Everything after the language on the fence line. */
+  metastring: string;
+  title?: string;
+}
+
+interface CodeElementProps {
+  children?: unknown;
+  className?: string;
+  metastring?: string;
+}
+
+const TITLE = /title=(["'])(.*?)\1/;
+
+function codeProps(node: ReactNode): CodeElementProps | undefined {
+  if (!React.isValidElement<CodeElementProps>(node)) {
+    return undefined;
+  }
+  if (typeof node.props.children === 'string') {
+    return node.props;
+  }
+  // The `pre` wrapper
+  return React.isValidElement<CodeElementProps>(node.props.children) ? codeProps(node.props.children) : undefined;
+}
+
+export function readCodeBlocks(children: ReactNode): CodeBlockSource[] {
+  return React.Children.toArray(children).flatMap((child) => {
+    const props = codeProps(child);
+    if (!props) {
+      return [];
+    }
+    const metastring = props.metastring ?? '';
+    return [
+      {
+        code: (props.children as string).replace(/\n$/, ''),
+        language: props.className?.match(/language-(\S+)/)?.[1],
+        metastring,
+        title: metastring.match(TITLE)?.[2],
+      },
+    ];
+  });
+}
@@ -0,0 +1,69 @@
+/**
+ * Highlight groups of `<CodeFiles>`: named sets of line ranges that can span
+ * several files, written as `path:lines`, e.g. `src/auth/guards.ts:12-20` or
+ * `src/handlers/user.ts:4,9-11`. Lines are 1-based, as in the rendered block.
+ */
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/** Highlighted ranges of one group, by file path. */
+export type GroupHighlights = Map<string, LineRange[]>;
+
+// The same `{1,3-4}` syntax the fence meta uses for its own highlights
+const LINE_RANGES = /\{([\d,-]+)\}/;
+
+function parseRanges(text: string): LineRange[] | undefined {
+  const ranges = text.split(',').map((part) => {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part.trim());
+    return match ? {start: Number(match[1]), end: Number(match[2] ?? match[1])} : undefined;
+  });
+  return ranges.every((range) => range && range.start >= 1 && range.start <= range.end)
+    ? (ranges as LineRange[])
+    : undefined;
+}
+
+/**
+ * Resolves each group's references against the files, keyed by path with
+ * their line count. Throws on an unknown file or a range outside it, so a
+ * stale reference fails the build instead of highlighting nothing.
+ */
+export function resolveHighlights(
+  groups: Record<string, string[]>,
+  files: Map<string, number>,
+): Map<string, GroupHighlights> {
+  return new Map(
+    Object.entries(groups).map(([name, refs]) => {
+      const highlights: GroupHighlights = new Map();
+      for (const ref of refs) {
+        const colon = ref.lastIndexOf(':');
+        const file = colon === -1 ? ref : ref.slice(0, colon);
+        const lineCount = files.get(file);
+        if (lineCount === undefined) {
+          throw new Error(`<CodeFiles> highlight "${name}" refers to "${ref}", but there is no file "${file}"`);
+        }
+        const ranges = colon === -1 ? [{start: 1, end: lineCount}] : parseRanges(ref.slice(colon + 1));
+        if (!ranges || ranges.some((range) => range.end > lineCount)) {
+          throw new Error(
+            `<CodeFiles> highlight "${name}" has invalid lines in "${ref}"; "${file}" has ${lineCount} lines`,
+          );
+        }
+        highlights.set(file, [...(highlights.get(file) ?? []), ...ranges]);
+      }
+      return [name, highlights];
+    }),
+  );
+}
+
+/** Adds ranges to the `{...}` line highlights of a fence meta string, keeping the ones it already has. */
+export function withHighlights(metastring: string, ranges: LineRange[]): string {
+  if (!ranges.length) {
+    return metastring;
+  }
+  const own = LINE_RANGES.exec(metastring)?.[1];
+  const added = ranges.map((range) => (range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`));
+  const lines = `{${[own, ...added].filter(Boolean).join(',')}}`;
+  return own ? metastring.replace(LINE_RANGES, lines) : `${metastring} ${lines}`.trim();
+}
@@ -0,0 +1,144 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import CodeBlock from '@theme/CodeBlock';
+import {readCodeBlocks} from './blocks';
+import {resolveHighlights, withHighlights} from './highlights';
+import {buildFileTree, type FileTreeNode} from './tree';
+import styles from './styles.module.css';
+
+export interface CodeFilesProps {
+  /** One fenced code block per file, each with a `title="path/to/file.ts"`. */
+  children: ReactNode;
+  /**
+   * Named groups of lines to highlight across files, e.g.
+   * `{'Token verification': ['src/auth/guards.ts:17-30', 'src/handlers/user.ts:6']}`.
+   * A bare path highlights the whole file.
+   */
+  highlights?: Record<string, string[]>;
+  /** Path of the file shown first; defaults to the first code block. */
+  defaultFile?: string;
+}
+
+interface FileTreeProps {
+  nodes: FileTreeNode[];
+  active: string;
+  /** Files with lines in the selected highlight group. */
+  marked?: Set<string>;
+  onSelect: (path: string) => void;
+}
+
+function FileTree({nodes, active, marked, onSelect}: FileTreeProps) {
+  return (
+    <ul className={styles.tree}>
+      {nodes.map((node) => (
+        <li key={node.path ?? `${node.name}/`}>
+          {node.children ? (
+            <>
+              <span className={styles.folder}>{node.name}/</span>
+              <FileTree nodes={node.children} active={active} marked={marked} onSelect={onSelect} />
+            </>
+          ) : (
+            <button
+              type="button"
+              className={clsx(styles.file, node.path === active && styles.activeFile)}
+              aria-current={node.path === active ? 'true' : undefined}
+              onClick={() => onSelect(node.path!)}>
+              {node.name}
+              {marked?.has(node.path!) && <span className={styles.mark} role="img" aria-label="highlighted" />}
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Several files of one setup (a handler, its guard config, the DI container)
+ * shown together: a file tree to switch between them, and highlight groups
+ * that mark related lines in every file at once. A code block without a file
+ * name, or a highlight pointing at a missing file or line, throws while
+ * rendering so the build fails.
+ */
+export default function CodeFiles({children, highlights = {}, defaultFile}: CodeFilesProps): ReactNode {
+  const files = readCodeBlocks(children);
+  if (!files.length) {
+    throw new Error('<CodeFiles> needs at least one code block');
+  }
+  const paths = files.map((file, index) => {
+    if (!file.title) {
+      throw new Error(`<CodeFiles> code block ${index + 1} has no title="path" naming its file`);
+    }
+    return file.title;
+  });
+  const duplicate = paths.find((path, index) => paths.indexOf(path) !== index);
+  if (duplicate) {
+    throw new Error(`<CodeFiles> has two code blocks titled "${duplicate}"`);
+  }
+  if (defaultFile !== undefined && !paths.includes(defaultFile)) {
+    throw new Error(`<CodeFiles> defaultFile "${defaultFile}" is not one of its files: ${paths.join(', ')}`);
+  }
+
+  const groups = resolveHighlights(highlights, new Map(files.map((file) => [file.title!, file.code.split('\n').length])));
+  const tree = buildFileTree(paths);
+  const [active, setActive] = React.useState(defaultFile ?? paths[0]);
+  const [group, setGroup] = React.useState<string>();
+
+  const groupFiles = group === undefined ? undefined : groups.get(group)!;
+  const file = files[paths.indexOf(active)];
+
+  const toggleGroup = (name: string) => {
+    if (name === group) {
+      setGroup(undefined);
+      return;
+    }
+    setGroup(name);
+    // Jump to the group's first file unless the open one is part of it
+    const touched = groups.get(name)!;
+    if (!touched.has(active)) {
+      setActive(paths.find((path) => touched.has(path)) ?? active);
+    }
+  };
+
+  return (
+    <div className={styles.files}>
+      {groups.size > 0 && (
+        <div className={styles.groups} role="group" aria-label="Highlight lines">
+          <span className={styles.groupsLabel}>Highlight</span>
+          {[...groups].map(([name, touched]) => (
+            <button
+              key={name}
+              type="button"
+              className={clsx(styles.chip, name === group && styles.activeChip)}
+              aria-pressed={name === group}
+              onClick={() => toggleGroup(name)}>
+              {name}
+              <span className={styles.count}>
+                {touched.size} {touched.size === 1 ? 'file' : 'files'}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+      <div className={styles.layout}>
+        <nav className={styles.sidebar} aria-label="Files">
+          <FileTree
+            nodes={tree}
+            active={active}
+            marked={groupFiles && new Set(groupFiles.keys())}
+            onSelect={setActive}
+          />
+        </nav>
+        <div className={styles.view}>
+          <CodeBlock
+            language={file.language}
+            metastring={withHighlights(file.metastring, groupFiles?.get(active) ?? [])}
+            showLineNumbers>
+            {file.code}
+          </CodeBlock>
+        </div>
+      </div>
+    </div>
+  );
+}
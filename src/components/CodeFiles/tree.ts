@@ -0,0 +1,29 @@
+/**
+ * File tree of `<CodeFiles>`, built from the file paths. Folders and files
+ * keep the order the code blocks were written in.
+ */
+
+export interface FileTreeNode {
+  name: string;
+  /** Full path of a file; folders have `children` instead. */
+  path?: string;
+  children?: FileTreeNode[];
+}
+
+export function buildFileTree(paths: string[]): FileTreeNode[] {
+  const root: FileTreeNode[] = [];
+  for (const path of paths) {
+    const parts = path.split('/');
+    let level = root;
+    for (const folder of parts.slice(0, -1)) {
+      let node = level.find((entry) => entry.children && entry.name === folder);
+      if (!node) {
+        node = {name: folder, children: []};
+        level.push(node);
+      }
+      level = node.children!;
+    }
+    level.push({name: parts[parts.length - 1], path});
+  }
+  return root;
+}
@@ -0,0 +1,86 @@
+import type {ReactNode} from 'react';
+import CodeBlock from '@theme/CodeBlock';
+import TabItem from '@theme/TabItem';
+import Tabs from '@theme/Tabs';
+// Snippet sources live in src/snippets so the snippet type-check covers them.
+import gcfSource from '!!raw-loader!@site/src/snippets/quickstart/gcf.ts';
+import expressSource from '!!raw-loader!@site/src/snippets/quickstart/express.ts';
+import fastifySource from '!!raw-loader!@site/src/snippets/quickstart/fastify.ts';
+import styles from './styles.module.css';
+
+interface Runtime {
+  value: string;
+  label: string;
+  file: string;
+  source: string;
+  packages: string[];
+  devPackages?: string[];
+}
+
+const CORE_PACKAGES = ['@noony-serverless/core', 'zod'];
+
+const RUNTIMES: Runtime[] = [
+  {
+    value: 'gcf',
+    label: 'Google Cloud Functions',
+    file: 'index.ts',
+    source: gcfSource,
+    packages: [...CORE_PACKAGES, '@google-cloud/functions-framework'],
+  },
+  {
+    value: 'express',
+    label: 'Express',
+    file: 'server.ts',
+    source: expressSource,
+    packages: [...CORE_PACKAGES, 'express'],
+    devPackages: ['@types/express'],
+  },
+  {
+    value: 'fastify',
+    label: 'Fastify',
+    file: 'server.ts',
+    source: fastifySource,
+    packages: [...CORE_PACKAGES, 'fastify'],
+  },
+];
+
+const PACKAGE_MANAGERS: {value: string; label: string; add: string; addDev: string}[] = [
+  {value: 'npm', label: 'npm', add: 'npm install', addDev: 'npm install --save-dev'},
+  {value: 'pnpm', label: 'pnpm', add: 'pnpm add', addDev: 'pnpm add -D'},
+  {value: 'yarn', label: 'Yarn', add: 'yarn add', addDev: 'yarn add --dev'},
+];
+
+function installCommand(runtime: Runtime, manager: (typeof PACKAGE_MANAGERS)[number]): string {
+  const lines = [`${manager.add} ${runtime.packages.join(' ')}`];
+  if (runtime.devPackages?.length) {
+    lines.push(`${manager.addDev} ${runtime.devPackages.join(' ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Homepage quick-start: the same Noony handler wired into each supported runtime.
+ * Tab choices sync with the `runtime` and `package-manager` tab groups used in the docs.
+ */
+export default function CodeShowcase(): ReactNode {
+  return (
+    <div className={styles.showcase}>
+      <Tabs groupId="runtime" className={styles.runtimeTabs}>
+        {RUNTIMES.map((runtime) => (
+          <TabItem key={runtime.value} value={runtime.value} label={runtime.label}>
+            <Tabs groupId="package-manager" className={styles.installTabs}>
+              {PACKAGE_MANAGERS.map((manager) => (
+                <TabItem key={manager.value} value={manager.value} label={manager.label}>
+                  <CodeBlock language="bash">{installCommand(runtime, manager)}</CodeBlock>
+                </TabItem>
+              ))}
+            </Tabs>
+            <CodeBlock language="typescript" title={runtime.file} showLineNumbers>
+              {runtime.source.trimEnd()}
+            </CodeBlock>
+          </TabItem>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
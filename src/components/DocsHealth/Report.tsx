@@ -0,0 +1,119 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import Link from '@docusaurus/Link';
+import type {DocHealthPage, DocHealthProblem, DocsHealthReportData} from './types';
+import styles from './styles.module.css';
+
+const ALL = 'all';
+
+const PROBLEM_LABELS: Record<DocHealthProblem, string> = {
+  'no-version': 'No noony_version',
+  'outdated-version': 'Older version',
+  'never-verified': 'Never verified',
+  'stale-review': 'Stale review',
+};
+
+export interface DocsHealthReportProps {
+  /** Loaded by the docs-health plugin for this route only. */
+  data: DocsHealthReportData;
+}
+
+function MissingChangelog({changelog}: {changelog: string}): ReactNode {
+  return (
+    <div className="alert alert--warning" role="alert">
+      Docs can't be verified yet: the current <code>@noony-serverless/core</code> release is read from{' '}
+      <code>{changelog}</code>, which doesn't exist. Add the package changelog to list the pages that need a review.
+    </div>
+  );
+}
+
+function PageList({pages}: {pages: DocHealthPage[]}): ReactNode {
+  const [filter, setFilter] = React.useState<DocHealthProblem | typeof ALL>(ALL);
+
+  const flagged = pages.filter((page) => page.problems.length);
+  const counts = (Object.keys(PROBLEM_LABELS) as DocHealthProblem[]).map((problem) => ({
+    problem,
+    count: flagged.filter((page) => page.problems.includes(problem)).length,
+  }));
+  const visible = filter === ALL ? flagged : flagged.filter((page) => page.problems.includes(filter));
+
+  return (
+    <>
+      <div className={styles.summary} role="group" aria-label="Filter by problem">
+        <button type="button" className={styles.filter} aria-pressed={filter === ALL} onClick={() => setFilter(ALL)}>
+          All flagged ({flagged.length} of {pages.length})
+        </button>
+        {counts.map(({problem, count}) => (
+          <button
+            key={problem}
+            type="button"
+            className={styles.filter}
+            aria-pressed={filter === problem}
+            disabled={!count}
+            onClick={() => setFilter(problem)}>
+            {PROBLEM_LABELS[problem]} ({count})
+          </button>
+        ))}
+      </div>
+
+      {visible.length ? (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Page</th>
+              <th>noony_version</th>
+              <th>verified_on</th>
+              <th>Needs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((page) => (
+              <tr key={page.permalink}>
+                <td>
+                  <Link to={page.permalink}>{page.title}</Link>
+                  <span className={styles.source}>{page.source.replace(/^@site\//, '')}</span>
+                </td>
+                <td>{page.noonyVersion ?? <span className={styles.missing}>—</span>}</td>
+                <td>{page.verifiedOn ?? <span className={styles.missing}>—</span>}</td>
+                <td>
+                  {page.problems.map((problem) => (
+                    <span key={problem} className={styles.problem}>
+                      {PROBLEM_LABELS[problem]}
+                    </span>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p>Every page is verified against the current release. 🎉</p>
+      )}
+    </>
+  );
+}
+
+export default function DocsHealthReport({
+  data: {currentVersion, maxAgeMonths, generatedOn, changelog, pages},
+}: DocsHealthReportProps): ReactNode {
+  return (
+    <Layout title="Docs Health" description="Docs pages that need to be verified against the current Noony release.">
+      <main className={clsx('container', styles.healthPage)}>
+        <header className={styles.header}>
+          <Heading as="h1">Docs Health</Heading>
+          <p>
+            Pages not verified against <code>@noony-serverless/core</code> {currentVersion ?? '(no changelog yet)'}, or
+            not reviewed in the last {maxAgeMonths} months, as of {generatedOn}. After checking a page, set{' '}
+            <code>noony_version</code> to the release you checked it against and <code>verified_on</code> to today in
+            its front matter.
+          </p>
+        </header>
+
+        {currentVersion ? <PageList pages={pages} /> : <MissingChangelog changelog={changelog} />}
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,69 @@
+import type {DocHealthProblem} from './types';
+
+/**
+ * Freshness rules for the `noony_version` / `verified_on` front matter,
+ * shared by the docs-health plugin and the doc header badge.
+ *
+ * A page applies to the current release when its `noony_version` has the
+ * same major and minor version: patch releases don't change documented
+ * behavior. Without a known current release, versions aren't compared.
+ * A review is stale once `verified_on` is more than `maxAgeMonths`
+ * months old.
+ */
+
+export interface DocFreshnessFields {
+  noonyVersion?: string;
+  verifiedOn?: string;
+}
+
+/**
+ * YAML turns `noony_version: 0.4` into a number and `verified_on: 2025-09-22`
+ * into a Date (an ISO string once serialized for the client).
+ */
+export function readFreshnessFields(frontMatter: {[key: string]: unknown}): DocFreshnessFields {
+  const version = frontMatter.noony_version;
+  const verified = frontMatter.verified_on;
+  const verifiedOn =
+    verified instanceof Date ? verified.toISOString() : typeof verified === 'string' ? verified : undefined;
+  return {
+    ...((typeof version === 'string' || typeof version === 'number') && {
+      noonyVersion: String(version).replace(/^v/, ''),
+    }),
+    ...(verifiedOn && /^\d{4}-\d{2}-\d{2}/.test(verifiedOn) && {verifiedOn: verifiedOn.slice(0, 10)}),
+  };
+}
+
+function majorMinor(version: string): string {
+  return version.split('.').slice(0, 2).join('.');
+}
+
+export function appliesToVersion(noonyVersion: string, currentVersion: string): boolean {
+  return majorMinor(noonyVersion) === majorMinor(currentVersion);
+}
+
+/** Whole months from `from` to `to`, both `YYYY-MM-DD`. */
+export function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth) - (toDay < fromDay ? 1 : 0);
+}
+
+export function freshnessProblems(
+  {noonyVersion, verifiedOn}: DocFreshnessFields,
+  currentVersion: string | undefined,
+  maxAgeMonths: number,
+  today: string,
+): DocHealthProblem[] {
+  const problems: DocHealthProblem[] = [];
+  if (!noonyVersion) {
+    problems.push('no-version');
+  } else if (currentVersion && !appliesToVersion(noonyVersion, currentVersion)) {
+    problems.push('outdated-version');
+  }
+  if (!verifiedOn) {
+    problems.push('never-verified');
+  } else if (monthsBetween(verifiedOn, today) > maxAgeMonths) {
+    problems.push('stale-review');
+  }
+  return problems;
+}
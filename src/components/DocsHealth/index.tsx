@@ -0,0 +1,81 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Link from '@docusaurus/Link';
+import Translate, {translate} from '@docusaurus/Translate';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import {usePluginData} from '@docusaurus/useGlobalData';
+import {appliesToVersion, monthsBetween, readFreshnessFields} from './freshness';
+import type {DocsHealthData} from './types';
+import styles from './styles.module.css';
+
+export interface DocVersionBadgeProps {
+  frontMatter: {[key: string]: unknown};
+}
+
+/** "Applies to" and "last verified" badges from the `noony_version` / `verified_on` front matter. */
+export default function DocVersionBadge({frontMatter}: DocVersionBadgeProps): ReactNode {
+  const {i18n} = useDocusaurusContext();
+  const health = usePluginData('docs-health') as DocsHealthData;
+  const {noonyVersion, verifiedOn} = readFreshnessFields(frontMatter);
+  if (!noonyVersion && !verifiedOn) {
+    return null;
+  }
+
+  const outdated =
+    noonyVersion !== undefined &&
+    health.currentVersion !== undefined &&
+    !appliesToVersion(noonyVersion, health.currentVersion);
+  // Compared with the build date rather than today, so the server render and hydration agree.
+  const stale = verifiedOn !== undefined && monthsBetween(verifiedOn, health.generatedOn) > health.maxAgeMonths;
+  const formatDate = (date: string) =>
+    new Intl.DateTimeFormat(i18n.currentLocale, {dateStyle: 'medium', timeZone: 'UTC'}).format(new Date(date));
+
+  return (
+    <div className={styles.badges}>
+      {noonyVersion && (
+        <span
+          className={clsx(styles.badge, outdated ? styles.warn : styles.ok)}
+          title={
+            outdated
+              ? translate(
+                  {
+                    id: 'docsHealth.badge.outdatedTitle',
+                    message: 'Written for {version}; the current release is {current}',
+                  },
+                  {version: noonyVersion, current: health.currentVersion},
+                )
+              : undefined
+          }>
+          <Translate id="docsHealth.badge.appliesTo" values={{version: <code>{noonyVersion}</code>}}>
+            {'Applies to @noony-serverless/core {version}'}
+          </Translate>
+        </span>
+      )}
+      {verifiedOn && (
+        <span
+          className={clsx(styles.badge, stale ? styles.warn : styles.ok)}
+          title={
+            stale
+              ? translate(
+                  {
+                    id: 'docsHealth.badge.staleTitle',
+                    message: 'Not reviewed in the last {months} months',
+                  },
+                  {months: health.maxAgeMonths},
+                )
+              : undefined
+          }>
+          <Translate id="docsHealth.badge.verifiedOn" values={{date: formatDate(verifiedOn)}}>
+            {'Last verified {date}'}
+          </Translate>
+        </span>
+      )}
+      {(outdated || stale) && (
+        <Link to={health.routePath} className={styles.report}>
+          <Translate id="docsHealth.badge.report">Docs health report</Translate>
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+export type DocHealthProblem = 'no-version' | 'outdated-version' | 'never-verified' | 'stale-review';
+
+export interface DocHealthPage {
+  title: string;
+  permalink: string;
+  /** Source file, e.g. `@site/noony-doc/advanced/opentelemetry-integration.md`. */
+  source: string;
+  /** `noony_version` front matter. */
+  noonyVersion?: string;
+  /** `verified_on` front matter, as `YYYY-MM-DD`. */
+  verifiedOn?: string;
+  problems: DocHealthProblem[];
+}
+
+/** Global data of the docs-health plugin, read by the badge on every doc page. */
+export interface DocsHealthData {
+  /** Newest `@noony-serverless/core` release in the changelog, when there is one. */
+  currentVersion?: string;
+  /** Reviews older than this are stale. */
+  maxAgeMonths: number;
+  /** Date the report was generated, as `YYYY-MM-DD`. */
+  generatedOn: string;
+  /** Route of the report page. */
+  routePath: string;
+}
+
+/** Data of the report page. */
+export interface DocsHealthReportData extends DocsHealthData {
+  /** Changelog the current release is read from, relative to the site directory. */
+  changelog: string;
+  /** Every listed doc; without a current release, none of them has problems. */
+  pages: DocHealthPage[];
+}
@@ -0,0 +1,95 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Link from '@docusaurus/Link';
+import CodeBlock from '@theme/CodeBlock';
+import {usePluginData} from '@docusaurus/useGlobalData';
+import {errorResponse, HIDDEN_MESSAGE, isInternal, responseHead, type ErrorMode} from './response';
+import type {ErrorCatalogData} from './types';
+import styles from './styles.module.css';
+
+export interface ErrorResponsePreviewProps {
+  /** Class name of a catalog entry, e.g. `ValidationError`. */
+  error: string;
+  /** Mode shown first. */
+  mode?: ErrorMode;
+  /** Message thrown instead of the catalog's example. */
+  message?: string;
+  details?: unknown;
+}
+
+const MODE_LABELS: Record<ErrorMode, string> = {
+  development: 'Development',
+  production: 'Production',
+};
+
+/**
+ * The HTTP response `ErrorHandlerMiddleware` sends for an error from the
+ * catalog: status line, headers and JSON body, with a switch between
+ * development and production.
+ */
+export default function ErrorResponsePreview({
+  error,
+  mode: initialMode = 'production',
+  message,
+  details,
+}: ErrorResponsePreviewProps): ReactNode {
+  const {routePath, errors} = usePluginData('error-catalog') as ErrorCatalogData;
+  const [mode, setMode] = React.useState<ErrorMode>(initialMode);
+  const definition = errors.find((candidate) => candidate.name === error);
+  if (!definition) {
+    throw new Error(
+      `<ErrorResponsePreview> error "${error}" is not in the error catalog; use one of ${errors.map((e) => e.name).join(', ')}`,
+    );
+  }
+  const example = message === undefined ? definition.example : {message, details};
+  const response = errorResponse(definition, mode, example);
+
+  let note: ReactNode;
+  if (mode === 'development') {
+    note = (
+      <>
+        In development the body also carries the <code>stack</code>.
+      </>
+    );
+  } else if (isInternal(definition)) {
+    note = (
+      <>
+        In production the original message is replaced with “{HIDDEN_MESSAGE}” and no stack is sent.
+      </>
+    );
+  } else {
+    note = 'In production the message and details are sent as thrown, without the stack.';
+  }
+
+  return (
+    <figure className={styles.preview}>
+      <div className={styles.previewHeader}>
+        <Link to={`${routePath}#${definition.id}`} className={styles.previewName}>
+          <code>{definition.name}</code>
+        </Link>
+        <span className={clsx(styles.status, response.status >= 500 ? styles.serverError : styles.clientError)}>
+          {response.status} {response.statusText}
+        </span>
+        <div className={styles.modeSwitch} role="radiogroup" aria-label="NODE_ENV">
+          {(Object.keys(MODE_LABELS) as ErrorMode[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={mode === value}
+              className={clsx('button button--sm', mode === value ? 'button--primary' : 'button--secondary')}
+              onClick={() => setMode(value)}>
+              {MODE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <pre className={styles.head}>{responseHead(response)}</pre>
+      <div className={styles.body}>
+        <CodeBlock language="json">{JSON.stringify(response.body, null, 2)}</CodeBlock>
+      </div>
+      <figcaption className={styles.note}>{note}</figcaption>
+    </figure>
+  );
+}
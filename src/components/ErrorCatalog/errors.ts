@@ -0,0 +1,138 @@
+import type {ErrorDefinition} from './types';
+
+/**
+ * The errors `ErrorHandlerMiddleware` turns into HTTP responses, listed on
+ * the /docs/errors page. `<ErrorResponsePreview error="…">` renders the
+ * response of an entry by its `name`.
+ */
+export const ERRORS: ErrorDefinition[] = [
+  {
+    name: 'ValidationError',
+    id: 'validation-error',
+    status: 400,
+    code: 'VALIDATION_ERROR',
+    signature: 'new ValidationError(message, details?)',
+    description:
+      'The request is malformed: the body is not valid JSON or base64, it fails the schema, or a required header or query parameter is missing.',
+    resolution:
+      'Fix the request. For schema failures, `details` lists each failing field with its `path` and `message`, so a client can show them next to its form fields.',
+    thrownBy: [
+      'BodyParserMiddleware',
+      'BodyValidationMiddleware',
+      'HeaderVariablesMiddleware',
+      'QueryParametersMiddleware',
+    ],
+    example: {
+      message: 'Validation error',
+      details: [
+        {path: 'email', message: 'Invalid email'},
+        {path: 'age', message: 'Number must be greater than or equal to 18'},
+      ],
+    },
+    doc: {
+      label: 'Body validation errors',
+      to: '/docs/middlewares/BodyValidationMiddleware-Guide#error-handling',
+    },
+  },
+  {
+    name: 'AuthenticationError',
+    id: 'authentication-error',
+    status: 401,
+    code: 'AUTHENTICATION_ERROR',
+    signature: "new AuthenticationError(message = 'Unauthorized')",
+    description:
+      'The request has no `Authorization: Bearer` header, or the token verifier rejected the token because it is invalid or expired.',
+    resolution: 'Send a valid token. A client should refresh the token or sign the user in again, then retry once.',
+    thrownBy: ['AuthenticationMiddleware', 'RouteGuards'],
+    example: {message: 'Missing or malformed Authorization header'},
+    doc: {label: 'Authentication', to: '/docs/authentication'},
+  },
+  {
+    name: 'SecurityError',
+    id: 'security-error',
+    status: 403,
+    code: 'SECURITY_ERROR',
+    signature: "new SecurityError(message = 'Forbidden')",
+    description:
+      'The caller is authenticated but not allowed to do this: a guard found missing permissions, or a handler rejected the request, e.g. for a bad webhook signature or another tenant’s data.',
+    resolution: 'Retrying won’t help: the user needs the permissions the route’s guard requires.',
+    thrownBy: ['RouteGuards'],
+    example: {message: 'Insufficient permissions'},
+    doc: {
+      label: 'Route guards',
+      to: '/docs/authentication/RouteGuards-Complete-Guide',
+    },
+  },
+  {
+    name: 'TimeoutError',
+    id: 'timeout-error',
+    status: 408,
+    signature: 'new TimeoutError(message)',
+    description: 'An operation took too long, e.g. a call to a slow dependency.',
+    resolution:
+      'Retry with backoff. If it keeps happening, raise the timeout or move the slow work to a Pub/Sub subscriber.',
+    thrownBy: [],
+    example: {message: 'Payment provider did not respond within 5000ms'},
+  },
+  {
+    name: 'TooLargeError',
+    id: 'too-large-error',
+    status: 413,
+    signature: 'new TooLargeError(message)',
+    description: 'The request body is larger than the limit `BodyParserMiddleware` accepts.',
+    resolution: 'Send a smaller body, e.g. upload files to Cloud Storage and pass their URL instead.',
+    thrownBy: ['BodyParserMiddleware'],
+    example: {message: 'Request body exceeds 1MB'},
+    doc: {
+      label: 'Body parser errors',
+      to: '/docs/middlewares/BodyParserMiddleware-Guide#error-handling',
+    },
+  },
+  {
+    name: 'BusinessError',
+    id: 'business-error',
+    status: 422,
+    customStatus: true,
+    description:
+      'A domain rule rejected a well-formed request, e.g. an order that is already shipped. The handler picks the status.',
+    resolution: 'Depends on the rule; the `message` is meant to be shown to the user.',
+    thrownBy: [],
+    example: {
+      message: 'Order ord_1001 has already shipped and can no longer be changed',
+    },
+    doc: {
+      label: 'Error system',
+      to: '/docs/advanced/components-reference#error-system',
+    },
+  },
+  {
+    name: 'HttpError',
+    id: 'http-error',
+    status: 409,
+    customStatus: true,
+    code: 'EMAIL_TAKEN',
+    customCode: true,
+    signature: 'new HttpError(status, message, code?, details?)',
+    description:
+      'The base class of every error above. Throw it directly for a status none of them covers, such as 409 or 429.',
+    resolution: 'Pass a `code` so clients can tell your errors apart; the body only has one when the error does.',
+    thrownBy: [],
+    example: {message: 'A user with this email already exists'},
+    doc: {
+      label: 'Error system',
+      to: '/docs/advanced/components-reference#error-system',
+    },
+  },
+  {
+    name: 'Error',
+    id: 'internal-error',
+    status: 500,
+    code: 'INTERNAL_ERROR',
+    description:
+      'Anything thrown that isn’t an `HttpError`: a bug, a failed database call, a rejected promise nobody caught.',
+    resolution:
+      'Look up the request in the logs. The body never includes the original message, so it can’t leak internals.',
+    thrownBy: [],
+    example: {message: "Cannot read properties of undefined (reading 'id')"},
+  },
+];
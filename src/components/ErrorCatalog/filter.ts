@@ -0,0 +1,24 @@
+import type {ErrorDefinition} from './types';
+
+/**
+ * Catalog search: an error matches when each word of the query is in its
+ * name, code, status, description, resolution or the middlewares that
+ * throw it.
+ */
+
+function searchText(error: ErrorDefinition): string {
+  return [error.name, error.code ?? '', String(error.status), error.description, error.resolution, ...error.thrownBy]
+    .join('\n')
+    .toLowerCase();
+}
+
+export function filterErrors(errors: ErrorDefinition[], query: string): ErrorDefinition[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) {
+    return errors;
+  }
+  return errors.filter((error) => {
+    const text = searchText(error);
+    return words.every((word) => text.includes(word));
+  });
+}
@@ -0,0 +1,143 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import Link from '@docusaurus/Link';
+import {usePluginData} from '@docusaurus/useGlobalData';
+import Definition from '../Glossary/Definition';
+import ErrorResponsePreview from './ErrorResponsePreview';
+import {filterErrors} from './filter';
+import type {ErrorCatalogData, ErrorDefinition} from './types';
+import styles from './styles.module.css';
+
+function Entry({error}: {error: ErrorDefinition}) {
+  return (
+    <article className={styles.entry}>
+      <Heading as="h2" id={error.id} className={styles.entryTitle}>
+        <code>{error.name}</code>
+      </Heading>
+      <p>
+        <Definition text={error.description} />
+      </p>
+      <dl className={styles.facts}>
+        <dt>Status</dt>
+        <dd>{error.customStatus ? `Set when thrown; ${error.status} in the example` : error.status}</dd>
+        <dt>Code</dt>
+        <dd>
+          {error.code === undefined ? (
+            'Not documented'
+          ) : (
+            <>
+              {error.customCode && 'Set when thrown; '}
+              <code>{error.code}</code>
+              {error.customCode && ' in the example'}
+            </>
+          )}
+        </dd>
+        {error.signature && (
+          <>
+            <dt>Throw with</dt>
+            <dd>
+              <code>{error.signature}</code>
+            </dd>
+          </>
+        )}
+        <dt>Thrown by</dt>
+        <dd>
+          {error.thrownBy.length
+            ? error.thrownBy.map((name, index) => (
+                <React.Fragment key={name}>
+                  {index > 0 && ', '}
+                  <code>{name}</code>
+                </React.Fragment>
+              ))
+            : 'Your handlers'}
+        </dd>
+      </dl>
+      <p>
+        <strong>What to do:</strong> <Definition text={error.resolution} />
+      </p>
+      <ErrorResponsePreview error={error.name} />
+      {error.doc && (
+        <p className={styles.meta}>
+          Read more: <Link to={error.doc.to}>{error.doc.label}</Link>
+        </p>
+      )}
+    </article>
+  );
+}
+
+/** The error catalog page: every error the error handler knows, with the response it sends. */
+export default function ErrorCatalog(): ReactNode {
+  const {errors} = usePluginData('error-catalog') as ErrorCatalogData;
+  const [query, setQuery] = React.useState('');
+  const visible = filterErrors(errors, query);
+
+  return (
+    <Layout
+      title="Error catalog"
+      description="Every Noony error class with its HTTP status, error code and JSON response body.">
+      <main className={clsx('container', styles.catalogPage)}>
+        <header className={styles.header}>
+          <Heading as="h1">Error catalog</Heading>
+          <p>
+            The errors <Link to="/docs/middlewares/errorHandlerMiddleware">ErrorHandlerMiddleware</Link> turns into HTTP
+            responses. Each entry shows the status, the <code>error.code</code> clients can switch on where one is
+            documented, and the response as sent in development and in production.
+          </p>
+        </header>
+
+        <div className={styles.filters} role="search" aria-label="Filter errors">
+          <label className={styles.filter}>
+            Search
+            <input
+              type="search"
+              value={query}
+              placeholder="Class, code, status or middleware…"
+              onChange={(event) => setQuery(event.target.value)}
+            />
+          </label>
+          <span className={styles.count}>
+            {visible.length} of {errors.length} errors
+          </span>
+        </div>
+
+        {visible.length ? (
+          <>
+            <table className={styles.summary}>
+              <thead>
+                <tr>
+                  <th>Status</th>
+                  <th>Error</th>
+                  <th>Code</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((error) => (
+                  <tr key={error.id}>
+                    <td>{error.customStatus ? 'any' : error.status}</td>
+                    <td>
+                      <a href={`#${error.id}`}>{error.name}</a>
+                    </td>
+                    <td>{error.customCode ? 'any' : error.code === undefined ? '—' : <code>{error.code}</code>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visible.map((error) => (
+              <Entry key={error.id} error={error} />
+            ))}
+          </>
+        ) : (
+          <p className={styles.empty}>
+            No errors match “{query}”.{' '}
+            <button type="button" className="button button--link" onClick={() => setQuery('')}>
+              Clear search
+            </button>
+          </p>
+        )}
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,120 @@
+import type {ErrorDefinition} from './types';
+
+/**
+ * The response `ErrorHandlerMiddleware` sends for an error: the status of
+ * the `HttpError`, or 500 for anything else, and a `{success: false, error}`
+ * JSON body. In production, errors that aren't `HttpError`s lose their
+ * message and no stack trace is sent.
+ */
+
+/** `NODE_ENV` of the function: `development` for anything but `production`. */
+export type ErrorMode = 'development' | 'production';
+
+export interface ErrorResponseBody {
+  success: false;
+  error: {
+    message: string;
+    /** The `HttpError`'s code, when it was thrown with one. */
+    code?: string;
+    details?: unknown;
+    /** Only in development. */
+    stack?: string;
+  };
+}
+
+export interface ErrorResponse {
+  status: number;
+  statusText: string;
+  headers: [name: string, value: string][];
+  body: ErrorResponseBody;
+}
+
+/** The fields of a thrown error the response is built from. */
+export interface ThrownError {
+  message: string;
+  stack?: string;
+  /** Set when the error is an `HttpError`. */
+  http?: {status: number; code?: string; details?: unknown};
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  408: 'Request Timeout',
+  409: 'Conflict',
+  413: 'Content Too Large',
+  422: 'Unprocessable Content',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+};
+
+export const HIDDEN_MESSAGE = 'Internal Server Error';
+
+/** Errors the middleware doesn't recognise; their message may contain internals. */
+export function isInternal(definition: ErrorDefinition): boolean {
+  return definition.name === 'Error';
+}
+
+/**
+ * Status and body for a thrown error. The HandlerRunner runtime sends the
+ * same, so previews and runnable snippets agree.
+ */
+export function errorResponseBody(
+  {message, stack, http}: ThrownError,
+  mode: ErrorMode,
+): {status: number; body: ErrorResponseBody} {
+  return {
+    status: http?.status ?? 500,
+    body: {
+      success: false,
+      error: {
+        message: !http && mode === 'production' ? HIDDEN_MESSAGE : message,
+        ...(http ? http.code !== undefined && {code: http.code} : {code: 'INTERNAL_ERROR'}),
+        ...(http?.details !== undefined && {details: http.details}),
+        ...(mode === 'development' && stack !== undefined && {stack}),
+      },
+    },
+  };
+}
+
+function stackTrace(definition: ErrorDefinition, message: string): string {
+  const middleware = definition.thrownBy.find((name) => name.endsWith('Middleware'));
+  const frames = [
+    middleware ? `${middleware}.before (node_modules/@noony-serverless/core/…)` : 'handle (src/handlers/…)',
+    'Handler.execute (node_modules/@noony-serverless/core/…)',
+  ];
+  return [`${definition.name}: ${message}`, ...frames.map((frame) => `    at ${frame}`)].join('\n');
+}
+
+export function errorResponse(
+  definition: ErrorDefinition,
+  mode: ErrorMode,
+  {message, details}: ErrorDefinition['example'] = definition.example,
+): ErrorResponse {
+  const {status, body} = errorResponseBody(
+    {
+      message,
+      stack: stackTrace(definition, message),
+      http: isInternal(definition) ? undefined : {status: definition.status, code: definition.code, details},
+    },
+    mode,
+  );
+  const json = JSON.stringify(body);
+  return {
+    status,
+    statusText: STATUS_TEXT[status] ?? '',
+    headers: [
+      ['Content-Type', 'application/json; charset=utf-8'],
+      ['Content-Length', String(new TextEncoder().encode(json).length)],
+    ],
+    body,
+  };
+}
+
+/** Status line and headers, as `curl -i` prints them. */
+export function responseHead({status, statusText, headers}: ErrorResponse): string {
+  const statusLine = `HTTP/1.1 ${status} ${statusText}`.trimEnd();
+  return [statusLine, ...headers.map(([name, value]) => `${name}: ${value}`)].join('\n');
+}
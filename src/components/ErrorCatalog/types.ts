@@ -0,0 +1,38 @@
+export interface ErrorDocLink {
+  label: string;
+  /** Site path without the baseUrl, e.g. `/docs/middlewares/BodyValidationMiddleware-Guide`. */
+  to: string;
+}
+
+export interface ErrorDefinition {
+  /** Class name, e.g. `ValidationError`. `Error` stands for anything that isn't an `HttpError`. */
+  name: string;
+  /** Anchor of the entry on the catalog page, e.g. `/docs/errors#validation-error`. */
+  id: string;
+  /** HTTP status `ErrorHandlerMiddleware` sends. */
+  status: number;
+  /** The caller passes the status; `status` is the one the examples use. */
+  customStatus?: boolean;
+  /** `error.code` in the response body, when the class sets one. */
+  code?: string;
+  /** The caller passes the code; `code` is the one the examples use. */
+  customCode?: boolean;
+  /** How to throw it, e.g. `new ValidationError(message, details?)`. */
+  signature?: string;
+  /** When it is thrown. Text in backticks renders as code. */
+  description: string;
+  /** What the client or the handler's author should do about it. Text in backticks renders as code. */
+  resolution: string;
+  /** Built-in middlewares that throw it. */
+  thrownBy: string[];
+  /** Message and details the response previews use. */
+  example: {message: string; details?: unknown};
+  doc?: ErrorDocLink;
+}
+
+/** Global data of the error-catalog plugin. */
+export interface ErrorCatalogData {
+  /** Route of the catalog page, without the baseUrl. */
+  routePath: string;
+  errors: ErrorDefinition[];
+}
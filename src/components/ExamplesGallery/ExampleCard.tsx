@@ -0,0 +1,78 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Link from '@docusaurus/Link';
+import CodeBlock from '@theme/CodeBlock';
+import Tabs from '@theme/Tabs';
+import TabItem from '@theme/TabItem';
+import {DIFFICULTY_LABELS, RUNTIME_LABELS, TAG_LABELS, type Example, type ExampleTag} from './types';
+import styles from './styles.module.css';
+
+export interface ExampleCardProps {
+  example: Example;
+  /** Source tabs are expanded, e.g. when the card is the URL's #anchor. */
+  open: boolean;
+  onToggle: () => void;
+  onTagClick: (tag: ExampleTag) => void;
+}
+
+export function ExampleSources({example}: {example: Example}): ReactNode {
+  return (
+    <Tabs groupId={`example-${example.id}`} lazy>
+      {example.files.map((file) => (
+        <TabItem key={file.name} value={file.name} label={file.name}>
+          <CodeBlock language="typescript" title={`${example.source}/${file.name}`} showLineNumbers>
+            {file.code}
+          </CodeBlock>
+        </TabItem>
+      ))}
+    </Tabs>
+  );
+}
+
+export default function ExampleCard({example, open, onToggle, onTagClick}: ExampleCardProps): ReactNode {
+  return (
+    <article id={example.id} className={clsx(styles.card, open && styles.cardOpen)}>
+      <header className={styles.cardHeader}>
+        <h2 className={styles.cardTitle}>
+          <a href={`#${example.id}`}>{example.title}</a>
+        </h2>
+        <span className={clsx(styles.difficulty, styles[example.difficulty])}>
+          {DIFFICULTY_LABELS[example.difficulty]}
+        </span>
+      </header>
+      <p className={styles.description}>{example.description}</p>
+      <div className={styles.meta}>
+        <span className={styles.runtime}>{RUNTIME_LABELS[example.runtime]}</span>
+        {example.tags.map((tag) => (
+          <button key={tag} type="button" className={styles.tag} onClick={() => onTagClick(tag)}>
+            {TAG_LABELS[tag]}
+          </button>
+        ))}
+      </div>
+      {example.docs.length > 0 && (
+        <p className={styles.docs}>
+          Related docs:{' '}
+          {example.docs.map((doc, index) => (
+            <React.Fragment key={doc.to}>
+              {index > 0 && ' · '}
+              <Link to={doc.to}>{doc.label}</Link>
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+      <button
+        type="button"
+        className="button button--sm button--outline button--primary"
+        aria-expanded={open}
+        onClick={onToggle}>
+        {open ? 'Hide source' : `View source (${example.files.length} ${example.files.length > 1 ? 'files' : 'file'})`}
+      </button>
+      {open && (
+        <div className={styles.sources}>
+          <ExampleSources example={example} />
+        </div>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,50 @@
+import {RUNTIME_LABELS, TAG_LABELS, type Example, type ExampleRuntime, type ExampleTag} from './types';
+
+/**
+ * Gallery filtering: an example must carry every selected tag, run on the
+ * selected runtime, and contain each word of the query in its title,
+ * description, tags, runtime, file names or code.
+ */
+
+export interface ExampleFilter {
+  tags: ExampleTag[];
+  runtime?: ExampleRuntime;
+  query: string;
+}
+
+function searchText(example: Example): string {
+  return [
+    example.title,
+    example.description,
+    ...example.tags.map((tag) => TAG_LABELS[tag]),
+    RUNTIME_LABELS[example.runtime],
+    ...example.files.flatMap((file) => [file.name, file.code]),
+  ]
+    .join('\n')
+    .toLowerCase();
+}
+
+export function filterExamples(examples: Example[], {tags, runtime, query}: ExampleFilter): Example[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return examples.filter((example) => {
+    if (runtime && example.runtime !== runtime) {
+      return false;
+    }
+    if (!tags.every((tag) => example.tags.includes(tag))) {
+      return false;
+    }
+    const text = words.length ? searchText(example) : '';
+    return words.every((word) => text.includes(word));
+  });
+}
+
+/** How many of the examples carry each tag, for the filter chips. */
+export function countTags(examples: Example[]): Record<ExampleTag, number> {
+  const counts = Object.fromEntries(Object.keys(TAG_LABELS).map((tag) => [tag, 0])) as Record<ExampleTag, number>;
+  for (const example of examples) {
+    for (const tag of example.tags) {
+      counts[tag] += 1;
+    }
+  }
+  return counts;
+}
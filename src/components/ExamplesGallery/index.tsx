@@ -0,0 +1,118 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import {useHistory, useLocation} from '@docusaurus/router';
+import ExampleCard from './ExampleCard';
+import {countTags, filterExamples} from './filter';
+import {RUNTIME_LABELS, TAG_LABELS, type ExampleRuntime, type ExampleTag, type ExamplesData} from './types';
+import styles from './styles.module.css';
+
+const ALL = 'all';
+
+export interface ExamplesGalleryProps {
+  /** Loaded by the examples-gallery plugin for this route only. */
+  data: ExamplesData;
+}
+
+export default function ExamplesGallery({data: {examples}}: ExamplesGalleryProps): ReactNode {
+  const location = useLocation();
+  const history = useHistory();
+
+  const [tags, setTags] = React.useState<ExampleTag[]>([]);
+  const [runtime, setRuntime] = React.useState<ExampleRuntime | typeof ALL>(ALL);
+  const [query, setQuery] = React.useState('');
+
+  const visible = filterExamples(examples, {tags, runtime: runtime === ALL ? undefined : runtime, query});
+  const tagCounts = React.useMemo(() => countTags(examples), [examples]);
+  const openId = location.hash.slice(1);
+
+  const toggleTag = (tag: ExampleTag) =>
+    setTags((selected) => (selected.includes(tag) ? selected.filter((t) => t !== tag) : [...selected, tag]));
+  const toggleSource = (id: string) => history.replace({...location, hash: openId === id ? '' : id});
+
+  return (
+    <Layout title="Examples" description="Runnable Noony handlers for HTTP, authentication, Pub/Sub, tracing and more.">
+      <main className={clsx('container', styles.galleryPage)}>
+        <header className={styles.header}>
+          <Heading as="h1">Examples</Heading>
+          <p>
+            Complete handlers you can copy into a project. Every example is type-checked against the pinned{' '}
+            <code>@noony-serverless/core</code> declarations by <code>npm run check-snippets</code>, which also runs
+            after each site build.
+          </p>
+        </header>
+
+        <div className={styles.filters} role="search" aria-label="Filter examples">
+          <label className={styles.filter}>
+            Search
+            <input
+              type="search"
+              value={query}
+              placeholder="Title, tag or code…"
+              onChange={(event) => setQuery(event.target.value)}
+            />
+          </label>
+          <label className={styles.filter}>
+            Runtime
+            <select value={runtime} onChange={(event) => setRuntime(event.target.value as ExampleRuntime)}>
+              <option value={ALL}>All runtimes</option>
+              {(Object.keys(RUNTIME_LABELS) as ExampleRuntime[]).map((id) => (
+                <option key={id} value={id}>
+                  {RUNTIME_LABELS[id]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <span className={styles.count}>
+            {visible.length} of {examples.length} examples
+          </span>
+        </div>
+
+        <div className={styles.tags} role="group" aria-label="Filter by tag">
+          {(Object.keys(TAG_LABELS) as ExampleTag[])
+            .filter((tag) => tagCounts[tag])
+            .map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                className={styles.tagFilter}
+                aria-pressed={tags.includes(tag)}
+                onClick={() => toggleTag(tag)}>
+                {TAG_LABELS[tag]} <span className={styles.tagCount}>{tagCounts[tag]}</span>
+              </button>
+            ))}
+        </div>
+
+        {visible.length ? (
+          <div className={styles.grid}>
+            {visible.map((example) => (
+              <ExampleCard
+                key={example.id}
+                example={example}
+                open={openId === example.id}
+                onToggle={() => toggleSource(example.id)}
+                onTagClick={(tag) => !tags.includes(tag) && toggleTag(tag)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className={styles.empty}>
+            No examples match these filters.{' '}
+            <button
+              type="button"
+              className="button button--link"
+              onClick={() => {
+                setTags([]);
+                setRuntime(ALL);
+                setQuery('');
+              }}>
+              Clear filters
+            </button>
+          </p>
+        )}
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,81 @@
+import type {ExampleManifestEntry} from './types';
+
+/**
+ * Examples shown on the /examples gallery. Sources live in
+ * src/snippets/examples, which `npm run check-snippets` type-checks against
+ * the core declarations (tsconfig.json leaves src/snippets out).
+ */
+export const EXAMPLES: ExampleManifestEntry[] = [
+  {
+    id: 'greeting-http',
+    title: 'Validated HTTP function',
+    description: 'A Cloud Function that parses a JSON body, validates it with Zod and wraps the response.',
+    tags: ['http', 'validation'],
+    runtime: 'gcp-functions',
+    difficulty: 'beginner',
+    source: 'src/snippets/examples/greeting-http',
+    entry: 'handler.ts',
+    docs: [
+      {label: 'Handler guide', to: '/docs/core-concepts/Handler-Complete-Guide'},
+      {label: 'Body validation', to: '/docs/middlewares/BodyValidationMiddleware-Guide'},
+    ],
+  },
+  {
+    id: 'jwt-auth',
+    title: 'JWT authentication on Express',
+    description: 'Verifies bearer tokens with a custom token verifier and exposes the typed user to the handler.',
+    tags: ['http', 'auth', 'validation'],
+    runtime: 'express',
+    difficulty: 'intermediate',
+    source: 'src/snippets/examples/jwt-auth',
+    entry: 'server.ts',
+    docs: [
+      {
+        label: 'Token validation',
+        to: '/docs/authentication/TokenValidatorFactory-AuthenticationMiddleware-Integration',
+      },
+    ],
+  },
+  {
+    id: 'route-guards',
+    title: 'Refunds behind a permission expression',
+    description: 'Configures RouteGuards with JWT verification and protects a handler with a boolean permission expression.',
+    tags: ['auth', 'guards', 'validation'],
+    runtime: 'gcp-functions',
+    difficulty: 'advanced',
+    source: 'src/snippets/examples/route-guards',
+    entry: 'handler.ts',
+    docs: [
+      {label: 'RouteGuards getting started', to: '/docs/authentication/RouteGuards-Getting-Started'},
+      {label: 'RouteGuards complete guide', to: '/docs/authentication/RouteGuards-Complete-Guide'},
+    ],
+  },
+  {
+    id: 'order-events',
+    title: 'Traced order events over Pub/Sub',
+    description: 'Publishes an order event with the W3C trace context and consumes it in a push subscriber on the same trace.',
+    tags: ['pubsub', 'otel', 'validation'],
+    runtime: 'gcp-functions',
+    difficulty: 'intermediate',
+    source: 'src/snippets/examples/order-events',
+    entry: 'publisher.ts',
+    docs: [
+      {label: 'OpenTelemetry integration', to: '/docs/advanced/opentelemetry-integration'},
+      {label: 'Body parser', to: '/docs/middlewares/BodyParserMiddleware-Guide'},
+    ],
+  },
+  {
+    id: 'di-services',
+    title: 'Injected services with a unit test',
+    description: 'Registers services with DependencyInjectionMiddleware on Fastify and tests the handler function on its own.',
+    tags: ['http', 'di', 'testing'],
+    runtime: 'fastify',
+    difficulty: 'intermediate',
+    source: 'src/snippets/examples/di-services',
+    entry: 'server.ts',
+    docs: [
+      {label: 'Dependency injection', to: '/docs/middlewares/DependencyInjectionMiddleware-Guide'},
+      {label: 'Query parameters', to: '/docs/middlewares/queryParametersMiddleware'},
+    ],
+  },
+];
@@ -0,0 +1,65 @@
+export type ExampleTag = 'http' | 'validation' | 'auth' | 'guards' | 'di' | 'pubsub' | 'otel' | 'testing';
+
+export type ExampleRuntime = 'gcp-functions' | 'express' | 'fastify';
+
+export type ExampleDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export const TAG_LABELS: Record<ExampleTag, string> = {
+  http: 'HTTP',
+  validation: 'Validation',
+  auth: 'Authentication',
+  guards: 'Route guards',
+  di: 'Dependency injection',
+  pubsub: 'Pub/Sub',
+  otel: 'OpenTelemetry',
+  testing: 'Testing',
+};
+
+export const RUNTIME_LABELS: Record<ExampleRuntime, string> = {
+  'gcp-functions': 'Google Cloud Functions',
+  express: 'Express',
+  fastify: 'Fastify',
+};
+
+export const DIFFICULTY_LABELS: Record<ExampleDifficulty, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+export interface ExampleDocLink {
+  label: string;
+  /** Site path without the baseUrl, e.g. `/docs/middlewares/BodyValidationMiddleware-Guide`. */
+  to: string;
+}
+
+export interface ExampleManifestEntry {
+  /** Anchor of the example's card, e.g. `/examples#jwt-auth`. */
+  id: string;
+  title: string;
+  description: string;
+  tags: ExampleTag[];
+  runtime: ExampleRuntime;
+  difficulty: ExampleDifficulty;
+  /** Directory holding the example's `.ts` files, relative to the site directory. */
+  source: string;
+  /** File shown in the first tab; the others follow alphabetically. */
+  entry: string;
+  /** Docs pages the example demonstrates. */
+  docs: ExampleDocLink[];
+}
+
+export interface ExampleFile {
+  /** Path relative to the example's source directory. */
+  name: string;
+  code: string;
+}
+
+export interface Example extends ExampleManifestEntry {
+  files: ExampleFile[];
+}
+
+/** Data of the gallery page, loaded by the examples-gallery plugin. */
+export interface ExamplesData {
+  examples: Example[];
+}
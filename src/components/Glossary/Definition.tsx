@@ -0,0 +1,7 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+
+/** A glossary definition, with the parts in backticks rendered as code. */
+export default function Definition({text}: {text: string}): ReactNode {
+  return text.split(/`([^`]+)`/).map((part, index) => (index % 2 ? <code key={index}>{part}</code> : part));
+}
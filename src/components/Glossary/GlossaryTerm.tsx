@@ -0,0 +1,49 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import Link from '@docusaurus/Link';
+import Translate from '@docusaurus/Translate';
+import {usePluginData} from '@docusaurus/useGlobalData';
+import Definition from './Definition';
+import type {GlossaryData} from './types';
+import styles from './styles.module.css';
+
+export interface GlossaryTermProps {
+  /** Id of the glossary entry. */
+  id: string;
+  children: ReactNode;
+}
+
+/**
+ * A term mention the glossary remark plugin linked. It points at the term's
+ * glossary entry and shows the definition and the canonical doc in a card on
+ * hover or keyboard focus.
+ */
+export default function GlossaryTerm({id, children}: GlossaryTermProps): ReactNode {
+  const {routePath, entries} = usePluginData('glossary') as GlossaryData;
+  const cardId = React.useId();
+  const entry = entries.find((candidate) => candidate.id === id);
+  if (!entry) {
+    return children;
+  }
+  return (
+    <span className={styles.term}>
+      <Link to={`${routePath}#${entry.id}`} className={styles.termLink} aria-describedby={cardId}>
+        {children}
+      </Link>
+      <span id={cardId} className={styles.card}>
+        <span className={styles.cardTerm}>{entry.term}</span>
+        <span className={styles.cardDefinition}>
+          <Definition text={entry.definition} />
+        </span>
+        <span className={styles.cardLinks}>
+          <Link to={entry.doc.to}>{entry.doc.label}</Link>
+          <Link to={routePath}>
+            <Translate id="glossary.card.allTerms" description="Link from a glossary hover card to the glossary page">
+              All terms
+            </Translate>
+          </Link>
+        </span>
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,101 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import Link from '@docusaurus/Link';
+import useBrokenLinks from '@docusaurus/useBrokenLinks';
+import {usePluginData} from '@docusaurus/useGlobalData';
+import Definition from './Definition';
+import type {GlossaryData, GlossaryEntry} from './types';
+import styles from './styles.module.css';
+
+function groupByLetter(entries: GlossaryEntry[]): [string, GlossaryEntry[]][] {
+  const groups = new Map<string, GlossaryEntry[]>();
+  for (const entry of entries) {
+    const letter = entry.term[0].toUpperCase();
+    groups.set(letter, [...(groups.get(letter) ?? []), entry]);
+  }
+  return [...groups];
+}
+
+function Entry({entry, termOf}: {entry: GlossaryEntry; termOf: (id: string) => string}) {
+  // Linked terms point at this anchor from every doc page
+  useBrokenLinks().collectAnchor(entry.id);
+  const names = entry.code?.filter((name) => name !== entry.term) ?? [];
+  return (
+    <div id={entry.id} className={styles.entry}>
+      <dt>
+        {entry.term}
+        {names.length > 0 && (
+          <span className={styles.names}>
+            {names.map((name) => (
+              <code key={name}>{name}</code>
+            ))}
+          </span>
+        )}
+      </dt>
+      <dd>
+        <p>
+          <Definition text={entry.definition} />
+        </p>
+        <p className={styles.meta}>
+          Read more: <Link to={entry.doc.to}>{entry.doc.label}</Link>
+          {entry.related?.length ? (
+            <>
+              {' · '}Related:{' '}
+              {entry.related.map((id, index) => (
+                <React.Fragment key={id}>
+                  {index > 0 && ', '}
+                  <a href={`#${id}`}>{termOf(id)}</a>
+                </React.Fragment>
+              ))}
+            </>
+          ) : null}
+        </p>
+      </dd>
+    </div>
+  );
+}
+
+/** The glossary page: every entry A to Z, with its canonical doc and related terms. */
+export default function Glossary(): ReactNode {
+  const {entries} = usePluginData('glossary') as GlossaryData;
+  const groups = groupByLetter(entries);
+  const termOf = (id: string) => entries.find((entry) => entry.id === id)!.term;
+
+  return (
+    <Layout title="Glossary" description="Definitions of the terms used across the Noony documentation.">
+      <main className={clsx('container', styles.glossaryPage)}>
+        <header className={styles.header}>
+          <Heading as="h1">Glossary</Heading>
+          <p>
+            Terms used across the documentation, each with the page that explains it. The first mention of a term on a
+            doc page links here and shows its definition on hover. To turn that off for a page, set{' '}
+            <code>glossary_links: false</code> in its front matter.
+          </p>
+          <nav className={styles.letters} aria-label="Jump to letter">
+            {groups.map(([letter]) => (
+              <a key={letter} href={`#letter-${letter.toLowerCase()}`}>
+                {letter}
+              </a>
+            ))}
+          </nav>
+        </header>
+
+        {groups.map(([letter, group]) => (
+          <section key={letter}>
+            <Heading as="h2" id={`letter-${letter.toLowerCase()}`}>
+              {letter}
+            </Heading>
+            <dl className={styles.entries}>
+              {group.map((entry) => (
+                <Entry key={entry.id} entry={entry} termOf={termOf} />
+              ))}
+            </dl>
+          </section>
+        ))}
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,201 @@
+import type {GlossaryEntry} from './types';
+
+/**
+ * Terms defined on the /docs/glossary page. The first mention of each term on
+ * a doc page links to its entry and shows the definition on hover; `code` and
+ * `phrases` decide what counts as a mention.
+ */
+export const GLOSSARY: GlossaryEntry[] = [
+  {
+    id: 'handler',
+    term: 'Handler',
+    definition:
+      'The class that builds a serverless function: `use()` adds middlewares to the pipeline, `handle()` sets the business logic and `execute()` runs both for a request.',
+    doc: {label: 'Handler complete guide', to: '/docs/core-concepts/Handler-Complete-Guide'},
+    code: ['Handler', 'Handler<T>'],
+    related: ['context', 'base-middleware', 'middleware-lifecycle'],
+  },
+  {
+    id: 'context',
+    term: 'Context',
+    definition:
+      'The object every middleware and the handler receive for one request. It holds the request and response, the authenticated `user`, the DI `container`, `businessData` and the `requestId`.',
+    doc: {label: 'The Context object', to: '/docs/core-concepts/Handler-Complete-Guide#context-object'},
+    code: ['Context', 'Context<T>'],
+    related: ['business-data', 'noony-request', 'request-id'],
+  },
+  {
+    id: 'business-data',
+    term: 'businessData',
+    definition:
+      'A `Map<string, unknown>` on the `Context` for passing values between middlewares and the handler within one request, such as a validated payload or a start time.',
+    doc: {label: 'The Context object', to: '/docs/core-concepts/Handler-Complete-Guide#context-object'},
+    code: ['businessData', 'context.businessData'],
+    related: ['context'],
+  },
+  {
+    id: 'request-id',
+    term: 'requestId',
+    definition: 'A unique identifier the `Context` gets for each request, for correlating logs, errors and traces.',
+    doc: {label: 'The Context object', to: '/docs/core-concepts/Handler-Complete-Guide#context-object'},
+    code: ['requestId', 'context.requestId'],
+    related: ['context'],
+  },
+  {
+    id: 'noony-request',
+    term: 'NoonyRequest',
+    definition:
+      'The framework-agnostic request in `context.req`. Its type parameter is the body type, so `parsedBody` and `validatedBody` are typed after the body middlewares run.',
+    doc: {label: 'API overview', to: '/docs/advanced/api-reference'},
+    code: ['NoonyRequest', 'NoonyRequest<T>', 'GenericRequest', 'GenericRequest<T>'],
+    related: ['noony-response', 'context'],
+  },
+  {
+    id: 'noony-response',
+    term: 'NoonyResponse',
+    definition:
+      'The framework-agnostic response in `context.res`. Adapters for Cloud Functions, Express and Fastify translate it to the platform response.',
+    doc: {label: 'API overview', to: '/docs/advanced/api-reference'},
+    code: ['NoonyResponse', 'GenericResponse'],
+    related: ['noony-request', 'context'],
+  },
+  {
+    id: 'base-middleware',
+    term: 'BaseMiddleware',
+    definition:
+      'The interface every middleware implements: optional `before`, `after` and `onError` hooks that receive the `Context`.',
+    doc: {label: 'BaseMiddleware interface', to: '/docs/core-concepts/Handler-Complete-Guide#basemiddleware-interface'},
+    code: ['BaseMiddleware', 'BaseMiddleware<T>'],
+    related: ['middleware-lifecycle', 'handler'],
+  },
+  {
+    id: 'middleware-lifecycle',
+    term: 'Middleware lifecycle',
+    definition:
+      'The order a `Handler` runs hooks in: every `before` in registration order, then the handler, then every `after` in reverse order. When a step throws, the remaining steps are skipped and every `onError` hook runs in reverse order.',
+    doc: {label: 'Middleware lifecycle', to: '/docs/core-concepts/Handler-Complete-Guide#middleware-lifecycle'},
+    phrases: ['middleware lifecycle', 'middleware pipeline'],
+    related: ['base-middleware', 'handler'],
+  },
+  {
+    id: 'dependency-container',
+    term: 'Dependency container',
+    definition:
+      'The TypeDI `Container` that `DependencyInjectionMiddleware` attaches to `context.container`, from which handlers resolve their services.',
+    doc: {label: 'Dependency injection guide', to: '/docs/middlewares/DependencyInjectionMiddleware-Guide'},
+    code: ['context.container', 'Container'],
+    phrases: ['TypeDI container', 'DI container'],
+    related: ['context'],
+  },
+  {
+    id: 'route-guards',
+    term: 'RouteGuards',
+    definition:
+      'The facade of the guard system. `RouteGuards.configure()` sets it up once, and `requirePermissions()`, `requireWildcardPermissions()` and `requireComplexPermissions()` return middlewares that protect a route.',
+    doc: {label: 'RouteGuards complete guide', to: '/docs/authentication/RouteGuards-Complete-Guide#1-routeguards-facade'},
+    code: ['RouteGuards'],
+    phrases: ['RouteGuards', 'route guards'],
+    related: ['fast-auth-guard', 'permission-resolution-strategy', 'guard-configuration'],
+  },
+  {
+    id: 'fast-auth-guard',
+    term: 'FastAuthGuard',
+    definition:
+      'The guard component that authenticates requests: it verifies the token and loads the user context, caching both in memory and, optionally, a distributed cache.',
+    doc: {label: 'FastAuthGuard', to: '/docs/authentication/RouteGuards-Complete-Guide#2-fastauthguard'},
+    code: ['FastAuthGuard'],
+    related: ['route-guards', 'token-verifier'],
+  },
+  {
+    id: 'permission-resolution-strategy',
+    term: 'Permission resolution strategy',
+    definition:
+      'How a guard compares the user’s permissions with a route’s requirement: plain lists (fastest, O(1) lookups), wildcard patterns such as `admin.*`, or boolean expressions with `and`, `or` and `not`.',
+    doc: {
+      label: 'Permission resolution strategies',
+      to: '/docs/authentication/RouteGuards-Complete-Guide#permission-resolution-strategies',
+    },
+    phrases: ['permission resolution strategy', 'permission resolution strategies', 'permission resolution'],
+    related: ['route-guards', 'permission-source'],
+  },
+  {
+    id: 'permission-source',
+    term: 'Permission source',
+    definition:
+      'The object you pass to `RouteGuards.configure()` that loads a user’s permissions and roles, and maps roles to permissions, usually from your database.',
+    doc: {label: 'RouteGuards getting started', to: '/docs/authentication/RouteGuards-Getting-Started'},
+    code: ['UserPermissionSource'],
+    phrases: ['permission source'],
+    related: ['route-guards', 'permission-resolution-strategy'],
+  },
+  {
+    id: 'guard-configuration',
+    term: 'GuardConfiguration',
+    definition:
+      'The environment profile of the guard system, with presets such as `development()`, `production()` and `serverless()` that trade logging and caching against speed. `GuardSetup` offers the same presets.',
+    doc: {label: 'GuardConfiguration', to: '/docs/authentication/RouteGuards-Complete-Guide#5-guardconfiguration'},
+    code: ['GuardConfiguration', 'GuardSetup'],
+    related: ['route-guards'],
+  },
+  {
+    id: 'conservative-cache-invalidation',
+    term: 'Conservative cache invalidation',
+    definition:
+      'The guard system’s security-first caching rule: when permissions may have changed, cached entries are dropped even if that costs a cache miss.',
+    doc: {
+      label: 'Security considerations',
+      to: '/docs/authentication/RouteGuards-Complete-Guide#conservative-cache-invalidation',
+    },
+    phrases: ['conservative cache invalidation'],
+    related: ['route-guards', 'fast-auth-guard'],
+  },
+  {
+    id: 'token-verifier',
+    term: 'Token verifier',
+    definition:
+      'An implementation of `CustomTokenVerificationPort<T>`: a `verifyToken(token)` method that checks a token and returns the typed user that ends up in `context.user`.',
+    doc: {
+      label: 'Basic setup with CustomTokenVerificationPort',
+      to: '/docs/authentication/RouteGuards-Complete-Guide#basic-setup-with-customtokenverificationport',
+    },
+    code: ['CustomTokenVerificationPort', 'CustomTokenVerificationPort<T>'],
+    phrases: ['token verifier'],
+    related: ['token-validator-factory', 'fast-auth-guard'],
+  },
+  {
+    id: 'token-validator-factory',
+    term: 'TokenValidatorFactory',
+    definition:
+      'Builds a token verifier with several providers, failover, circuit breakers and health monitoring behind the plain `CustomTokenVerificationPort<T>` interface.',
+    doc: {
+      label: 'TokenValidatorFactory integration',
+      to: '/docs/authentication/TokenValidatorFactory-AuthenticationMiddleware-Integration',
+    },
+    code: ['TokenValidatorFactory'],
+    related: ['token-verifier'],
+  },
+  {
+    id: 'cloud-propagator',
+    term: 'CloudPropagator',
+    definition:
+      'The trace propagator used on Cloud Run, Cloud Functions and App Engine. It reads and writes `X-Cloud-Trace-Context` next to the W3C `traceparent` header, so Cloud Trace and OpenTelemetry share one trace ID.',
+    doc: {
+      label: 'Cloud Trace integration',
+      to: '/docs/advanced/opentelemetry-integration#cloud-trace-integration-google-cloud-platform',
+    },
+    code: ['CloudPropagator'],
+    related: ['w3c-trace-context'],
+  },
+  {
+    id: 'w3c-trace-context',
+    term: 'W3C Trace Context',
+    definition:
+      'The standard `traceparent` header format. Noony copies it into Pub/Sub message attributes so a subscriber continues the publisher’s trace.',
+    doc: {
+      label: 'Pub/Sub trace propagation',
+      to: '/docs/advanced/opentelemetry-integration#google-cloud-pubsub-trace-propagation',
+    },
+    phrases: ['W3C Trace Context'],
+    related: ['cloud-propagator'],
+  },
+];
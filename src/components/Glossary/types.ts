@@ -0,0 +1,28 @@
+export interface GlossaryDocLink {
+  label: string;
+  /** Site path without the baseUrl, e.g. `/docs/core-concepts/Handler-Complete-Guide#context-object`. */
+  to: string;
+}
+
+export interface GlossaryEntry {
+  /** Anchor of the entry on the glossary page, e.g. `/docs/glossary#business-data`. */
+  id: string;
+  term: string;
+  /** One or two sentences. Text in backticks renders as code. */
+  definition: string;
+  /** The page that explains the term in depth. */
+  doc: GlossaryDocLink;
+  /** Inline code in the docs that names this term, matched exactly, e.g. `Context<T>`. */
+  code?: string[];
+  /** Words in running text that name this term, matched as whole words in any case. */
+  phrases?: string[];
+  /** Ids of entries worth reading next. */
+  related?: string[];
+}
+
+/** Global data of the glossary plugin. */
+export interface GlossaryData {
+  /** Route of the glossary page, without the baseUrl. */
+  routePath: string;
+  entries: GlossaryEntry[];
+}
@@ -0,0 +1,97 @@
+/**
+ * Compiles a TypeScript doc snippet in the browser and runs its handler
+ * against the mock runtime: imports of `@noony-serverless/core` and the
+ * framework's `@/...` source paths resolve to `./runtime`, `zod` to the real
+ * library. Nothing leaves the page.
+ */
+
+import {collectHandlers, noonyModule, type Handler, type TraceEntry} from './runtime';
+import {createMockRequest, MockResponse, type RunRequest} from './request';
+
+export interface RunResult {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+  /** Whether any middleware (or the handler) sent a response. */
+  sent: boolean;
+  /** Error the pipeline ended with, if no middleware turned it into a response. */
+  unhandledError?: string;
+  trace: TraceEntry[];
+  logs: string[];
+}
+
+const TIMEOUT_MS = 5000;
+
+function isRuntimeModule(specifier: string): boolean {
+  return specifier === '@noony-serverless/core' || specifier.startsWith('@/');
+}
+
+function formatLog(args: unknown[]): string {
+  return args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' ');
+}
+
+/**
+ * Rejects when `promise` hasn't settled after 5s; `what` names it in the
+ * error, e.g. "The handler". Code runs on the page's thread, so this only
+ * catches code that waits forever: a synchronous infinite loop never yields
+ * to the timer and freezes the tab.
+ */
+export async function withTimeout<T>(promise: Promise<T>, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${what} did not finish within ${TIMEOUT_MS / 1000}s`)), TIMEOUT_MS);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Evaluates the snippet and returns the last handler that got a `.handle()` body. */
+async function loadHandler(code: string, logs: string[]): Promise<Handler> {
+  const [{transform}, zod] = await Promise.all([
+    import('sucrase'),
+    /from\s+['"]zod['"]/.test(code) ? import('zod') : Promise.resolve(undefined),
+  ]);
+  const compiled = transform(code, {transforms: ['typescript', 'imports']}).code;
+
+  const requireModule = (specifier: string): unknown => {
+    if (isRuntimeModule(specifier)) {
+      return noonyModule;
+    }
+    if (specifier === 'zod' && zod) {
+      return zod;
+    }
+    throw new Error(`"${specifier}" is not available when running snippets in the browser`);
+  };
+  const log = (...args: unknown[]) => logs.push(formatLog(args));
+  const console = {log, info: log, debug: log, warn: log, error: log};
+
+  const module = new Function('require', 'exports', 'console', compiled);
+  const handlers = collectHandlers(() => module(requireModule, {}, console));
+  const handler = handlers.filter((candidate) => candidate.hasHandler).at(-1);
+  if (!handler) {
+    throw new Error('This snippet does not create a Handler with a .handle() body');
+  }
+  return handler;
+}
+
+export async function runSnippet(code: string, request: RunRequest): Promise<RunResult> {
+  const logs: string[] = [];
+  const trace: TraceEntry[] = [];
+  const handler = await loadHandler(code, logs);
+  const res = new MockResponse();
+  const context = await withTimeout(handler.execute(createMockRequest(request), res, trace), 'The handler');
+  return {
+    status: res.statusCode,
+    headers: res.getHeaders(),
+    body: res.body,
+    sent: res.headersSent,
+    unhandledError: context.error && !res.headersSent ? `${context.error.name}: ${context.error.message}` : undefined,
+    trace,
+    logs,
+  };
+}
@@ -0,0 +1,165 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import CodeBlock from '@theme/CodeBlock';
+import {runSnippet, type RunResult} from './evaluate';
+import {DEFAULT_REQUEST, HTTP_METHODS, type RunRequest} from './request';
+import type {TraceEntry} from './runtime';
+import styles from './styles.module.css';
+
+export {parseRunMeta, type RunRequest} from './request';
+
+export interface HandlerRunnerProps {
+  /** TypeScript source that builds a `Handler`. */
+  code: string;
+  /** Request the form starts with. */
+  request?: RunRequest;
+}
+
+function traceLabel({middleware, stage}: TraceEntry): string {
+  return stage === 'handler' ? 'handle()' : `${middleware}.${stage}()`;
+}
+
+function statusClass(status: number): string {
+  if (status >= 500) {
+    return styles.serverError;
+  }
+  return status >= 400 ? styles.clientError : styles.ok;
+}
+
+function Result({result}: {result: RunResult}) {
+  const headers = Object.entries(result.headers);
+  return (
+    <div className={styles.result} aria-live="polite">
+      <p className={styles.status}>
+        {result.sent ? (
+          <span className={clsx(styles.badge, statusClass(result.status))}>{result.status}</span>
+        ) : (
+          <span className={clsx(styles.badge, styles.serverError)}>No response</span>
+        )}
+        {result.unhandledError
+          ? `${result.unhandledError} reached the platform: no middleware turned it into a response.`
+          : !result.sent && 'No middleware sent a response (add ResponseWrapperMiddleware or call context.res.json()).'}
+      </p>
+
+      {headers.length > 0 && (
+        <dl className={styles.headers}>
+          {headers.map(([name, value]) => (
+            <React.Fragment key={name}>
+              <dt>{name}</dt>
+              <dd>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+      {result.body !== undefined && (
+        <CodeBlock language="json" title="Response body">
+          {typeof result.body === 'string' ? result.body : JSON.stringify(result.body, null, 2)}
+        </CodeBlock>
+      )}
+
+      <h4 className={styles.heading}>Middleware trace</h4>
+      <ol className={styles.trace}>
+        {result.trace.map((entry, index) => (
+          <li key={index} className={clsx(entry.error && styles.traceFailed, entry.stage === 'onError' && styles.traceError)}>
+            <span className={styles.traceMark}>{entry.error ? '✗' : '✓'}</span>
+            <code>{traceLabel(entry)}</code>
+            <span className={styles.duration}>{entry.durationMs.toFixed(2)} ms</span>
+            {entry.error && <span className={styles.traceMessage}>throws: {entry.error}</span>}
+          </li>
+        ))}
+      </ol>
+
+      {result.logs.length > 0 && (
+        <>
+          <h4 className={styles.heading}>Console</h4>
+          <pre className={styles.logs}>{result.logs.join('\n')}</pre>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Runs a handler snippet in the browser against a mock request, showing the
+ * response and the hooks that ran. See `./runtime` for what is supported.
+ */
+export default function HandlerRunner({code, request: initialRequest = DEFAULT_REQUEST}: HandlerRunnerProps): ReactNode {
+  const id = React.useId();
+  const [request, setRequest] = React.useState(initialRequest);
+  const [running, setRunning] = React.useState(false);
+  const [result, setResult] = React.useState<RunResult>();
+  const [error, setError] = React.useState<string>();
+
+  const update = (field: keyof RunRequest) => (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+    setRequest((current) => ({...current, [field]: event.target.value}));
+
+  const run = async () => {
+    setRunning(true);
+    setError(undefined);
+    try {
+      setResult(await runSnippet(code, request));
+    } catch (runError) {
+      setResult(undefined);
+      setError((runError as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className={styles.runner}>
+      <div className={styles.requestLine}>
+        <select aria-label="Method" className={styles.input} value={request.method} onChange={update('method')}>
+          {HTTP_METHODS.map((method) => (
+            <option key={method}>{method}</option>
+          ))}
+        </select>
+        <input aria-label="Path" className={clsx(styles.input, styles.grow)} value={request.path} onChange={update('path')} />
+        <input
+          aria-label="Query string"
+          className={clsx(styles.input, styles.grow)}
+          placeholder="page=1&limit=10"
+          value={request.query}
+          onChange={update('query')}
+        />
+        <button type="button" className="button button--primary button--sm" disabled={running} onClick={run}>
+          {running ? 'Running…' : '▶ Send request'}
+        </button>
+      </div>
+
+      <div className={styles.inputs}>
+        <div className={styles.field}>
+          <label htmlFor={`${id}-headers`}>Headers</label>
+          <textarea
+            id={`${id}-headers`}
+            className={styles.editor}
+            rows={5}
+            spellCheck={false}
+            placeholder="Authorization: Bearer valid-token"
+            value={request.headers}
+            onChange={update('headers')}
+          />
+          <span className={styles.hint}>
+            One <code>Name: value</code> per line.
+          </span>
+        </div>
+        <div className={styles.field}>
+          <label htmlFor={`${id}-body`}>Body</label>
+          <textarea
+            id={`${id}-body`}
+            className={styles.editor}
+            rows={5}
+            spellCheck={false}
+            value={request.body}
+            onChange={update('body')}
+          />
+          <span className={styles.hint}>JSON; anything else is passed through as raw text.</span>
+        </div>
+      </div>
+
+      {error && <p className={styles.error}>{error}</p>}
+      {result && <Result result={result} />}
+    </div>
+  );
+}
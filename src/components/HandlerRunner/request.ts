@@ -0,0 +1,158 @@
+/**
+ * Mock `NoonyRequest` / `NoonyResponse` pair for the handler runner, built
+ * from the editable request form.
+ */
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+/** Request as the runner form edits it; also the shape of the `run=` snippet defaults. */
+export interface RunRequest {
+  method: string;
+  path: string;
+  /** One `Name: value` per line. */
+  headers: string;
+  /** URL query string, without the leading `?`. */
+  query: string;
+  /** JSON (or raw text) request body. */
+  body: string;
+}
+
+export interface MockRequest<T = unknown> {
+  method: string;
+  url: string;
+  path: string;
+  /** Header names are lower-cased, as Node.js does. */
+  headers: Record<string, string | undefined>;
+  query: Record<string, string | string[]>;
+  params: Record<string, string>;
+  /** Parsed JSON when the body is valid JSON, otherwise the raw text. */
+  body?: unknown;
+  parsedBody?: unknown;
+  validatedBody?: T;
+  ip: string;
+  userAgent?: string;
+}
+
+export class MockResponse {
+  statusCode = 200;
+  headersSent = false;
+  /** Whatever was passed to `json()` / `send()`. */
+  body: unknown = undefined;
+  private readonly headerValues: Record<string, string> = {};
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  header(name: string, value: string): this {
+    this.headerValues[name.toLowerCase()] = value;
+    return this;
+  }
+
+  headers(values: Record<string, string>): this {
+    Object.entries(values).forEach(([name, value]) => this.header(name, value));
+    return this;
+  }
+
+  json(data: unknown): void {
+    this.header('content-type', 'application/json');
+    this.send(data);
+  }
+
+  send(data: unknown): void {
+    this.body = data;
+    this.headersSent = true;
+  }
+
+  end(): void {
+    this.headersSent = true;
+  }
+
+  getHeaders(): Record<string, string> {
+    return {...this.headerValues};
+  }
+}
+
+export const DEFAULT_REQUEST: RunRequest = {
+  method: 'POST',
+  path: '/',
+  headers: 'Content-Type: application/json',
+  query: '',
+  body: '{}',
+};
+
+export function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+export function parseQuery(text: string): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const [name, value] of new URLSearchParams(text.replace(/^\?/, ''))) {
+    const existing = query[name];
+    query[name] = existing === undefined ? value : [existing, value].flat();
+  }
+  return query;
+}
+
+export function createMockRequest(request: RunRequest): MockRequest {
+  const headers = parseHeaders(request.headers);
+  const query = request.query.replace(/^\?/, '');
+  let body: unknown = request.body;
+  try {
+    body = request.body.trim() === '' ? undefined : JSON.parse(request.body);
+  } catch {
+    // Left as raw text: BodyParserMiddleware reports it as invalid JSON.
+  }
+  return {
+    method: request.method,
+    path: request.path,
+    url: query ? `${request.path}?${query}` : request.path,
+    headers,
+    query: parseQuery(query),
+    params: {},
+    body,
+    ip: '127.0.0.1',
+    userAgent: headers['user-agent'],
+  };
+}
+
+/**
+ * Reads request defaults from a code block's meta string, e.g.
+ * ```` ```typescript run={"method": "POST", "body": {"name": "Ada"}} ````.
+ * `headers` and `query` may be objects; `body` may be any JSON value.
+ */
+export function parseRunMeta(metastring: string | undefined): RunRequest | null {
+  const match = /(?:^|\s)run(?:=(\{.*\}))?\s*$/.exec(metastring ?? '');
+  if (!match) {
+    return null;
+  }
+  if (!match[1]) {
+    return DEFAULT_REQUEST;
+  }
+  const defaults = JSON.parse(match[1]) as {
+    method?: string;
+    path?: string;
+    headers?: Record<string, string>;
+    query?: Record<string, string>;
+    body?: unknown;
+  };
+  return {
+    method: defaults.method ?? DEFAULT_REQUEST.method,
+    path: defaults.path ?? DEFAULT_REQUEST.path,
+    headers: defaults.headers
+      ? Object.entries(defaults.headers)
+          .map(([name, value]) => `${name}: ${value}`)
+          .join('\n')
+      : DEFAULT_REQUEST.headers,
+    query: defaults.query ? new URLSearchParams(defaults.query).toString() : '',
+    body: defaults.body === undefined ? '' : JSON.stringify(defaults.body, null, 2),
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Lightweight in-browser stand-in for `@noony-serverless/core`, used to run
+ * doc snippets without a backend.
+ *
+ * `Handler` follows the real lifecycle (`before` hooks in registration order,
+ * the handler, `after` hooks in reverse order; on failure every `onError`
+ * hook in reverse order) and records each hook it runs. The built-in
+ * middlewares cover what the guides use, with the documented status codes
+ * and response envelopes.
+ */
+
+import {errorResponseBody} from '../ErrorCatalog/response';
+import type {PipelineStage} from '../PipelineDiagram/pipeline';
+import type {MockRequest, MockResponse} from './request';
+
+export interface Context<T = unknown> {
+  readonly req: MockRequest<T>;
+  readonly res: MockResponse;
+  error?: Error | null;
+  readonly businessData: Map<string, unknown>;
+  user?: unknown;
+  readonly startTime: number;
+  readonly requestId: string;
+  responseData?: unknown;
+}
+
+export interface BaseMiddleware<T = unknown> {
+  before?: (context: Context<T>) => Promise<void> | void;
+  after?: (context: Context<T>) => Promise<void> | void;
+  onError?: (error: Error, context: Context<T>) => Promise<void> | void;
+}
+
+export interface TraceEntry {
+  middleware: string;
+  stage: PipelineStage;
+  durationMs: number;
+  /** Message of the error this step threw. */
+  error?: string;
+}
+
+// Errors
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly code?: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message: string, details?: unknown) {
+    super(400, message, 'VALIDATION_ERROR', details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class AuthenticationError extends HttpError {
+  constructor(message = 'Unauthorized') {
+    super(401, message, 'AUTHENTICATION_ERROR');
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class SecurityError extends HttpError {
+  constructor(message = 'Forbidden') {
+    super(403, message, 'SECURITY_ERROR');
+    this.name = 'SecurityError';
+  }
+}
+
+// Handler
+
+/** Collects every `Handler` created while a snippet module is evaluated. */
+let createdHandlers: Handler[] | null = null;
+
+export function collectHandlers(evaluate: () => void): Handler[] {
+  createdHandlers = [];
+  try {
+    evaluate();
+    return createdHandlers;
+  } finally {
+    createdHandlers = null;
+  }
+}
+
+// Class names don't survive minification, so built-ins name themselves.
+function middlewareName(middleware: BaseMiddleware): string {
+  const named = middleware as BaseMiddleware & {traceName?: string};
+  return named.traceName ?? (middleware.constructor === Object ? 'anonymous middleware' : middleware.constructor.name);
+}
+
+export class Handler<T = unknown> {
+  private readonly middlewares: BaseMiddleware<T>[] = [];
+  private handler?: (context: Context<T>) => unknown;
+
+  constructor() {
+    createdHandlers?.push(this as Handler);
+  }
+
+  use(middleware: BaseMiddleware<T>): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  handle(handler: (context: Context<T>) => unknown): this {
+    this.handler = handler;
+    return this;
+  }
+
+  get hasHandler(): boolean {
+    return this.handler !== undefined;
+  }
+
+  /** Runs the pipeline; pass `trace` to record every hook that ran. */
+  async execute(req: MockRequest<T>, res: MockResponse, trace: TraceEntry[] = []): Promise<Context<T>> {
+    const context: Context<T> = {
+      req,
+      res,
+      error: null,
+      businessData: new Map(),
+      startTime: Date.now(),
+      requestId: globalThis.crypto?.randomUUID?.() ?? `req_${Date.now().toString(36)}`,
+    };
+
+    const step = async (middleware: string, stage: PipelineStage, run: () => unknown) => {
+      const start = performance.now();
+      try {
+        await run();
+        trace.push({middleware, stage, durationMs: performance.now() - start});
+      } catch (error) {
+        trace.push({middleware, stage, durationMs: performance.now() - start, error: (error as Error).message});
+        throw error;
+      }
+    };
+
+    const reversed = [...this.middlewares].reverse();
+    try {
+      for (const middleware of this.middlewares) {
+        if (middleware.before) {
+          await step(middlewareName(middleware), 'before', () => middleware.before!(context));
+        }
+      }
+      await step('handler', 'handler', async () => {
+        if (!this.handler) {
+          throw new Error('No handler: call .handle() before running');
+        }
+        const result = await this.handler(context);
+        if (result !== undefined) {
+          context.responseData = result;
+        }
+      });
+      for (const middleware of reversed) {
+        if (middleware.after) {
+          await step(middlewareName(middleware), 'after', () => middleware.after!(context));
+        }
+      }
+    } catch (error) {
+      context.error = error as Error;
+      for (const middleware of reversed) {
+        if (middleware.onError) {
+          // A failing onError hook is recorded in the trace; the others still run.
+          await step(middlewareName(middleware), 'onError', () => middleware.onError!(error as Error, context)).catch(
+            () => undefined,
+          );
+        }
+      }
+    }
+    return context;
+  }
+}
+
+// Built-in middlewares
+
+export class ErrorHandlerMiddleware implements BaseMiddleware {
+  readonly traceName = 'ErrorHandlerMiddleware';
+
+  async onError(error: Error, context: Context): Promise<void> {
+    if (context.res.headersSent) {
+      return;
+    }
+    // The runner shows what a deployed function (`NODE_ENV=production`) sends.
+    const {status, body} = errorResponseBody(
+      {message: error.message, http: error instanceof HttpError ? error : undefined},
+      'production',
+    );
+    context.res.status(status).json(body);
+  }
+}
+
+export class BodyParserMiddleware implements BaseMiddleware {
+  readonly traceName = 'BodyParserMiddleware';
+
+  async before(context: Context): Promise<void> {
+    const {body} = context.req;
+    if (typeof body !== 'string') {
+      context.req.parsedBody = body;
+      return;
+    }
+    try {
+      context.req.parsedBody = body === '' ? undefined : JSON.parse(body);
+    } catch {
+      throw new ValidationError('Invalid JSON body');
+    }
+  }
+}
+
+/** The slice of a Zod schema the validation middleware relies on. */
+export interface SafeParseSchema<T> {
+  safeParseAsync(
+    data: unknown,
+  ): Promise<
+    {success: true; data: T} | {success: false; error: {issues: {path: PropertyKey[]; message: string}[]}}
+  >;
+}
+
+export class BodyValidationMiddleware<T = unknown> implements BaseMiddleware<T> {
+  readonly traceName = 'BodyValidationMiddleware';
+
+  constructor(private readonly schema: SafeParseSchema<T>) {}
+
+  async before(context: Context<T>): Promise<void> {
+    const result = await this.schema.safeParseAsync(context.req.parsedBody);
+    // Not `!result.success`: without strictNullChecks that doesn't narrow to the failure branch.
+    if (result.success === false) {
+      throw new ValidationError(
+        'Validation error',
+        result.error.issues.map((issue) => ({path: issue.path.map(String).join('.'), message: issue.message})),
+      );
+    }
+    context.req.validatedBody = result.data;
+  }
+}
+
+export class ResponseWrapperMiddleware implements BaseMiddleware {
+  readonly traceName = 'ResponseWrapperMiddleware';
+
+  async after(context: Context): Promise<void> {
+    if (!context.res.headersSent) {
+      context.res.json({success: true, payload: context.responseData, timestamp: new Date().toISOString()});
+    }
+  }
+}
+
+export class HeaderVariablesMiddleware implements BaseMiddleware {
+  readonly traceName = 'HeaderVariablesMiddleware';
+
+  constructor(private readonly requiredHeaders: string[] = []) {}
+
+  async before(context: Context): Promise<void> {
+    for (const name of this.requiredHeaders) {
+      if (!context.req.headers[name.toLowerCase()]) {
+        throw new ValidationError(`Missing required header: ${name}`);
+      }
+    }
+  }
+}
+
+export class QueryParametersMiddleware implements BaseMiddleware {
+  readonly traceName = 'QueryParametersMiddleware';
+
+  constructor(private readonly requiredParams: string[] = []) {}
+
+  async before(context: Context): Promise<void> {
+    for (const name of this.requiredParams) {
+      if (context.req.query[name] === undefined) {
+        throw new ValidationError(`Missing required query parameter: ${name}`);
+      }
+    }
+  }
+}
+
+export interface CustomTokenVerificationPort<U> {
+  verifyToken(token: string): Promise<U>;
+}
+
+export class AuthenticationMiddleware<U = unknown> implements BaseMiddleware {
+  readonly traceName = 'AuthenticationMiddleware';
+
+  constructor(private readonly tokenVerifier: CustomTokenVerificationPort<U>) {}
+
+  async before(context: Context): Promise<void> {
+    const match = /^Bearer\s+(.+)$/i.exec(context.req.headers.authorization ?? '');
+    if (!match) {
+      throw new AuthenticationError('Missing or malformed Authorization header');
+    }
+    try {
+      context.user = await this.tokenVerifier.verifyToken(match[1]);
+    } catch (error) {
+      throw new AuthenticationError((error as Error).message || 'Invalid token');
+    }
+  }
+}
+
+/** What `@noony-serverless/core` resolves to inside a running snippet. */
+export const noonyModule = {
+  Handler,
+  HttpError,
+  ValidationError,
+  AuthenticationError,
+  SecurityError,
+  ErrorHandlerMiddleware,
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+  ResponseWrapperMiddleware,
+  HeaderVariablesMiddleware,
+  QueryParametersMiddleware,
+  AuthenticationMiddleware,
+};
@@ -1,6 +1,7 @@
 import type {ReactNode} from 'react';
 import clsx from 'clsx';
 import Heading from '@theme/Heading';
+import Translate, {translate} from '@docusaurus/Translate';
 import styles from './styles.module.css';
 
 type FeatureItem = {
@@ -12,76 +13,76 @@ type FeatureItem = {
 
 const FeatureList: FeatureItem[] = [
   {
-    title: 'Lightning Fast Performance',
+    title: translate({id: 'homepage.features.performance.title', message: 'Lightning Fast Performance'}),
     icon: '⚡',
     description: (
-      <>
-        Deploy functions in milliseconds with our optimized runtime. 
-        Cold starts under 50ms and automatic scaling ensure your applications 
+      <Translate id="homepage.features.performance.description">
+        Deploy functions in milliseconds with our optimized runtime.
+        Cold starts under 50ms and automatic scaling ensure your applications
         respond instantly to user demands, no matter the load.
-      </>
+      </Translate>
     ),
-    metrics: '10x faster cold starts',
+    metrics: translate({id: 'homepage.features.performance.metric', message: '10x faster cold starts'}),
   },
   {
-    title: 'Auto-Scaling Excellence',
+    title: translate({id: 'homepage.features.scaling.title', message: 'Auto-Scaling Excellence'}),
     icon: '🚀',
     description: (
-      <>
-        Scale from zero to millions of requests seamlessly. Our intelligent 
-        auto-scaling monitors your application patterns and adjusts resources 
+      <Translate id="homepage.features.scaling.description">
+        Scale from zero to millions of requests seamlessly. Our intelligent
+        auto-scaling monitors your application patterns and adjusts resources
         automatically, ensuring optimal performance and cost efficiency.
-      </>
+      </Translate>
     ),
-    metrics: '0 to 1M requests/sec',
+    metrics: translate({id: 'homepage.features.scaling.metric', message: '0 to 1M requests/sec'}),
   },
   {
-    title: 'Developer-First Experience',
+    title: translate({id: 'homepage.features.developerExperience.title', message: 'Developer-First Experience'}),
     icon: '👨‍💻',
     description: (
-      <>
-        Focus on code, not infrastructure. With hot reloading, built-in debugging, 
-        integrated monitoring, and one-command deployments, you'll ship features 
+      <Translate id="homepage.features.developerExperience.description">
+        Focus on code, not infrastructure. With hot reloading, built-in debugging,
+        integrated monitoring, and one-command deployments, you'll ship features
         faster than ever before.
-      </>
+      </Translate>
     ),
-    metrics: '5-minute deployments',
+    metrics: translate({id: 'homepage.features.developerExperience.metric', message: '5-minute deployments'}),
   },
   {
-    title: 'Enterprise Security',
+    title: translate({id: 'homepage.features.security.title', message: 'Enterprise Security'}),
     icon: '🔒',
     description: (
-      <>
+      <Translate id="homepage.features.security.description">
         Bank-grade security with automatic encryption, built-in authentication,
-        and compliance with SOC 2, GDPR, and HIPAA standards. Your data and 
+        and compliance with SOC 2, GDPR, and HIPAA standards. Your data and
         your users are always protected.
-      </>
+      </Translate>
     ),
-    metrics: 'SOC 2 Type II certified',
+    metrics: translate({id: 'homepage.features.security.metric', message: 'SOC 2 Type II certified'}),
   },
   {
-    title: 'Cost-Effective Scaling',
+    title: translate({id: 'homepage.features.cost.title', message: 'Cost-Effective Scaling'}),
     icon: '💰',
     description: (
-      <>
-        Pay only for what you use with sub-second billing. Our efficient 
-        runtime reduces costs by up to 70% compared to traditional cloud 
+      <Translate id="homepage.features.cost.description">
+        Pay only for what you use with sub-second billing. Our efficient
+        runtime reduces costs by up to 70% compared to traditional cloud
         solutions while delivering superior performance.
-      </>
+      </Translate>
     ),
-    metrics: 'Up to 70% cost savings',
+    metrics: translate({id: 'homepage.features.cost.metric', message: 'Up to 70% cost savings'}),
   },
   {
-    title: 'Multi-Cloud Native',
+    title: translate({id: 'homepage.features.multiCloud.title', message: 'Multi-Cloud Native'}),
     icon: '☁️',
     description: (
-      <>
-        Deploy anywhere without vendor lock-in. Our framework runs on AWS, 
-        Google Cloud, Azure, and edge networks, giving you flexibility and 
+      <Translate id="homepage.features.multiCloud.description">
+        Deploy anywhere without vendor lock-in. Our framework runs on AWS,
+        Google Cloud, Azure, and edge networks, giving you flexibility and
         redundancy for mission-critical applications.
-      </>
+      </Translate>
     ),
-    metrics: '99.99% uptime SLA',
+    metrics: translate({id: 'homepage.features.multiCloud.metric', message: '99.99% uptime SLA'}),
   },
 ];
 
@@ -110,11 +111,23 @@ export default function HomepageFeatures(): ReactNode {
       <div className="container">
         <div className="text--center margin-bottom--xl">
           <Heading as="h2" className={styles.featuresTitle}>
-            Why Choose <span className="text-gradient">CloudFlow Functions</span>?
+            <Translate
+              id="homepage.features.title"
+              values={{
+                product: (
+                  <span className="text-gradient">
+                    <Translate id="homepage.features.title.product">CloudFlow Functions</Translate>
+                  </span>
+                ),
+              }}>
+              {'Why Choose {product}?'}
+            </Translate>
           </Heading>
           <p className={styles.featuresSubtitle}>
-            Built from the ground up for modern cloud-native applications, 
-            CloudFlow delivers unmatched performance, scalability, and developer experience.
+            <Translate id="homepage.features.subtitle">
+              Built from the ground up for modern cloud-native applications, CloudFlow delivers unmatched
+              performance, scalability, and developer experience.
+            </Translate>
           </p>
         </div>
         <div className="row">
@@ -122,28 +135,38 @@ export default function HomepageFeatures(): ReactNode {
             <Feature key={idx} {...props} />
           ))}
         </div>
-        
+
         {/* Trust indicators */}
         <div className={styles.trustSection}>
           <div className="text--center margin-bottom--lg">
-            <h3 className={styles.trustTitle}>Trusted by thousands of developers worldwide</h3>
+            <h3 className={styles.trustTitle}>
+              <Translate id="homepage.trust.title">Trusted by thousands of developers worldwide</Translate>
+            </h3>
           </div>
           <div className={styles.trustMetrics}>
             <div className={styles.trustMetric}>
               <div className={styles.trustNumber}>500K+</div>
-              <div className={styles.trustLabel}>Functions Deployed</div>
+              <div className={styles.trustLabel}>
+                <Translate id="homepage.trust.functionsDeployed">Functions Deployed</Translate>
+              </div>
             </div>
             <div className={styles.trustMetric}>
               <div className={styles.trustNumber}>10B+</div>
-              <div className={styles.trustLabel}>Monthly Invocations</div>
+              <div className={styles.trustLabel}>
+                <Translate id="homepage.trust.monthlyInvocations">Monthly Invocations</Translate>
+              </div>
             </div>
             <div className={styles.trustMetric}>
               <div className={styles.trustNumber}>99.99%</div>
-              <div className={styles.trustLabel}>Uptime SLA</div>
+              <div className={styles.trustLabel}>
+                <Translate id="homepage.trust.uptime">Uptime SLA</Translate>
+              </div>
             </div>
             <div className={styles.trustMetric}>
               <div className={styles.trustNumber}>50ms</div>
-              <div className={styles.trustLabel}>Avg Cold Start</div>
+              <div className={styles.trustLabel}>
+                <Translate id="homepage.trust.coldStart">Avg Cold Start</Translate>
+              </div>
             </div>
           </div>
         </div>
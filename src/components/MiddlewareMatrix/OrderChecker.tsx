@@ -0,0 +1,156 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import {checkChain, parseChain, type ChainIssue} from './check';
+import {MIDDLEWARES} from './registry';
+import styles from './styles.module.css';
+
+export interface MiddlewareOrderCheckerProps {
+  /** Handler source (or one middleware name per line) shown when the checker first renders. */
+  chain?: string;
+}
+
+interface Preset {
+  label: string;
+  chain: string;
+}
+
+const PRESETS: Preset[] = [
+  {
+    label: 'Recommended order',
+    chain: `new Handler<CreateUserRequest, AuthUser>()
+  .use(new ErrorHandlerMiddleware())
+  .use(new AuthenticationMiddleware(tokenVerifier))
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(createUserSchema))
+  .use(new ResponseWrapperMiddleware())
+  .handle(createUser);`,
+  },
+  {
+    label: 'Validation before parsing',
+    chain: `new Handler<CreateUserRequest>()
+  .use(new BodyValidationMiddleware(createUserSchema))
+  .use(new ErrorHandlerMiddleware())
+  .use(new BodyParserMiddleware())
+  .handle(createUser);`,
+  },
+  {
+    label: 'Guard plus authentication',
+    chain: `new Handler<UpdateOrderRequest, AuthUser>()
+  .use(new ErrorHandlerMiddleware())
+  .use(new AuthenticationMiddleware(tokenVerifier))
+  .use(RouteGuards.requirePermissions(['order:update']))
+  .use(new BodyParserMiddleware())
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(updateOrderSchema))
+  .handle(updateOrder);`,
+  },
+];
+
+const SEVERITY_LABELS: Record<ChainIssue['severity'], string> = {
+  error: 'Error',
+  warning: 'Warning',
+  info: 'Note',
+};
+
+function appendUse(source: string, name: string): string {
+  const call = name.includes('.') ? `${name}()` : `new ${name}()`;
+  const handle = source.lastIndexOf('.handle(');
+  if (handle === -1) {
+    return `${source.trimEnd()}\n  .use(${call})`;
+  }
+  return `${source.slice(0, handle).trimEnd()}\n  .use(${call})\n  ${source.slice(handle)}`;
+}
+
+/** Flags ordering problems, missing prerequisites and duplicated work in a `.use()` chain. */
+export default function MiddlewareOrderChecker({chain: initialChain = PRESETS[0].chain}: MiddlewareOrderCheckerProps): ReactNode {
+  const id = React.useId();
+  const [source, setSource] = React.useState(initialChain);
+
+  const chain = React.useMemo(() => parseChain(source), [source]);
+  const issues = React.useMemo(() => checkChain(chain), [chain]);
+  const worst = (index: number) => issues.find((issue) => issue.index === index)?.severity;
+
+  return (
+    <div className={styles.checker}>
+      <div className={styles.toolbar}>
+        <label className={styles.control}>
+          Example
+          <select value="" onChange={(event) => setSource(PRESETS[Number(event.target.value)].chain)}>
+            <option value="" disabled>
+              Load an example…
+            </option>
+            {PRESETS.map((preset, index) => (
+              <option key={preset.label} value={index}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.control}>
+          Add a middleware
+          <select value="" onChange={(event) => setSource(appendUse(source, event.target.value))}>
+            <option value="" disabled>
+              Pick a built-in…
+            </option>
+            {MIDDLEWARES.map((middleware) => (
+              <option key={middleware.name} value={middleware.name}>
+                {middleware.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.inputs}>
+        <div className={styles.control}>
+          <label htmlFor={`${id}-chain`}>Handler chain</label>
+          <textarea
+            id={`${id}-chain`}
+            className={styles.editor}
+            rows={10}
+            spellCheck={false}
+            value={source}
+            onChange={(event) => setSource(event.target.value)}
+          />
+          <span className={styles.hint}>
+            Paste a <code>new Handler()</code> with its <code>.use()</code> calls, or one middleware name per line.
+          </span>
+        </div>
+
+        <div className={styles.control}>
+          <span>Chain order</span>
+          <ol className={styles.chain}>
+            {chain.map((entry, index) => (
+              <li key={index} className={clsx(styles.step, worst(index) && styles[worst(index)!])}>
+                <code>{entry.name}</code>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+
+      <div className={styles.result} aria-live="polite">
+        {!chain.length ? (
+          <p className={styles.hint}>No middlewares found.</p>
+        ) : issues.length ? (
+          <ul className={styles.issues}>
+            {issues.map((issue, index) => (
+              <li key={index}>
+                <span className={clsx(styles.badge, styles[issue.severity])}>{SEVERITY_LABELS[issue.severity]}</span>
+                <span>
+                  {issue.index !== undefined && <strong>#{issue.index + 1}</strong>} {issue.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p>
+            <span className={clsx(styles.badge, styles.ok)}>OK</span> No ordering problems, missing prerequisites or
+            duplicated work.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import {
+  findMiddleware,
+  MIDDLEWARES,
+  PROVIDED_FIELDS,
+  type ContextField,
+  type MiddlewareDuty,
+  type MiddlewareMeta,
+} from './registry';
+
+/**
+ * Checks a `.use()` chain against the middleware registry:
+ * - order: a middleware runs before the one that sets a field it reads, is
+ *   out of its required first/last position, or breaks the recommended order
+ * - prerequisite: nothing in the chain sets a field a middleware reads
+ * - duplicate: the same middleware twice, or two middlewares doing the same work
+ */
+
+export type ChainIssueKind = 'order' | 'prerequisite' | 'duplicate' | 'unknown';
+
+export type ChainIssueSeverity = 'error' | 'warning' | 'info';
+
+export interface ChainIssue {
+  kind: ChainIssueKind;
+  severity: ChainIssueSeverity;
+  /** Position of the offending `.use()` in the chain; omitted for the chain as a whole. */
+  index?: number;
+  message: string;
+}
+
+export interface ChainEntry {
+  /** Name as written in the chain, e.g. `RouteGuards.requirePermissions`. */
+  name: string;
+  meta?: MiddlewareMeta;
+}
+
+const DUTY_LABELS: Record<MiddlewareDuty, string> = {
+  'error-formatting': 'format errors',
+  'body-parsing': 'parse the body',
+  'body-validation': 'validate the body',
+  'token-verification': 'verify the token',
+  'permission-check': 'check permissions',
+  'header-extraction': 'check headers',
+  'query-extraction': 'process query parameters',
+  'path-extraction': 'extract path parameters',
+  'response-wrapping': 'wrap the response',
+  'security-headers': 'set security headers',
+  'rate-limiting': 'rate-limit requests',
+  'audit-logging': 'write audit logs',
+  tracing: 'trace the request',
+  'service-injection': 'inject services',
+};
+
+const SEVERITY_ORDER: ChainIssueSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Middleware names of every `.use()` call, in order: `new X<T>(...)` gives
+ * `X`, a factory call such as `RouteGuards.requireAuth(...)` gives
+ * `RouteGuards.requireAuth`. Without any `.use()`, each line is read as one
+ * middleware name.
+ */
+export function parseChain(source: string): ChainEntry[] {
+  const uses = [...source.matchAll(/\.use\(\s*(?:new\s+)?([\w$]+(?:\.[\w$]+)*)/g)].map((match) => match[1]);
+  const names = uses.length
+    ? uses
+    : source
+        .split('\n')
+        .map((line) => line.replace(/^\s*(?:new\s+)?/, '').replace(/[<(].*$/, '').trim())
+        .filter((line) => /^[\w$.]+$/.test(line));
+  return names.map((name) => ({name, meta: findMiddleware(name)}));
+}
+
+function writersOf(field: ContextField): string {
+  return MIDDLEWARES.filter((meta) => meta.writes.includes(field))
+    .map((meta) => meta.name)
+    .join(' or ');
+}
+
+function fieldIssues(chain: ChainEntry[]): ChainIssue[] {
+  const issues: ChainIssue[] = [];
+  chain.forEach(({name, meta}, index) => {
+    for (const field of meta?.reads ?? []) {
+      const setEarlier = chain.slice(0, index).some((entry) => entry.meta?.writes.includes(field));
+      if (PROVIDED_FIELDS.includes(field) || setEarlier) {
+        continue;
+      }
+      const later = chain.slice(index + 1).find((entry) => entry.meta?.writes.includes(field));
+      issues.push(
+        later
+          ? {
+              kind: 'order',
+              severity: 'error',
+              index,
+              message: `${name} reads ${field}, which ${later.name} only sets after it. Move ${later.name} up.`,
+            }
+          : {
+              kind: 'prerequisite',
+              severity: 'error',
+              index,
+              message: `${name} reads ${field}, but nothing before it sets it. Add ${writersOf(field)} first.`,
+            },
+      );
+    }
+  });
+  return issues;
+}
+
+function positionIssues(chain: ChainEntry[]): ChainIssue[] {
+  const issues: ChainIssue[] = [];
+  chain.forEach(({name, meta}, index) => {
+    if (meta?.position === 'first' && index !== 0) {
+      issues.push({
+        kind: 'order',
+        severity: 'error',
+        index,
+        message: `${name} has to be the first middleware, or errors thrown by the ones before it are not formatted.`,
+      });
+    }
+    if (meta?.position === 'last' && index !== chain.length - 1) {
+      issues.push({
+        kind: 'order',
+        severity: 'warning',
+        index,
+        message: `${name} should be the last middleware of the chain.`,
+      });
+    }
+  });
+  if (chain.length && !chain.some((entry) => entry.meta?.position === 'first')) {
+    issues.push({
+      kind: 'prerequisite',
+      severity: 'warning',
+      message: 'No ErrorHandlerMiddleware: thrown errors reach the runtime as unformatted 500 responses.',
+    });
+  }
+  return issues;
+}
+
+/** Recommended-order warnings, skipped for pairs already reported as a field ordering error. */
+function rankIssues(chain: ChainEntry[], reported: Set<number>): ChainIssue[] {
+  const issues: ChainIssue[] = [];
+  chain.forEach(({name, meta}, index) => {
+    if (!meta || meta.position || reported.has(index)) {
+      return;
+    }
+    const earlier = chain
+      .slice(0, index)
+      .find((entry, i) => entry.meta && !entry.meta.position && entry.meta.rank > meta.rank && !reported.has(i));
+    if (earlier) {
+      issues.push({
+        kind: 'order',
+        severity: 'warning',
+        index,
+        message: `${name} usually runs before ${earlier.name} (see "Middleware Order Best Practices").`,
+      });
+    }
+  });
+  return issues;
+}
+
+function duplicateIssues(chain: ChainEntry[]): ChainIssue[] {
+  const issues: ChainIssue[] = [];
+  chain.forEach(({name, meta}, index) => {
+    const earlier = chain.slice(0, index);
+    if (earlier.some((entry) => entry.name === name)) {
+      issues.push({kind: 'duplicate', severity: 'warning', index, message: `${name} is used twice.`});
+      return;
+    }
+    for (const duty of meta?.duties ?? []) {
+      const other = earlier.find((entry) => entry.meta?.duties.includes(duty));
+      if (other) {
+        issues.push({
+          kind: 'duplicate',
+          severity: 'warning',
+          index,
+          message: `${other.name} and ${name} both ${DUTY_LABELS[duty]}; keep one of them.`,
+        });
+      }
+    }
+  });
+  return issues;
+}
+
+function unknownIssues(chain: ChainEntry[]): ChainIssue[] {
+  return chain.flatMap(({name, meta}, index) =>
+    meta
+      ? []
+      : [
+          {
+            kind: 'unknown' as const,
+            severity: 'info' as const,
+            index,
+            message: `${name} is not a built-in middleware, so its reads and writes are not checked.`,
+          },
+        ],
+  );
+}
+
+/** Every issue in the chain, most severe first, then in chain order. */
+export function checkChain(chain: ChainEntry[]): ChainIssue[] {
+  const fields = fieldIssues(chain);
+  const reported = new Set(fields.filter((issue) => issue.kind === 'order').map((issue) => issue.index));
+  return [
+    ...fields,
+    ...positionIssues(chain),
+    ...rankIssues(chain, reported),
+    ...duplicateIssues(chain),
+    ...unknownIssues(chain),
+  ].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || (a.index ?? -1) - (b.index ?? -1),
+  );
+}
@@ -0,0 +1,78 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Link from '@docusaurus/Link';
+import {
+  CATEGORY_LABELS,
+  CONTEXT_FIELDS,
+  MIDDLEWARES,
+  type ContextField,
+  type MiddlewareCategory,
+  type MiddlewareMeta,
+} from './registry';
+import styles from './styles.module.css';
+
+export {default as MiddlewareOrderChecker} from './OrderChecker';
+
+function Access({middleware, field}: {middleware: MiddlewareMeta; field: ContextField}) {
+  const reads = middleware.reads.includes(field);
+  const writes = middleware.writes.includes(field);
+  if (!reads && !writes) {
+    return <td className={styles.cell} />;
+  }
+  const label = reads && writes ? 'Reads and writes' : reads ? 'Reads' : 'Writes';
+  return (
+    <td className={clsx(styles.cell, writes ? styles.write : styles.read)} title={`${label} ${field}`}>
+      <span aria-label={label}>{reads && writes ? 'RW' : reads ? 'R' : 'W'}</span>
+    </td>
+  );
+}
+
+/** Which `Context` fields each built-in middleware reads (R) and writes (W). */
+export default function MiddlewareMatrix(): ReactNode {
+  const categories = Object.keys(CATEGORY_LABELS) as MiddlewareCategory[];
+  return (
+    <div className={styles.matrix}>
+      <table>
+        <thead>
+          <tr>
+            <th>Middleware</th>
+            <th>Hooks</th>
+            {CONTEXT_FIELDS.map((field) => (
+              <th key={field} className={styles.field}>
+                <code>{field}</code>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        {categories.map((category) => (
+          <tbody key={category}>
+            <tr>
+              <th colSpan={CONTEXT_FIELDS.length + 2} className={styles.category}>
+                {CATEGORY_LABELS[category]}
+              </th>
+            </tr>
+            {MIDDLEWARES.filter((middleware) => middleware.category === category).map((middleware) => (
+              <tr key={middleware.name}>
+                <th scope="row" className={styles.name} title={middleware.summary}>
+                  {middleware.docs ? (
+                    <Link to={middleware.docs}>
+                      <code>{middleware.name}</code>
+                    </Link>
+                  ) : (
+                    <code>{middleware.name}</code>
+                  )}
+                  {middleware.position && <span className={styles.position}>{middleware.position}</span>}
+                </th>
+                <td className={styles.hooks}>{middleware.hooks.join(', ')}</td>
+                {CONTEXT_FIELDS.map((field) => (
+                  <Access key={field} middleware={middleware} field={field} />
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        ))}
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+/**
+ * Metadata for the built-in middlewares: which `Context` fields each one
+ * reads and writes, where it belongs in a `.use()` chain and what work it
+ * does. The compatibility matrix and the order checker are both derived
+ * from it, so add new built-ins here rather than to the docs by hand.
+ */
+
+export type ContextField =
+  | 'req.body'
+  | 'req.headers'
+  | 'req.query'
+  | 'req.params'
+  | 'req.parsedBody'
+  | 'req.validatedBody'
+  | 'user'
+  | 'container'
+  | 'error'
+  | 'responseData'
+  | 'res.headers';
+
+export type MiddlewareCategory = 'core' | 'auth' | 'data' | 'security' | 'observability';
+
+export type MiddlewareHook = 'before' | 'after' | 'onError';
+
+/** Work that two middlewares in the same chain should not both do. */
+export type MiddlewareDuty =
+  | 'error-formatting'
+  | 'body-parsing'
+  | 'body-validation'
+  | 'token-verification'
+  | 'permission-check'
+  | 'header-extraction'
+  | 'query-extraction'
+  | 'path-extraction'
+  | 'response-wrapping'
+  | 'security-headers'
+  | 'rate-limiting'
+  | 'audit-logging'
+  | 'tracing'
+  | 'service-injection';
+
+export interface MiddlewareMeta {
+  /** Class name, or `RouteGuards.<method>` for guard factories. */
+  name: string;
+  category: MiddlewareCategory;
+  summary: string;
+  /** Site path of the guide, without the baseUrl. */
+  docs?: string;
+  hooks: MiddlewareHook[];
+  reads: ContextField[];
+  writes: ContextField[];
+  duties: MiddlewareDuty[];
+  /** Where the chain order from "Middleware Order Best Practices" puts it; lower runs earlier. */
+  rank: number;
+  /** Has to be the first or the last `.use()` of the chain. */
+  position?: 'first' | 'last';
+}
+
+export const CONTEXT_FIELDS: ContextField[] = [
+  'req.body',
+  'req.headers',
+  'req.query',
+  'req.params',
+  'req.parsedBody',
+  'req.validatedBody',
+  'user',
+  'container',
+  'error',
+  'responseData',
+  'res.headers',
+];
+
+/** Set by the runtime adapter, a thrown error or the handler result rather than by a middleware. */
+export const PROVIDED_FIELDS: ContextField[] = ['req.body', 'req.headers', 'req.query', 'req.params', 'error', 'responseData'];
+
+export const CATEGORY_LABELS: Record<MiddlewareCategory, string> = {
+  core: 'Core',
+  auth: 'Authentication & Authorization',
+  data: 'Data Processing',
+  security: 'Security',
+  observability: 'Observability',
+};
+
+const GUARD_BASE = {
+  category: 'auth',
+  hooks: ['before'],
+  reads: ['req.headers'],
+  writes: ['user'],
+  duties: ['token-verification', 'permission-check'],
+  rank: 4,
+  docs: '/docs/authentication/RouteGuards-Complete-Guide',
+} satisfies Partial<MiddlewareMeta>;
+
+export const MIDDLEWARES: MiddlewareMeta[] = [
+  {
+    name: 'ErrorHandlerMiddleware',
+    category: 'core',
+    summary: 'Turns context.error into an HTTP status and a JSON error body',
+    docs: '/docs/middlewares/errorHandlerMiddleware',
+    hooks: ['onError'],
+    reads: ['error'],
+    writes: ['responseData'],
+    duties: ['error-formatting'],
+    rank: 0,
+    position: 'first',
+  },
+  {
+    name: 'BodyParserMiddleware',
+    category: 'core',
+    summary: 'Parses JSON, form data and base64 Pub/Sub payloads',
+    docs: '/docs/middlewares/BodyParserMiddleware-Guide',
+    hooks: ['before'],
+    reads: ['req.body'],
+    writes: ['req.parsedBody'],
+    duties: ['body-parsing'],
+    rank: 5,
+  },
+  {
+    name: 'BodyValidationMiddleware',
+    category: 'core',
+    summary: 'Validates the parsed body against a Zod schema',
+    docs: '/docs/middlewares/BodyValidationMiddleware-Guide',
+    hooks: ['before'],
+    reads: ['req.parsedBody'],
+    writes: ['req.validatedBody'],
+    duties: ['body-validation'],
+    rank: 6,
+  },
+  {
+    name: 'ResponseWrapperMiddleware',
+    category: 'core',
+    summary: 'Wraps the handler result in a { success, payload, timestamp } envelope',
+    hooks: ['after'],
+    reads: ['responseData'],
+    writes: ['responseData'],
+    duties: ['response-wrapping'],
+    rank: 9,
+    position: 'last',
+  },
+  {
+    name: 'AuthenticationMiddleware',
+    category: 'auth',
+    summary: 'Verifies the bearer token and sets the user',
+    docs: '/docs/authentication/TokenValidatorFactory-AuthenticationMiddleware-Integration',
+    hooks: ['before'],
+    reads: ['req.headers'],
+    writes: ['user'],
+    duties: ['token-verification'],
+    rank: 4,
+  },
+  {...GUARD_BASE, name: 'RouteGuards.requirePermissions', summary: 'Token check plus plain permission lookup'},
+  {...GUARD_BASE, name: 'RouteGuards.requireWildcardPermissions', summary: 'Token check plus wildcard permission patterns'},
+  {...GUARD_BASE, name: 'RouteGuards.requireComplexPermissions', summary: 'Token check plus a boolean permission expression'},
+  {
+    name: 'HeaderVariablesMiddleware',
+    category: 'data',
+    summary: 'Checks that the required headers are present',
+    docs: '/docs/middlewares/headerVariablesMiddleware',
+    hooks: ['before'],
+    reads: ['req.headers'],
+    writes: [],
+    duties: ['header-extraction'],
+    rank: 5,
+  },
+  {
+    name: 'QueryParametersMiddleware',
+    category: 'data',
+    summary: 'Checks and normalizes the query string parameters',
+    docs: '/docs/middlewares/queryParametersMiddleware',
+    hooks: ['before'],
+    reads: ['req.query'],
+    writes: ['req.query'],
+    duties: ['query-extraction'],
+    rank: 5,
+  },
+  {
+    name: 'PathParametersMiddleware',
+    category: 'data',
+    summary: 'Extracts the path parameters of the route',
+    docs: '/docs/middlewares/httpAttributesMiddleware',
+    hooks: ['before'],
+    reads: ['req.params'],
+    writes: ['req.params'],
+    duties: ['path-extraction'],
+    rank: 5,
+  },
+  {
+    name: 'DependencyInjectionMiddleware',
+    category: 'data',
+    summary: 'Registers services in the request container',
+    docs: '/docs/middlewares/DependencyInjectionMiddleware-Guide',
+    hooks: ['before'],
+    reads: [],
+    writes: ['container'],
+    duties: ['service-injection'],
+    rank: 7,
+  },
+  {
+    name: 'SecurityHeadersMiddleware',
+    category: 'security',
+    summary: 'Adds CSP, CORS and other security headers',
+    hooks: ['before'],
+    reads: [],
+    writes: ['res.headers'],
+    duties: ['security-headers'],
+    rank: 1,
+  },
+  {
+    name: 'RateLimitingMiddleware',
+    category: 'security',
+    summary: 'Sliding-window rate limiting per client',
+    hooks: ['before'],
+    reads: ['req.headers'],
+    writes: ['res.headers'],
+    duties: ['rate-limiting'],
+    rank: 2,
+  },
+  {
+    name: 'SecurityAuditMiddleware',
+    category: 'security',
+    summary: 'Logs security events and failed requests',
+    hooks: ['after', 'onError'],
+    reads: ['req.headers', 'error'],
+    writes: [],
+    duties: ['audit-logging'],
+    rank: 3,
+  },
+  {
+    name: 'OpenTelemetryMiddleware',
+    category: 'observability',
+    summary: 'Opens a span per request and returns the trace headers',
+    docs: '/docs/advanced/opentelemetry-integration',
+    hooks: ['before', 'after', 'onError'],
+    reads: ['req.headers'],
+    writes: ['res.headers'],
+    duties: ['tracing'],
+    rank: 1,
+  },
+];
+
+const BY_NAME = new Map(MIDDLEWARES.map((middleware) => [middleware.name, middleware]));
+
+/** Looks up a middleware by class name or `RouteGuards.<method>`, ignoring generics and call arguments. */
+export function findMiddleware(name: string): MiddlewareMeta | undefined {
+  return BY_NAME.get(name.replace(/[<(].*$/, '').trim());
+}
@@ -0,0 +1,166 @@
+import {
+  buildPipelineSteps,
+  HANDLER_NODE,
+  type PipelineHandler,
+  type PipelineMiddleware,
+  type PipelineStage,
+} from '../PipelineDiagram/pipeline';
+
+/**
+ * Renders the pipeline model shared with `<PipelineDiagram>` as Mermaid
+ * source, so every middleware chain in the docs is drawn the same way.
+ *
+ * The request path decides which step throws:
+ * - `validation`: the first middleware that throws `ValidationError`
+ * - `auth`: the first guard, or middleware that throws an authentication error
+ * - `error`: the business handler
+ */
+
+export type SequencePath = 'success' | 'validation' | 'auth' | 'error';
+
+export type DiagramVariant = 'sequence' | 'flow';
+
+export const SEQUENCE_PATHS: SequencePath[] = ['success', 'validation', 'auth', 'error'];
+
+const AUTH_ERRORS = ['AuthenticationError', 'SecurityError'];
+
+const STAGE_CALLS: Record<PipelineStage, string> = {
+  before: 'before()',
+  handler: 'handle()',
+  after: 'after()',
+  onError: 'onError()',
+};
+
+/** Name passed to `buildPipelineSteps` as `errorAt`; undefined for the success path. */
+export function failingStep(middlewares: PipelineMiddleware[], path: SequencePath): string | undefined {
+  switch (path) {
+    case 'success':
+      return undefined;
+    case 'error':
+      return HANDLER_NODE;
+    case 'validation':
+      return middlewares.find((middleware) => middleware.throws === 'ValidationError')?.name;
+    case 'auth':
+      return middlewares.find(
+        (middleware) => middleware.kind === 'guard' || AUTH_ERRORS.includes(middleware.throws ?? ''),
+      )?.name;
+  }
+}
+
+/** Problems that would draw a misleading diagram; the component shows them instead of drawing it. */
+export function validateSequence(
+  middlewares: PipelineMiddleware[],
+  handler: PipelineHandler,
+  path: SequencePath,
+): string[] {
+  const errors: string[] = [];
+  if (!SEQUENCE_PATHS.includes(path)) {
+    errors.push(`Unknown path "${path}" (expected one of ${SEQUENCE_PATHS.join(', ')}).`);
+    return errors;
+  }
+  const names = middlewares.map((middleware) => middleware.name);
+  names.forEach((name, index) => {
+    if (!name.trim()) {
+      errors.push(`Middleware #${index + 1} has no name.`);
+    } else if (names.indexOf(name) !== index) {
+      errors.push(`Middleware "${name}" appears more than once.`);
+    }
+  });
+  if (handler.name === HANDLER_NODE || names.includes(HANDLER_NODE)) {
+    errors.push(`"${HANDLER_NODE}" is reserved for the business handler.`);
+  }
+  if (path === 'validation' && !failingStep(middlewares, path)) {
+    errors.push('The validation path needs a middleware with throws: "ValidationError".');
+  }
+  if (path === 'auth' && !failingStep(middlewares, path)) {
+    errors.push(`The auth path needs a guard or a middleware that throws ${AUTH_ERRORS.join(' or ')}.`);
+  }
+  return errors;
+}
+
+/** Mermaid treats `;` as a statement separator and `#` as an entity prefix. */
+function escapeText(text: string): string {
+  return text.replace(/[#;]/g, (char) => (char === '#' ? '#35;' : '#59;'));
+}
+
+function escapeLabel(text: string): string {
+  return escapeText(text).replace(/"/g, '#quot;');
+}
+
+function nodeId(node: number, middlewares: PipelineMiddleware[]): string {
+  return node === middlewares.length ? 'H' : `M${node}`;
+}
+
+function handlerLabel(handler: PipelineHandler): string {
+  return handler.name ?? 'handler';
+}
+
+export function sequenceDiagram(
+  middlewares: PipelineMiddleware[],
+  handler: PipelineHandler,
+  path: SequencePath,
+  notes = false,
+): string {
+  const steps = buildPipelineSteps(middlewares, handler, failingStep(middlewares, path));
+  const lines = [
+    'sequenceDiagram',
+    '    participant C as Client',
+    ...middlewares.map((middleware, index) => `    participant M${index} as ${escapeText(middleware.name)}`),
+    `    participant H as ${escapeText(handlerLabel(handler))}`,
+  ];
+
+  let from = 'C';
+  let thrown: string | undefined;
+  for (const step of steps) {
+    const to = nodeId(step.node, middlewares);
+    const arrow = step.stage === 'after' ? '-->>' : step.stage === 'onError' ? '--)' : '->>';
+    lines.push(`    ${from}${arrow}${to}: ${STAGE_CALLS[step.stage]}`);
+    if (step.failed) {
+      thrown = step.context.error;
+      lines.push(`    Note over ${to}: throws ${escapeText(thrown)}`);
+    } else if (notes) {
+      lines.push(`    Note right of ${to}: ${escapeText(step.description)}`);
+    }
+    from = to;
+  }
+
+  const handled = steps.some((step) => step.stage === 'onError');
+  if (thrown && !handled) {
+    lines.push(`    ${from}--xC: unhandled ${escapeText(thrown)}`);
+  } else {
+    lines.push(`    ${from}-->>C: ${thrown ? 'error response' : 'response'}`);
+  }
+  return lines.join('\n');
+}
+
+export function flowDiagram(middlewares: PipelineMiddleware[], handler: PipelineHandler, path: SequencePath): string {
+  const steps = buildPipelineSteps(middlewares, handler, failingStep(middlewares, path));
+  const failed = steps.find((step) => step.failed);
+  const lines = ['flowchart LR', '    C([Client])'];
+
+  middlewares.forEach((middleware, index) => {
+    const label = escapeLabel(middleware.name);
+    lines.push(middleware.kind === 'guard' ? `    M${index}{{"${label}"}}` : `    M${index}["${label}"]`);
+  });
+  lines.push(`    H[["${escapeLabel(handlerLabel(handler))}"]]`, '    R([Response])');
+
+  const chain = ['C', ...middlewares.map((_, index) => `M${index}`), 'H', 'R'];
+  lines.push(`    ${chain.join(' --> ')}`);
+
+  if (failed) {
+    // Walk back through the onError hooks, then out as an error response
+    const handlers = steps.filter((step) => step.stage === 'onError').map((step) => nodeId(step.node, middlewares));
+    const errorPath = [nodeId(failed.node, middlewares), ...handlers, 'E'];
+    const unhandled = handlers.length === 0;
+    lines.push(`    E([${unhandled ? 'Unhandled error' : 'Error response'}])`);
+    lines.push(`    ${errorPath[0]} -. ${escapeText(failed.context.error)} .-> ${errorPath.slice(1).join(' -.-> ')}`);
+    lines.push('    classDef failed stroke:#d32f2f,stroke-width:2px', `    class ${errorPath[0]},E failed`);
+  }
+
+  // Everything after the step that threw never runs
+  const skipped = failed ? [...chain.slice(failed.node + 2, -1), 'R'] : [];
+  if (skipped.length) {
+    lines.push('    classDef skipped opacity:0.45', `    class ${skipped.join(',')} skipped`);
+  }
+  return lines.join('\n');
+}
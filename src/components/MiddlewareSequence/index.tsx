@@ -0,0 +1,47 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import Mermaid from '@theme/Mermaid';
+import type {PipelineHandler, PipelineMiddleware} from '../PipelineDiagram/pipeline';
+import {flowDiagram, sequenceDiagram, validateSequence, type DiagramVariant, type SequencePath} from './diagram';
+import styles from './styles.module.css';
+
+export type {SequencePath, DiagramVariant} from './diagram';
+
+export interface MiddlewareSequenceProps {
+  middlewares: PipelineMiddleware[];
+  handler: PipelineHandler;
+  /** Which request to draw. Defaults to the success path. */
+  path?: SequencePath;
+  /** `sequence` shows every hook call; `flow` shows the chain and where the request leaves it. */
+  variant?: DiagramVariant;
+  /** Adds each hook's description as a note (sequence diagrams only). */
+  notes?: boolean;
+}
+
+/**
+ * Takes the same `{middlewares, handler}` description as `<PipelineDiagram>`,
+ * so a preset can be shown both ways. An invalid description is shown as an
+ * error in place of the diagram; the pipeline-presets plugin fails the build
+ * on it before a page is rendered.
+ */
+export default function MiddlewareSequence({
+  middlewares,
+  handler,
+  path = 'success',
+  variant = 'sequence',
+  notes = false,
+}: MiddlewareSequenceProps): ReactNode {
+  const errors = validateSequence(middlewares, handler, path);
+  if (errors.length > 0) {
+    return (
+      <p className={styles.error} role="alert">
+        {`<MiddlewareSequence path="${path}"> is invalid:\n- ${errors.join('\n- ')}`}
+      </p>
+    );
+  }
+  const value =
+    variant === 'flow'
+      ? flowDiagram(middlewares, handler, path)
+      : sequenceDiagram(middlewares, handler, path, notes);
+  return <Mermaid value={value} />;
+}
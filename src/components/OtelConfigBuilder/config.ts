@@ -0,0 +1,188 @@
+/**
+ * OpenTelemetry configuration builder model: the choices the form collects,
+ * and the checks for settings that contradict each other or the provider
+ * auto-detection described in the OpenTelemetry integration guide.
+ */
+
+/**
+ * - `console`: `ConsoleProvider`, logs spans locally
+ * - `otlp`: `OpenTelemetryProvider`, exports to an OTLP collector
+ * - `newrelic`: `NewRelicProvider`
+ * - `datadog`: Datadog agent settings
+ * - `none`: `NoopProvider`, tracing disabled
+ */
+export const EXPORTERS = ['console', 'otlp', 'newrelic', 'datadog', 'none'] as const;
+
+export type Exporter = (typeof EXPORTERS)[number];
+
+export const ENVIRONMENTS = ['development', 'test', 'production'] as const;
+
+export type Environment = (typeof ENVIRONMENTS)[number];
+
+/** Where the service runs; the GCP platforms turn on the Cloud Trace `CloudPropagator`. */
+export const PLATFORMS = ['other', 'cloud-run', 'cloud-functions', 'app-engine'] as const;
+
+export type Platform = (typeof PLATFORMS)[number];
+
+export interface SpanAttribute {
+  key: string;
+  /** Expression evaluated in `extractAttributes`, e.g. `context.user?.id`. */
+  value: string;
+  /** Environment variable the expression reads, if any. */
+  env?: string;
+}
+
+// The attributes used in the guide's "Custom Attributes" section
+export const SPAN_ATTRIBUTES: SpanAttribute[] = [
+  {key: 'http.method', value: 'context.req.method'},
+  {key: 'http.url', value: 'context.req.url || context.req.path'},
+  {key: 'request.id', value: 'context.requestId'},
+  {key: 'user.id', value: 'context.user?.id'},
+  {key: 'user.email', value: 'context.user?.email'},
+  {key: 'user.role', value: 'context.user?.role'},
+  {key: 'tenant.id', value: 'process.env.TENANT_ID', env: 'TENANT_ID'},
+  {key: 'service.instance', value: 'process.env.INSTANCE_ID', env: 'INSTANCE_ID'},
+  {key: 'deployment.environment', value: 'process.env.NODE_ENV'},
+];
+
+export interface OtelConfig {
+  exporter: Exporter;
+  environment: Environment;
+  platform: Platform;
+  serviceName: string;
+  serviceVersion: string;
+  /** OTLP traces endpoint, only used by the `otlp` exporter. */
+  endpoint: string;
+  /** Skip tracing for requests to `healthCheckPaths`. */
+  filterHealthChecks: boolean;
+  healthCheckPaths: string[];
+  /** Keys of the `SPAN_ATTRIBUTES` added by `extractAttributes`. */
+  attributes: string[];
+  propagatePubSubTraces: boolean;
+  /** Flush spans with `shutdown()` on SIGTERM. */
+  shutdownHook: boolean;
+}
+
+export const DEFAULT_CONFIG: OtelConfig = {
+  exporter: 'otlp',
+  environment: 'production',
+  platform: 'other',
+  serviceName: 'order-service',
+  serviceVersion: '1.0.0',
+  endpoint: 'https://your-otel-collector:4318/v1/traces',
+  filterHealthChecks: true,
+  healthCheckPaths: ['/health', '/metrics', '/ready'],
+  attributes: ['request.id', 'user.id', 'user.role'],
+  propagatePubSubTraces: true,
+  shutdownHook: true,
+};
+
+/** Exporters that send spans to a backend and need a service name. */
+export function isRemote(exporter: Exporter): boolean {
+  return exporter === 'otlp' || exporter === 'newrelic' || exporter === 'datadog';
+}
+
+export function usesCloudTrace(config: OtelConfig): boolean {
+  return config.platform !== 'other';
+}
+
+export type ConfigIssueSeverity = 'error' | 'warning' | 'info';
+
+export interface ConfigIssue {
+  severity: ConfigIssueSeverity;
+  message: string;
+}
+
+const EXPORTER_NAMES: Record<Exporter, string> = {
+  console: 'ConsoleProvider',
+  otlp: 'OpenTelemetryProvider',
+  newrelic: 'NewRelicProvider',
+  datadog: 'Datadog',
+  none: 'NoopProvider',
+};
+
+/**
+ * Settings that can't work together. Auto-detection looks at `NODE_ENV`
+ * before the exporter variables, so `development` and `test` win over any
+ * configured backend.
+ */
+export function checkConfig(config: OtelConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const remote = isRemote(config.exporter);
+
+  if (config.environment === 'test' && config.exporter !== 'none') {
+    issues.push({
+      severity: 'warning',
+      message: `NODE_ENV=test selects NoopProvider, so ${EXPORTER_NAMES[config.exporter]} never receives spans.`,
+    });
+  }
+  if (config.environment === 'development' && remote) {
+    issues.push({
+      severity: 'warning',
+      message: `NODE_ENV=development selects ConsoleProvider before the ${EXPORTER_NAMES[config.exporter]} variables are read; spans are logged, not exported.`,
+    });
+  }
+  if (config.exporter === 'console' && config.environment !== 'development') {
+    issues.push({
+      severity: 'error',
+      message: `ConsoleProvider is only selected with NODE_ENV=development; with NODE_ENV=${config.environment} no exporter variable is set and tracing falls back to NoopProvider.`,
+    });
+  }
+  if (config.exporter === 'console' && usesCloudTrace(config)) {
+    issues.push({
+      severity: 'warning',
+      message: 'A deployed service with NODE_ENV=development logs every span to Cloud Logging instead of exporting it.',
+    });
+  }
+
+  if (remote && !config.serviceName.trim()) {
+    issues.push({severity: 'error', message: 'Set a service name so traces can be told apart in the backend.'});
+  }
+  if (config.exporter === 'otlp' && !/^https?:\/\/[^\s/]+/.test(config.endpoint)) {
+    issues.push({severity: 'error', message: `OTLP endpoint "${config.endpoint}" is not an http(s) URL.`});
+  }
+  const local = /\/\/(localhost|127\.0\.0\.1)[:/]/.test(config.endpoint);
+  if (config.exporter === 'otlp' && config.environment === 'production' && local) {
+    issues.push({
+      severity: 'warning',
+      message: 'The OTLP endpoint points at localhost; in production it must reach your collector.',
+    });
+  }
+  if (config.exporter === 'newrelic') {
+    issues.push({
+      severity: 'info',
+      message: 'NewRelicProvider is only used when the New Relic package is installed; otherwise tracing falls back to NoopProvider.',
+    });
+  }
+  if (config.exporter === 'datadog') {
+    issues.push({
+      severity: 'info',
+      message: 'Datadog is not in the auto-detection list; check that your Datadog setup reads DD_API_KEY, DD_SERVICE and DD_ENV.',
+    });
+  }
+
+  if (config.filterHealthChecks) {
+    if (!config.healthCheckPaths.length) {
+      issues.push({severity: 'warning', message: 'Health-check filtering is on but no paths are listed.'});
+    }
+    for (const path of config.healthCheckPaths.filter((path) => !path.startsWith('/'))) {
+      issues.push({
+        severity: 'error',
+        message: `Health-check path "${path}" never matches: it is compared with context.req.path, which starts with "/".`,
+      });
+    }
+  }
+  if (config.attributes.includes('user.email')) {
+    issues.push({
+      severity: 'info',
+      message: 'user.email puts personal data on every span; make sure your tracing backend may store it.',
+    });
+  }
+  if (config.exporter === 'none' && (config.attributes.length || config.filterHealthChecks)) {
+    issues.push({
+      severity: 'info',
+      message: 'With NoopProvider nothing is recorded, so span filtering and attributes have no effect.',
+    });
+  }
+  return issues;
+}
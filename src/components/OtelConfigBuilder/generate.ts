@@ -0,0 +1,135 @@
+import {SPAN_ATTRIBUTES, usesCloudTrace, type OtelConfig, type Platform} from './config';
+
+/**
+ * Turns a builder configuration into the environment variables that drive
+ * provider auto-detection, a `.env` file, and the `OpenTelemetryMiddleware`
+ * setup code.
+ */
+
+export interface EnvVar {
+  name: string;
+  value: string;
+  description: string;
+}
+
+const PACKAGE = '@noony-serverless/core';
+
+export const CLOUD_TRACE_PROPAGATOR = '@google-cloud/opentelemetry-cloud-trace-propagator';
+
+/** The variable each GCP platform sets, which turns on `CloudPropagator`. */
+export const PLATFORM_VARIABLES: Record<Exclude<Platform, 'other'>, string> = {
+  'cloud-run': 'K_SERVICE',
+  'cloud-functions': 'FUNCTION_NAME',
+  'app-engine': 'GAE_APPLICATION',
+};
+
+function selectedAttributes(config: OtelConfig) {
+  return SPAN_ATTRIBUTES.filter((attribute) => config.attributes.includes(attribute.key));
+}
+
+export function envVars(config: OtelConfig): EnvVar[] {
+  const vars: EnvVar[] = [{name: 'NODE_ENV', value: config.environment, description: 'Runtime environment'}];
+  const serviceName = config.serviceName.trim();
+  switch (config.exporter) {
+    case 'otlp':
+      vars.push({name: 'OTEL_EXPORTER_OTLP_ENDPOINT', value: config.endpoint, description: 'OTLP exporter endpoint'});
+      vars.push({name: 'OTEL_SERVICE_NAME', value: serviceName, description: 'Service name'});
+      if (config.serviceVersion.trim()) {
+        vars.push({name: 'OTEL_SERVICE_VERSION', value: config.serviceVersion.trim(), description: 'Service version'});
+      }
+      break;
+    case 'newrelic':
+      vars.push({name: 'NEW_RELIC_LICENSE_KEY', value: 'your-license-key', description: 'New Relic license key'});
+      vars.push({name: 'NEW_RELIC_APP_NAME', value: serviceName, description: 'Application name'});
+      break;
+    case 'datadog':
+      vars.push({name: 'DD_API_KEY', value: 'your-api-key', description: 'Datadog API key'});
+      vars.push({name: 'DD_SERVICE', value: serviceName, description: 'Service name'});
+      vars.push({name: 'DD_ENV', value: config.environment, description: 'Environment'});
+      break;
+  }
+  for (const attribute of selectedAttributes(config)) {
+    if (attribute.env) {
+      vars.push({name: attribute.env, value: '', description: `Value of the ${attribute.key} span attribute`});
+    }
+  }
+  return vars;
+}
+
+/** A `.env.<environment>` file; keys and secrets stay as placeholders. */
+export function envFile(config: OtelConfig): string {
+  const lines = envVars(config).map((variable) => `${variable.name}=${variable.value}`);
+  if (config.platform !== 'other') {
+    lines.push(`# ${PLATFORM_VARIABLES[config.platform]} is set by the platform and enables CloudPropagator`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function envFileName(config: OtelConfig): string {
+  return `.env.${config.environment}`;
+}
+
+function middlewareOptions(config: OtelConfig): string[] {
+  const options: string[] = [];
+  if (config.filterHealthChecks && config.healthCheckPaths.length) {
+    options.push(
+      [
+        '  // Skip tracing for health checks',
+        "  shouldTrace: (context) => !HEALTH_CHECK_PATHS.includes(context.req.path || '')",
+      ].join('\n'),
+    );
+  }
+  const attributes = selectedAttributes(config);
+  if (attributes.length) {
+    options.push(
+      [
+        '  extractAttributes: (context) => ({',
+        attributes.map((attribute) => `    '${attribute.key}': ${attribute.value}`).join(',\n'),
+        '  })',
+      ].join('\n'),
+    );
+  }
+  if (!config.propagatePubSubTraces) {
+    options.push('  propagatePubSubTraces: false');
+  }
+  return options;
+}
+
+export function setupSnippet(config: OtelConfig): string {
+  const options = middlewareOptions(config);
+  const sections: string[] = [`import { Handler, OpenTelemetryMiddleware } from '${PACKAGE}';`];
+  if (config.filterHealthChecks && config.healthCheckPaths.length) {
+    const paths = config.healthCheckPaths.map((path) => `'${path.replace(/'/g, "\\'")}'`).join(', ');
+    sections.push(`const HEALTH_CHECK_PATHS = [${paths}];`);
+  }
+  sections.push(
+    options.length
+      ? `export const telemetryMiddleware = new OpenTelemetryMiddleware({\n${options.join(',\n')}\n});`
+      : '// Provider auto-detected from the environment\nexport const telemetryMiddleware = new OpenTelemetryMiddleware();',
+  );
+  sections.push(
+    [
+      'export const handler = new Handler()',
+      '  .use(telemetryMiddleware)',
+      '  .handle(async (context) => {',
+      '    // Your business logic - automatically traced',
+      '  });',
+    ].join('\n'),
+  );
+  if (config.shutdownHook) {
+    sections.push(
+      [
+        "process.on('SIGTERM', async () => {",
+        '  await telemetryMiddleware.shutdown();',
+        '  process.exit(0);',
+        '});',
+      ].join('\n'),
+    );
+  }
+  return sections.join('\n\n');
+}
+
+/** Optional packages the configuration needs. */
+export function installCommand(config: OtelConfig): string | undefined {
+  return usesCloudTrace(config) ? `npm install ${CLOUD_TRACE_PROPAGATOR} --save-optional` : undefined;
+}
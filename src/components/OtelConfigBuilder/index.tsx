@@ -0,0 +1,271 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import CodeBlock from '@theme/CodeBlock';
+import {
+  checkConfig,
+  DEFAULT_CONFIG,
+  ENVIRONMENTS,
+  EXPORTERS,
+  isRemote,
+  PLATFORMS,
+  SPAN_ATTRIBUTES,
+  type ConfigIssue,
+  type Environment,
+  type Exporter,
+  type OtelConfig,
+  type Platform,
+} from './config';
+import {envFile, envFileName, envVars, installCommand, setupSnippet} from './generate';
+import styles from './styles.module.css';
+
+export interface OtelConfigBuilderProps {
+  /** Exporter selected when the builder first renders. */
+  exporter?: Exporter;
+  environment?: Environment;
+  platform?: Platform;
+}
+
+const EXPORTER_LABELS: Record<Exporter, string> = {
+  console: 'Console (local development)',
+  otlp: 'OpenTelemetry collector (OTLP)',
+  newrelic: 'New Relic',
+  datadog: 'Datadog',
+  none: 'None (tracing disabled)',
+};
+
+const PLATFORM_LABELS: Record<Platform, string> = {
+  other: 'Other / local',
+  'cloud-run': 'Cloud Run',
+  'cloud-functions': 'Cloud Functions',
+  'app-engine': 'App Engine',
+};
+
+const SEVERITY_LABELS: Record<ConfigIssue['severity'], string> = {
+  error: 'Error',
+  warning: 'Warning',
+  info: 'Note',
+};
+
+function parseList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/** Picks an exporter, environment and span options, and generates the matching `.env` file and middleware setup. */
+export default function OtelConfigBuilder({
+  exporter = DEFAULT_CONFIG.exporter,
+  environment = DEFAULT_CONFIG.environment,
+  platform = DEFAULT_CONFIG.platform,
+}: OtelConfigBuilderProps): ReactNode {
+  const id = React.useId();
+  const [config, setConfig] = React.useState<OtelConfig>({...DEFAULT_CONFIG, exporter, environment, platform});
+  // Raw text, so typing a comma or newline doesn't get trimmed away
+  const [pathsText, setPathsText] = React.useState(DEFAULT_CONFIG.healthCheckPaths.join('\n'));
+
+  const update = <K extends keyof OtelConfig>(key: K, value: OtelConfig[K]) =>
+    setConfig((current) => ({...current, [key]: value}));
+
+  const toggleAttribute = (key: string) =>
+    update(
+      'attributes',
+      config.attributes.includes(key) ? config.attributes.filter((k) => k !== key) : [...config.attributes, key],
+    );
+
+  const issues = checkConfig(config);
+  const vars = envVars(config);
+  const install = installCommand(config);
+  const remote = isRemote(config.exporter);
+
+  return (
+    <div className={styles.builder}>
+      <div className={styles.toolbar}>
+        <label className={styles.field}>
+          Exporter
+          <select value={config.exporter} onChange={(event) => update('exporter', event.target.value as Exporter)}>
+            {EXPORTERS.map((value) => (
+              <option key={value} value={value}>
+                {EXPORTER_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          Environment
+          <select
+            value={config.environment}
+            onChange={(event) => update('environment', event.target.value as Environment)}>
+            {ENVIRONMENTS.map((value) => (
+              <option key={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          Platform
+          <select value={config.platform} onChange={(event) => update('platform', event.target.value as Platform)}>
+            {PLATFORMS.map((value) => (
+              <option key={value} value={value}>
+                {PLATFORM_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.inputs}>
+        <fieldset className={styles.group} disabled={!remote}>
+          <legend>Service</legend>
+          <label className={styles.field}>
+            Name
+            <input
+              className={styles.input}
+              value={config.serviceName}
+              spellCheck={false}
+              onChange={(event) => update('serviceName', event.target.value)}
+            />
+          </label>
+          {config.exporter === 'otlp' && (
+            <>
+              <label className={styles.field}>
+                Version
+                <input
+                  className={styles.input}
+                  value={config.serviceVersion}
+                  spellCheck={false}
+                  onChange={(event) => update('serviceVersion', event.target.value)}
+                />
+              </label>
+              <label className={styles.field}>
+                OTLP endpoint
+                <input
+                  className={styles.input}
+                  value={config.endpoint}
+                  spellCheck={false}
+                  onChange={(event) => update('endpoint', event.target.value)}
+                />
+              </label>
+            </>
+          )}
+          {!remote && <span className={styles.hint}>Only exporters that send spans to a backend need a name.</span>}
+        </fieldset>
+
+        <fieldset className={styles.group}>
+          <legend>Middleware options</legend>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={config.filterHealthChecks}
+              onChange={(event) => update('filterHealthChecks', event.target.checked)}
+            />
+            <span>Skip health checks (<code>shouldTrace</code>)</span>
+          </label>
+          {config.filterHealthChecks && (
+            <div className={styles.field}>
+              <label htmlFor={`${id}-paths`}>Health-check paths</label>
+              <textarea
+                id={`${id}-paths`}
+                className={styles.editor}
+                rows={3}
+                spellCheck={false}
+                value={pathsText}
+                onChange={(event) => {
+                  setPathsText(event.target.value);
+                  update('healthCheckPaths', parseList(event.target.value));
+                }}
+              />
+              <span className={styles.hint}>
+                Compared with <code>context.req.path</code>. One per line or comma-separated.
+              </span>
+            </div>
+          )}
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={config.propagatePubSubTraces}
+              onChange={(event) => update('propagatePubSubTraces', event.target.checked)}
+            />
+            <span>Continue Pub/Sub traces (<code>propagatePubSubTraces</code>)</span>
+          </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={config.shutdownHook}
+              onChange={(event) => update('shutdownHook', event.target.checked)}
+            />
+            <span>Flush spans on SIGTERM (<code>shutdown()</code>)</span>
+          </label>
+        </fieldset>
+
+        <fieldset className={styles.group}>
+          <legend>Span attributes</legend>
+          <div className={styles.attributes}>
+            {SPAN_ATTRIBUTES.map((attribute) => (
+              <label key={attribute.key} className={styles.checkbox} title={attribute.value}>
+                <input
+                  type="checkbox"
+                  checked={config.attributes.includes(attribute.key)}
+                  onChange={() => toggleAttribute(attribute.key)}
+                />
+                <code>{attribute.key}</code>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+
+      <div className={styles.result} aria-live="polite">
+        {issues.length ? (
+          <ul className={styles.issues}>
+            {issues.map((issue) => (
+              <li key={issue.message}>
+                <span className={clsx(styles.badge, styles[issue.severity])}>{SEVERITY_LABELS[issue.severity]}</span>
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p>
+            <span className={clsx(styles.badge, styles.ok)}>OK</span> No conflicting settings.
+          </p>
+        )}
+      </div>
+
+      <table className={styles.vars}>
+        <thead>
+          <tr>
+            <th>Variable</th>
+            <th>Description</th>
+            <th>Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {vars.map((variable) => (
+            <tr key={variable.name}>
+              <td>
+                <code>{variable.name}</code>
+              </td>
+              <td>{variable.description}</td>
+              <td>{variable.value ? <code>{variable.value}</code> : <em>your value</em>}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className={styles.code}>
+        <CodeBlock language="bash" title={envFileName(config)}>
+          {envFile(config)}
+        </CodeBlock>
+        <CodeBlock language="typescript" title="telemetry.ts">
+          {setupSnippet(config)}
+        </CodeBlock>
+        {install && (
+          <CodeBlock language="bash" title="Cloud Trace propagator (optional)">
+            {install}
+          </CodeBlock>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import {usePluginData} from '@docusaurus/useGlobalData';
+import {createSink} from './sinks';
+import type {FeedbackEvent, FeedbackEventInput, PageFeedbackData} from './types';
+
+type Track = (event: FeedbackEventInput) => void;
+
+const FeedbackContext = React.createContext<Track>(() => {});
+
+function doNotTrack(): boolean {
+  const nav = navigator as Navigator & {globalPrivacyControl?: boolean};
+  return nav.doNotTrack === '1' || nav.globalPrivacyControl === true;
+}
+
+/** Sends events to the sink configured in the page-feedback plugin. */
+export function FeedbackProvider({children}: {children: ReactNode}): ReactNode {
+  const {siteConfig, i18n} = useDocusaurusContext();
+  const {sink: config, respectDoNotTrack} = usePluginData('page-feedback') as PageFeedbackData;
+  const sink = React.useMemo(() => createSink(config), [config]);
+
+  const track = React.useCallback<Track>(
+    (input) => {
+      // Answering "Was this helpful?" is explicit; everything else is analytics
+      if (input.type !== 'page-feedback' && respectDoNotTrack && doNotTrack()) {
+        return;
+      }
+      const {pathname} = window.location;
+      const path = pathname.startsWith(siteConfig.baseUrl) ? `/${pathname.slice(siteConfig.baseUrl.length)}` : pathname;
+      sink.send({...input, path, locale: i18n.currentLocale, timestamp: new Date().toISOString()} as FeedbackEvent);
+    },
+    [sink, respectDoNotTrack, siteConfig.baseUrl, i18n.currentLocale],
+  );
+
+  return <FeedbackContext.Provider value={track}>{children}</FeedbackContext.Provider>;
+}
+
+/** Reports an event through the nearest `FeedbackProvider`. */
+export function useFeedback(): Track {
+  return React.useContext(FeedbackContext);
+}
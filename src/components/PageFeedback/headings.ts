@@ -0,0 +1,25 @@
+/**
+ * Finds the doc section a reader is in, by the id of its heading, so
+ * feedback can point at a section rather than the whole page.
+ */
+
+const SECTION_HEADINGS = '.theme-doc-markdown :is(h2, h3)[id]';
+
+function headings(): HTMLElement[] {
+  return Array.from(document.querySelectorAll<HTMLElement>(SECTION_HEADINGS));
+}
+
+/** The last section heading above the middle of the viewport. */
+export function headingInView(): string | undefined {
+  const middle = window.innerHeight / 2;
+  return headings()
+    .filter((heading) => heading.getBoundingClientRect().top < middle)
+    .pop()?.id;
+}
+
+/** The heading of the section `element` is in. */
+export function headingBefore(element: Element): string | undefined {
+  return headings()
+    .filter((heading) => heading.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING)
+    .pop()?.id;
+}
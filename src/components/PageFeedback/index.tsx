@@ -0,0 +1,103 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Translate, {translate} from '@docusaurus/Translate';
+import {useFeedback} from './FeedbackProvider';
+import {headingInView} from './headings';
+import styles from './styles.module.css';
+
+export {FeedbackProvider, useFeedback} from './FeedbackProvider';
+
+const MAX_COMMENT_LENGTH = 1000;
+
+type Step = {name: 'question'} | {name: 'comment'; helpful: boolean; heading?: string} | {name: 'done'};
+
+/** "Was this helpful?" with an optional comment, shown under every doc page. */
+export default function PageFeedback(): ReactNode {
+  const track = useFeedback();
+  const id = React.useId();
+  const [step, setStep] = React.useState<Step>({name: 'question'});
+  const [comment, setComment] = React.useState('');
+
+  if (step.name === 'done') {
+    return (
+      <div className={styles.feedback} role="status">
+        <Translate id="pageFeedback.thanks">Thanks for your feedback!</Translate>
+      </div>
+    );
+  }
+
+  const send = (withComment: boolean) => {
+    if (step.name !== 'comment') {
+      return;
+    }
+    const text = withComment ? comment.trim() : '';
+    track({type: 'page-feedback', helpful: step.helpful, heading: step.heading, ...(text && {comment: text})});
+    setStep({name: 'done'});
+  };
+
+  return (
+    <form
+      className={styles.feedback}
+      onSubmit={(event) => {
+        event.preventDefault();
+        send(true);
+      }}>
+      <div className={styles.question}>
+        <span id={`${id}-question`}>
+          <Translate id="pageFeedback.question">Was this page helpful?</Translate>
+        </span>
+        <div className={styles.answers} role="group" aria-labelledby={`${id}-question`}>
+          {[true, false].map((helpful) => (
+            <button
+              key={String(helpful)}
+              type="button"
+              className={clsx(
+                'button button--sm',
+                step.name === 'comment' && step.helpful === helpful ? 'button--primary' : 'button--secondary',
+              )}
+              aria-pressed={step.name === 'comment' && step.helpful === helpful}
+              onClick={() => setStep({name: 'comment', helpful, heading: headingInView()})}>
+              {helpful ? (
+                <Translate id="pageFeedback.yes">Yes</Translate>
+              ) : (
+                <Translate id="pageFeedback.no">No</Translate>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {step.name === 'comment' && (
+        <div className={styles.comment}>
+          <label htmlFor={`${id}-comment`}>
+            {step.helpful ? (
+              <Translate id="pageFeedback.comment.helpful">What helped? (optional)</Translate>
+            ) : (
+              <Translate id="pageFeedback.comment.unhelpful">What was missing or confusing? (optional)</Translate>
+            )}
+          </label>
+          <textarea
+            id={`${id}-comment`}
+            rows={3}
+            maxLength={MAX_COMMENT_LENGTH}
+            value={comment}
+            placeholder={translate({
+              id: 'pageFeedback.comment.placeholder',
+              message: "Please don't include personal information.",
+            })}
+            onChange={(event) => setComment(event.target.value)}
+          />
+          <div className={styles.actions}>
+            <button type="submit" className="button button--sm button--primary">
+              <Translate id="pageFeedback.send">Send</Translate>
+            </button>
+            <button type="button" className="button button--sm button--link" onClick={() => send(false)}>
+              <Translate id="pageFeedback.skip">Send without a comment</Translate>
+            </button>
+          </div>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,72 @@
+import type {RefObject} from 'react';
+import React from 'react';
+import {useFeedback} from './FeedbackProvider';
+import type {SearchNoResultsEvent} from './types';
+
+/**
+ * Hooks for the reading events that theme components report without any
+ * action from the reader: searches that found nothing and missing pages.
+ */
+
+const SETTLE_MS = 1000;
+const MAX_QUERY_LENGTH = 100;
+
+export interface EmptySearchOptions {
+  source: SearchNoResultsEvent['source'];
+  /** Selector of the search input under `ref`. */
+  input: string;
+  isEmpty: (root: HTMLElement) => boolean;
+}
+
+/**
+ * The search plugin doesn't expose its results, so they are read from the DOM
+ * it renders: once the results under `ref` stop changing, `isEmpty` decides
+ * whether the query in `input` found nothing. Each query is reported once per
+ * page view.
+ */
+export function useEmptySearchReporter(ref: RefObject<HTMLElement | null>, options: EmptySearchOptions): void {
+  const track = useFeedback();
+  const optionsRef = React.useRef(options);
+  optionsRef.current = options;
+
+  React.useEffect(() => {
+    const root = ref.current;
+    if (!root) {
+      return undefined;
+    }
+    const reported = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const check = () => {
+      const {source, input, isEmpty} = optionsRef.current;
+      const query = root.querySelector<HTMLInputElement>(input)?.value.trim().slice(0, MAX_QUERY_LENGTH);
+      if (!query || !isEmpty(root) || reported.has(query.toLowerCase())) {
+        return;
+      }
+      reported.add(query.toLowerCase());
+      track({type: 'search-no-results', query, source});
+    };
+    const observer = new MutationObserver(() => {
+      clearTimeout(timer);
+      timer = setTimeout(check, SETTLE_MS);
+    });
+    observer.observe(root, {childList: true, subtree: true, characterData: true});
+    return () => {
+      observer.disconnect();
+      clearTimeout(timer);
+    };
+  }, [ref, track]);
+}
+
+/** Reports a missing page once, with where the reader came from. */
+export function useNotFoundReporter(): void {
+  const track = useFeedback();
+  React.useEffect(() => {
+    let referrer: string | undefined;
+    if (document.referrer) {
+      const url = new URL(document.referrer);
+      // Other sites only get their host name; a full URL can identify the reader
+      referrer = url.origin === window.location.origin ? url.pathname : url.hostname;
+    }
+    track({type: 'not-found', referrer});
+  }, [track]);
+}
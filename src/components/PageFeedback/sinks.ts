@@ -0,0 +1,53 @@
+import type {FeedbackEvent, FeedbackSink, FeedbackSinkConfig} from './types';
+
+/**
+ * The two built-in sinks. Both swallow their own failures: losing an event is
+ * better than breaking the page the reader is on.
+ */
+
+export interface MemorySink extends FeedbackSink {
+  /** Events sent since the page loaded, oldest first. */
+  readonly events: readonly FeedbackEvent[];
+}
+
+/** Keeps events in the page; `log` also prints each one to the console. */
+export function createMemorySink({log = false}: {log?: boolean} = {}): MemorySink {
+  const events: FeedbackEvent[] = [];
+  return {
+    events,
+    send(event) {
+      events.push(event);
+      if (log) {
+        console.info('[feedback]', event);
+      }
+    },
+  };
+}
+
+/**
+ * POSTs each event as JSON to `endpoint`. Requests carry no credentials and
+ * outlive the page (`keepalive`), so an answer sent right before navigating
+ * away still arrives. Cross-origin endpoints must allow CORS.
+ */
+export function createHttpSink(endpoint: string): FeedbackSink {
+  return {
+    send(event) {
+      fetch(endpoint, {
+        method: 'POST',
+        headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify(event),
+        credentials: 'omit',
+        keepalive: true,
+      }).catch(() => {});
+    },
+  };
+}
+
+export function createSink(config: FeedbackSinkConfig): FeedbackSink {
+  switch (config.type) {
+    case 'http':
+      return createHttpSink(config.endpoint);
+    case 'memory':
+      return createMemorySink({log: config.log});
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Events readers send through the feedback sink. They carry no identifiers:
+ * no cookies, user ids or session ids, and page paths without their query
+ * string or hash.
+ */
+
+interface BaseEvent {
+  /** Page path without the base URL, query string or hash, e.g. `/docs/intro`. */
+  path: string;
+  locale: string;
+  /** ISO 8601 time the event happened. */
+  timestamp: string;
+}
+
+/** Answer to "Was this helpful?" in a doc footer. */
+export interface PageFeedbackEvent extends BaseEvent {
+  type: 'page-feedback';
+  helpful: boolean;
+  comment?: string;
+  /** Id of the section being read when the reader answered. */
+  heading?: string;
+}
+
+/** A search that returned nothing. */
+export interface SearchNoResultsEvent extends BaseEvent {
+  type: 'search-no-results';
+  query: string;
+  source: 'search-bar' | 'search-page';
+}
+
+/** A click on a code block's copy button. */
+export interface CopyCodeEvent extends BaseEvent {
+  type: 'copy-code';
+  /** Id of the section the code block is in. */
+  heading?: string;
+}
+
+/** A page that doesn't exist. */
+export interface NotFoundEvent extends BaseEvent {
+  type: 'not-found';
+  /** Path of the page that linked here when it is on this site, the host name otherwise. */
+  referrer?: string;
+}
+
+export type FeedbackEvent = PageFeedbackEvent | SearchNoResultsEvent | CopyCodeEvent | NotFoundEvent;
+
+/** An event as components report it; the provider fills in the page, locale and time. */
+export type FeedbackEventInput = FeedbackEvent extends infer E ? (E extends BaseEvent ? Omit<E, keyof BaseEvent> : never) : never;
+
+/** Where events go. Sending is best-effort: a sink must never throw into the page. */
+export interface FeedbackSink {
+  send(event: FeedbackEvent): void;
+}
+
+/**
+ * - `memory`: keeps events in the page, and prints each one to the browser
+ *   console when `log` is set; nothing leaves the browser
+ * - `http`: POSTs each event as JSON to `endpoint`
+ */
+export type FeedbackSinkConfig = {type: 'memory'; log?: boolean} | {type: 'http'; endpoint: string};
+
+/** Global data of the page-feedback plugin. */
+export interface PageFeedbackData {
+  sink: FeedbackSinkConfig;
+  /** Skip reading analytics (everything but explicit page feedback) for readers who send Do Not Track or Global Privacy Control. */
+  respectDoNotTrack: boolean;
+}
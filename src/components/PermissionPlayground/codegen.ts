@@ -0,0 +1,92 @@
+import type {PermissionExpression, PermissionRequirement} from './resolvers';
+
+export type GuardProfile = 'development' | 'production' | 'serverless';
+
+export const GUARD_PROFILES: Record<GuardProfile, {label: string; notes: string[]}> = {
+  development: {
+    label: 'Development',
+    notes: [
+      'Wildcards: on-demand matching (memory efficient)',
+      'Cache TTL: 5 minutes, 500 entries',
+      'Invalidation: less conservative',
+      'Monitoring: detailed logging',
+    ],
+  },
+  production: {
+    label: 'Production',
+    notes: [
+      'Wildcards: pre-expansion (maximum runtime performance)',
+      'Cache TTL: 15 minutes, 2000 entries',
+      'Invalidation: conservative (security-first)',
+      'Monitoring: essential metrics only',
+    ],
+  },
+  serverless: {
+    label: 'Serverless',
+    notes: ['Tuned for cold starts and short-lived instances'],
+  },
+};
+
+const INDENT = '  ';
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function expressionToCode(expression: PermissionExpression, depth: number): string {
+  const pad = INDENT.repeat(depth);
+  const inner = INDENT.repeat(depth + 1);
+  if (expression.permission !== undefined) {
+    return `{ permission: ${quote(expression.permission)} }`;
+  }
+  if (expression.not) {
+    return `{ not: ${expressionToCode(expression.not, depth)} }`;
+  }
+  const operator = expression.and ? 'and' : 'or';
+  const operands = (expression.and ?? expression.or ?? []).map((child) => `${inner}${INDENT}${expressionToCode(child, depth + 2)}`);
+  return `{\n${inner}${operator}: [\n${operands.join(',\n')}\n${inner}]\n${pad}}`;
+}
+
+function listToCode(permissions: string[]): string {
+  return `[\n${permissions.map((permission) => `${INDENT.repeat(2)}${quote(permission)}`).join(',\n')}\n${INDENT}]`;
+}
+
+/** The `RouteGuards.require*()` middleware that enforces the requirement. */
+export function guardCall(requirement: PermissionRequirement): string {
+  switch (requirement.strategy) {
+    case 'plain':
+      return `RouteGuards.requirePermissions(${listToCode(requirement.permissions)})`;
+    case 'wildcard':
+      return `RouteGuards.requireWildcardPermissions(${listToCode(requirement.permissions)})`;
+    case 'expression':
+      return `RouteGuards.requireComplexPermissions(${expressionToCode(requirement.expression, 1)})`;
+  }
+}
+
+export function handlerSnippet(requirement: PermissionRequirement): string {
+  return [
+    "import { Handler, RouteGuards } from '@noony-serverless/core';",
+    '',
+    'const handler = new Handler()',
+    `${INDENT}.use(${guardCall(requirement)})`,
+    `${INDENT}.handle(async (context) => {`,
+    `${INDENT}${INDENT}const user = context.user!;`,
+    `${INDENT}${INDENT}context.res.json({ userId: user.id });`,
+    `${INDENT}});`,
+  ].join('\n');
+}
+
+/** `RouteGuards.configure()` call for an environment profile, with what the profile tunes. */
+export function profileSnippet(profile: GuardProfile): string {
+  return [
+    "import { RouteGuards, GuardConfiguration } from '@noony-serverless/core';",
+    '',
+    ...GUARD_PROFILES[profile].notes.map((note) => `// ${note}`),
+    'await RouteGuards.configure(',
+    `${INDENT}GuardConfiguration.${profile}(),`,
+    `${INDENT}permissionSource,`,
+    `${INDENT}tokenValidator,`,
+    `${INDENT}authConfig`,
+    ');',
+  ].join('\n');
+}
@@ -0,0 +1,283 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import CodeBlock from '@theme/CodeBlock';
+import {GUARD_PROFILES, handlerSnippet, profileSnippet, type GuardProfile} from './codegen';
+import {
+  listStrategy,
+  resolvePermissions,
+  validateExpression,
+  type ExpressionTrace,
+  type PermissionExpression,
+  type PermissionRequirement,
+  type PermissionStrategy,
+} from './resolvers';
+import styles from './styles.module.css';
+
+export type {PermissionExpression} from './resolvers';
+
+export interface PermissionPlaygroundProps {
+  /** Permissions granted to the user when the playground first renders. */
+  permissions?: string[];
+  /** A permission list (plain or wildcard) or an expression tree. */
+  requirement?: string[] | PermissionExpression;
+  profile?: GuardProfile;
+}
+
+type RequirementMode = 'list' | 'expression';
+
+interface Preset {
+  label: string;
+  permissions: string[];
+  requirement: string[] | PermissionExpression;
+}
+
+// Examples from the RouteGuards guides
+const PRESETS: Preset[] = [
+  {
+    label: 'Plain: create users',
+    permissions: ['user:read', 'admin:users'],
+    requirement: ['user:create', 'admin:users'],
+  },
+  {
+    label: 'Wildcard: admin or own profile',
+    permissions: ['user.profile.read', 'orders.list'],
+    requirement: ['admin.*', 'user.profile.*'],
+  },
+  {
+    label: 'Expression: finance approval',
+    permissions: ['finance:read', 'manager:approve'],
+    requirement: {
+      and: [
+        {permission: 'finance:read'},
+        {not: {permission: 'finance:restricted'}},
+        {or: [{permission: 'manager:approve'}, {permission: 'admin:override'}]},
+      ],
+    },
+  },
+  {
+    label: 'Expression: list users',
+    permissions: ['user.list'],
+    requirement: {
+      or: [
+        {and: [{permission: 'admin.users'}, {permission: 'admin.read'}]},
+        {and: [{permission: 'user.list'}, {permission: 'user.department'}]},
+      ],
+    },
+  },
+];
+
+const STRATEGY_INFO: Record<PermissionStrategy, {label: string; detail: string}> = {
+  plain: {
+    label: 'Plain (O(1))',
+    detail: 'Set membership: the user needs ANY of the listed permissions. ~0.1ms cached.',
+  },
+  wildcard: {
+    label: 'Wildcard',
+    detail: 'Pattern matching: a user permission must match ANY of the patterns. ~0.2ms cached with pre-expansion.',
+  },
+  expression: {
+    label: 'Expression',
+    detail: 'Boolean logic over and / or / not / permission nodes. ~0.5ms cached.',
+  },
+};
+
+function parseList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function requirementText(requirement: string[] | PermissionExpression): string {
+  return Array.isArray(requirement) ? requirement.join('\n') : JSON.stringify(requirement, null, 2);
+}
+
+function TraceNode({trace}: {trace: ExpressionTrace}) {
+  return (
+    <li>
+      <span className={clsx(styles.traceResult, trace.result ? styles.pass : styles.fail)}>
+        {trace.result ? '✓' : '✗'}
+      </span>{' '}
+      {trace.kind === 'permission' ? <code>{trace.permission}</code> : <strong>{trace.kind.toUpperCase()}</strong>}
+      {trace.children.length > 0 && (
+        <ul className={styles.trace}>
+          {trace.children.map((child, index) => (
+            <TraceNode key={index} trace={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function PermissionPlayground({
+  permissions: initialPermissions = PRESETS[0].permissions,
+  requirement: initialRequirement = PRESETS[0].requirement,
+  profile: initialProfile = 'production',
+}: PermissionPlaygroundProps): ReactNode {
+  const id = React.useId();
+  const [permissionsText, setPermissionsText] = React.useState(initialPermissions.join('\n'));
+  const [mode, setMode] = React.useState<RequirementMode>(Array.isArray(initialRequirement) ? 'list' : 'expression');
+  const [listText, setListText] = React.useState(Array.isArray(initialRequirement) ? requirementText(initialRequirement) : '');
+  const [expressionText, setExpressionText] = React.useState(
+    Array.isArray(initialRequirement) ? '' : requirementText(initialRequirement),
+  );
+  const [profile, setProfile] = React.useState<GuardProfile>(initialProfile);
+
+  const loadPreset = (index: number) => {
+    const preset = PRESETS[index];
+    setPermissionsText(preset.permissions.join('\n'));
+    if (Array.isArray(preset.requirement)) {
+      setMode('list');
+      setListText(requirementText(preset.requirement));
+    } else {
+      setMode('expression');
+      setExpressionText(requirementText(preset.requirement));
+    }
+  };
+
+  const parsed = React.useMemo((): {requirement?: PermissionRequirement; error?: string} => {
+    if (mode === 'list') {
+      const permissions = parseList(listText);
+      return permissions.length
+        ? {requirement: {strategy: listStrategy(permissions), permissions}}
+        : {error: 'Enter at least one required permission or pattern.'};
+    }
+    let value: unknown;
+    try {
+      value = JSON.parse(expressionText);
+    } catch (error) {
+      return {error: `Invalid JSON: ${(error as Error).message}`};
+    }
+    const error = validateExpression(value);
+    return error ? {error} : {requirement: {strategy: 'expression', expression: value as PermissionExpression}};
+  }, [mode, listText, expressionText]);
+
+  const granted = parseList(permissionsText);
+  const resolution = parsed.requirement && resolvePermissions(granted, parsed.requirement);
+
+  return (
+    <div className={styles.playground}>
+      <div className={styles.toolbar}>
+        <label className={styles.field}>
+          Example
+          <select value="" onChange={(event) => loadPreset(Number(event.target.value))}>
+            <option value="" disabled>
+              Load an example…
+            </option>
+            {PRESETS.map((preset, index) => (
+              <option key={preset.label} value={index}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          Environment profile
+          <select value={profile} onChange={(event) => setProfile(event.target.value as GuardProfile)}>
+            {(Object.keys(GUARD_PROFILES) as GuardProfile[]).map((name) => (
+              <option key={name} value={name}>
+                {GUARD_PROFILES[name].label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.inputs}>
+        <div className={styles.field}>
+          <label htmlFor={`${id}-permissions`}>User permissions</label>
+          <textarea
+            id={`${id}-permissions`}
+            className={styles.editor}
+            rows={6}
+            spellCheck={false}
+            value={permissionsText}
+            onChange={(event) => setPermissionsText(event.target.value)}
+          />
+          <span className={styles.hint}>One per line or comma-separated.</span>
+        </div>
+
+        <div className={styles.field}>
+          <div className={styles.modeSwitch} role="radiogroup" aria-label="Requirement type">
+            {(['list', 'expression'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={mode === value}
+                className={clsx('button button--sm', mode === value ? 'button--primary' : 'button--secondary')}
+                onClick={() => setMode(value)}>
+                {value === 'list' ? 'Permission list' : 'Expression'}
+              </button>
+            ))}
+          </div>
+          {mode === 'list' ? (
+            <>
+              <textarea
+                aria-label="Required permissions"
+                className={styles.editor}
+                rows={6}
+                spellCheck={false}
+                value={listText}
+                onChange={(event) => setListText(event.target.value)}
+              />
+              <span className={styles.hint}>
+                The user needs any one of these. Entries with <code>*</code> switch to wildcard matching.
+              </span>
+            </>
+          ) : (
+            <>
+              <textarea
+                aria-label="Permission expression (JSON)"
+                className={styles.editor}
+                rows={10}
+                spellCheck={false}
+                value={expressionText}
+                onChange={(event) => setExpressionText(event.target.value)}
+              />
+              <span className={styles.hint}>
+                JSON tree of <code>and</code>, <code>or</code>, <code>not</code> and <code>permission</code> nodes.
+              </span>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className={styles.result} aria-live="polite">
+        {parsed.error && <p className={styles.error}>{parsed.error}</p>}
+        {resolution && (
+          <>
+            <p className={styles.verdict}>
+              <span className={clsx(styles.badge, resolution.allowed ? styles.allowed : styles.denied)}>
+                {resolution.allowed ? 'Allow' : 'Deny'}
+              </span>
+              {resolution.reason}
+            </p>
+            <p className={styles.strategy}>
+              <strong>Strategy: {STRATEGY_INFO[resolution.strategy].label}</strong> —{' '}
+              {STRATEGY_INFO[resolution.strategy].detail}
+            </p>
+            {resolution.trace && (
+              <ul className={clsx(styles.trace, styles.traceRoot)}>
+                <TraceNode trace={resolution.trace} />
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+
+      {parsed.requirement && (
+        <div className={styles.code}>
+          <CodeBlock language="typescript" title="handler.ts">
+            {handlerSnippet(parsed.requirement)}
+          </CodeBlock>
+          <CodeBlock language="typescript" title="guards.ts">
+            {profileSnippet(profile)}
+          </CodeBlock>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Pure model of the three RouteGuards permission resolution strategies, used
+ * by the permission playground.
+ *
+ * - Plain: the user needs ANY of the listed permissions (Set lookup, O(1)).
+ * - Wildcard: the user needs a permission matching ANY of the patterns.
+ * - Expression: a boolean tree of `and` / `or` / `not` / `permission` nodes.
+ */
+
+export type PermissionStrategy = 'plain' | 'wildcard' | 'expression';
+
+export interface PermissionExpression {
+  and?: PermissionExpression[];
+  or?: PermissionExpression[];
+  not?: PermissionExpression;
+  permission?: string;
+}
+
+export type PermissionRequirement =
+  | {strategy: 'plain' | 'wildcard'; permissions: string[]}
+  | {strategy: 'expression'; expression: PermissionExpression};
+
+export interface ExpressionTrace {
+  kind: 'and' | 'or' | 'not' | 'permission';
+  /** The permission checked, for leaf nodes. */
+  permission?: string;
+  result: boolean;
+  children: ExpressionTrace[];
+}
+
+export interface Resolution {
+  allowed: boolean;
+  strategy: PermissionStrategy;
+  /** Human-readable rule that decided the outcome. */
+  reason: string;
+  trace?: ExpressionTrace;
+}
+
+const OPERATORS = ['and', 'or', 'not', 'permission'] as const;
+
+/** Plain lists are upgraded to the wildcard resolver as soon as one entry contains `*`. */
+export function listStrategy(permissions: string[]): 'plain' | 'wildcard' {
+  return permissions.some((permission) => permission.includes('*')) ? 'wildcard' : 'plain';
+}
+
+/** `*` matches one or more characters, so `admin.*` covers `admin.users` and `admin.users.delete`. */
+export function matchesWildcard(pattern: string, permission: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.+');
+  return new RegExp(`^${source}$`).test(permission);
+}
+
+/**
+ * Checks that a parsed JSON value is a well-formed expression: every node has
+ * exactly one operator and `and` / `or` have at least one operand.
+ * Returns an error message with the path of the first invalid node.
+ */
+export function validateExpression(value: unknown, path = 'expression'): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `${path} must be an object`;
+  }
+  const node = value as Record<string, unknown>;
+  const keys = Object.keys(node);
+  const unknown = keys.find((key) => !(OPERATORS as readonly string[]).includes(key));
+  if (unknown) {
+    return `${path} has an unknown key "${unknown}" (expected one of ${OPERATORS.join(', ')})`;
+  }
+  if (keys.length !== 1) {
+    return `${path} must have exactly one of ${OPERATORS.join(', ')}`;
+  }
+  const [operator] = keys;
+  const operand = node[operator];
+  if (operator === 'permission') {
+    return typeof operand === 'string' && operand.trim() ? undefined : `${path}.permission must be a non-empty string`;
+  }
+  if (operator === 'not') {
+    return validateExpression(operand, `${path}.not`);
+  }
+  if (!Array.isArray(operand) || operand.length === 0) {
+    return `${path}.${operator} must be a non-empty array`;
+  }
+  for (const [index, child] of operand.entries()) {
+    const error = validateExpression(child, `${path}.${operator}[${index}]`);
+    if (error) {
+      return error;
+    }
+  }
+  return undefined;
+}
+
+export function evaluateExpression(expression: PermissionExpression, granted: Set<string>): ExpressionTrace {
+  if (expression.permission !== undefined) {
+    return {
+      kind: 'permission',
+      permission: expression.permission,
+      result: granted.has(expression.permission),
+      children: [],
+    };
+  }
+  if (expression.not) {
+    const child = evaluateExpression(expression.not, granted);
+    return {kind: 'not', result: !child.result, children: [child]};
+  }
+  const kind = expression.and ? 'and' : 'or';
+  const children = (expression.and ?? expression.or ?? []).map((child) => evaluateExpression(child, granted));
+  const result = kind === 'and' ? children.every((child) => child.result) : children.some((child) => child.result);
+  return {kind, result, children};
+}
+
+/** Same output as the expression tree, written as one line of boolean logic. */
+export function describeExpression(expression: PermissionExpression): string {
+  if (expression.permission !== undefined) {
+    return expression.permission;
+  }
+  if (expression.not) {
+    return `NOT ${describeExpression(expression.not)}`;
+  }
+  const operator = expression.and ? ' AND ' : ' OR ';
+  const operands = (expression.and ?? expression.or ?? []).map((child) =>
+    child.and || child.or ? `(${describeExpression(child)})` : describeExpression(child),
+  );
+  return operands.join(operator);
+}
+
+export function resolvePermissions(granted: string[], requirement: PermissionRequirement): Resolution {
+  const grantedSet = new Set(granted);
+
+  if (requirement.strategy === 'expression') {
+    const trace = evaluateExpression(requirement.expression, grantedSet);
+    const rule = describeExpression(requirement.expression);
+    return {
+      allowed: trace.result,
+      strategy: 'expression',
+      reason: trace.result ? `Expression is satisfied: ${rule}` : `Expression is not satisfied: ${rule}`,
+      trace,
+    };
+  }
+
+  if (requirement.strategy === 'plain') {
+    const rule = requirement.permissions.find((permission) => grantedSet.has(permission));
+    return rule
+      ? {allowed: true, strategy: 'plain', reason: `User has "${rule}"`}
+      : {allowed: false, strategy: 'plain', reason: 'User has none of the required permissions'};
+  }
+
+  for (const rule of requirement.permissions) {
+    const permission = granted.find((candidate) => matchesWildcard(rule, candidate));
+    if (permission) {
+      return {
+        allowed: true,
+        strategy: 'wildcard',
+        reason: `"${permission}" matches the pattern "${rule}"`,
+      };
+    }
+  }
+  return {allowed: false, strategy: 'wildcard', reason: 'No user permission matches any of the patterns'};
+}
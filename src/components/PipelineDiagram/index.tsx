@@ -0,0 +1,254 @@
+import type {KeyboardEvent, ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import {
+  buildPipelineSteps,
+  CONTEXT_FIELDS,
+  HANDLER_NODE,
+  INITIAL_CONTEXT,
+  type PipelineHandler,
+  type PipelineMiddleware,
+  type PipelineStage,
+} from './pipeline';
+import styles from './styles.module.css';
+
+export type {PipelineHandler, PipelineMiddleware} from './pipeline';
+
+export interface PipelineDiagramProps {
+  middlewares: PipelineMiddleware[];
+  handler: PipelineHandler;
+  /** Middleware name (or `'handler'`) that throws when the diagram first renders. */
+  errorAt?: string;
+  /** Milliseconds each step stays highlighted while playing. */
+  stepDuration?: number;
+}
+
+const SUCCESS_PATH = '';
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  before: 'before',
+  handler: 'handle',
+  after: 'after',
+  onError: 'onError',
+};
+
+function HookBadges({middleware}: {middleware: PipelineMiddleware}) {
+  const hooks = (['before', 'after', 'onError'] as const).filter((hook) => middleware[hook]);
+  return (
+    <span className={styles.hooks}>
+      {hooks.map((hook) => (
+        <span key={hook} className={clsx(styles.hook, styles[`hook_${hook}`])}>
+          {hook}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export default function PipelineDiagram({
+  middlewares,
+  handler,
+  errorAt: initialErrorAt,
+  stepDuration = 1400,
+}: PipelineDiagramProps): ReactNode {
+  const [errorAt, setErrorAt] = React.useState(initialErrorAt ?? SUCCESS_PATH);
+  const [current, setCurrent] = React.useState(-1);
+  const [playing, setPlaying] = React.useState(false);
+  const nodeRefs = React.useRef<(HTMLButtonElement | null)[]>([]);
+
+  const steps = React.useMemo(
+    () => buildPipelineSteps(middlewares, handler, errorAt || undefined),
+    [middlewares, handler, errorAt],
+  );
+  const step = current >= 0 ? steps[current] : undefined;
+  const nodeCount = middlewares.length + 1;
+  const failedAt = steps.findIndex((s) => s.failed);
+  const onErrorPath = failedAt !== -1 && current >= failedAt;
+
+  React.useEffect(() => {
+    if (!playing) {
+      return undefined;
+    }
+    if (current >= steps.length - 1) {
+      setPlaying(false);
+      return undefined;
+    }
+    const timer = setTimeout(() => setCurrent((index) => index + 1), current < 0 ? 0 : stepDuration);
+    return () => clearTimeout(timer);
+  }, [playing, current, steps.length, stepDuration]);
+
+  const selectPath = (value: string) => {
+    setErrorAt(value);
+    setPlaying(false);
+    setCurrent(-1);
+  };
+
+  const play = () => {
+    if (current >= steps.length - 1) {
+      setCurrent(-1);
+    }
+    setPlaying(true);
+  };
+
+  const jumpToNode = (node: number) => {
+    setPlaying(false);
+    const index = steps.findIndex((s) => s.node === node);
+    if (index !== -1) {
+      setCurrent(index);
+    }
+  };
+
+  // Arrow keys move focus between nodes; Enter/Space jump the request there.
+  const onNodeKeyDown = (event: KeyboardEvent<HTMLButtonElement>, node: number) => {
+    const offsets: Record<string, number> = {ArrowRight: 1, ArrowDown: 1, ArrowLeft: -1, ArrowUp: -1};
+    let target: number | undefined;
+    if (event.key in offsets) {
+      target = (node + offsets[event.key] + nodeCount) % nodeCount;
+    } else if (event.key === 'Home') {
+      target = 0;
+    } else if (event.key === 'End') {
+      target = nodeCount - 1;
+    }
+    if (target !== undefined) {
+      event.preventDefault();
+      nodeRefs.current[target]?.focus();
+    }
+  };
+
+  const context = step?.context ?? INITIAL_CONTEXT;
+  const throwOptions = [
+    ...middlewares.filter((m) => m.before || m.throws).map((m) => m.name),
+    HANDLER_NODE,
+  ];
+
+  return (
+    <figure className={styles.pipeline}>
+      <div className={styles.toolbar}>
+        <label className={styles.pathSelect}>
+          Request path
+          <select value={errorAt} onChange={(event) => selectPath(event.target.value)}>
+            <option value={SUCCESS_PATH}>Success</option>
+            {throwOptions.map((name) => (
+              <option key={name} value={name}>
+                {name === HANDLER_NODE ? 'Handler throws' : `${name} throws`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className={styles.controls}>
+          <button
+            type="button"
+            className="button button--sm button--secondary"
+            onClick={() => setCurrent((index) => Math.max(index - 1, -1))}
+            disabled={current < 0}>
+            ◀ Back
+          </button>
+          {playing ? (
+            <button type="button" className="button button--sm button--primary" onClick={() => setPlaying(false)}>
+              ❚❚ Pause
+            </button>
+          ) : (
+            <button type="button" className="button button--sm button--primary" onClick={play}>
+              ▶ {current >= steps.length - 1 ? 'Replay' : 'Play'}
+            </button>
+          )}
+          <button
+            type="button"
+            className="button button--sm button--secondary"
+            onClick={() => setCurrent((index) => Math.min(index + 1, steps.length - 1))}
+            disabled={current >= steps.length - 1}>
+            Step ▶
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.track}>
+        {step && (
+          <span
+            aria-hidden="true"
+            className={clsx(styles.requestToken, {[styles.requestTokenError]: onErrorPath})}
+            style={{left: `${((step.node + 0.5) / nodeCount) * 100}%`}}
+          />
+        )}
+        <ol className={styles.nodes} aria-label="Middleware pipeline">
+          {[...middlewares, undefined].map((middleware, node) => {
+            const isHandler = middleware === undefined;
+            return (
+              <li key={middleware?.name ?? HANDLER_NODE} className={styles.nodeItem}>
+                <button
+                  type="button"
+                  ref={(element) => {
+                    nodeRefs.current[node] = element;
+                  }}
+                  className={clsx(styles.node, {
+                    [styles.nodeHandler]: isHandler,
+                    [styles.nodeActive]: step?.node === node,
+                    [styles.nodeFailed]: step?.node === node && step.failed,
+                  })}
+                  aria-current={step?.node === node ? 'step' : undefined}
+                  onClick={() => jumpToNode(node)}
+                  onKeyDown={(event) => onNodeKeyDown(event, node)}>
+                  <code className={styles.nodeCall}>
+                    {isHandler
+                      ? `.handle(${handler.name ?? 'handler'})`
+                      : middleware.kind === 'guard'
+                        ? `.use(${middleware.name})`
+                        : `.use(new ${middleware.name}())`}
+                  </code>
+                  {isHandler ? (
+                    <span className={styles.nodeDescription}>{handler.description}</span>
+                  ) : (
+                    <HookBadges middleware={middleware} />
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+
+      <div className={styles.details}>
+        <ol className={styles.steps} aria-label="Execution order">
+          {steps.map((s, index) => (
+            <li
+              key={`${s.stage}-${s.node}`}
+              className={clsx(styles.step, {
+                [styles.stepActive]: index === current,
+                [styles.stepDone]: index < current,
+                [styles.stepFailed]: s.failed,
+              })}>
+              <span className={clsx(styles.hook, styles[`hook_${s.stage}`])}>{STAGE_LABELS[s.stage]}</span>
+              <code>{s.label}</code>
+            </li>
+          ))}
+        </ol>
+
+        <div className={styles.contextPanel}>
+          <div className={styles.contextTitle}>
+            <code>Context</code>
+            <span aria-live="polite">{step ? step.description : 'Press Play to send a request'}</span>
+          </div>
+          <table className={styles.contextTable}>
+            <tbody>
+              {CONTEXT_FIELDS.map((field) => (
+                <tr
+                  key={field}
+                  className={clsx({
+                    [styles.fieldChanged]: step?.changed.includes(field),
+                    [styles.fieldError]: field === 'error' && context.error !== INITIAL_CONTEXT.error,
+                  })}>
+                  <th scope="row">
+                    <code>{field}</code>
+                  </th>
+                  <td>
+                    <code>{context[field]}</code>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </figure>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Pure model of a Noony `Handler` execution, used by the pipeline diagram.
+ *
+ * Mirrors the runtime order: `before` hooks run in registration order, then
+ * the handler, then `after` hooks in reverse order. When something throws,
+ * every middleware with an `onError` hook runs, in reverse order.
+ */
+
+export type ContextField =
+  | 'req.parsedBody'
+  | 'req.validatedBody'
+  | 'user'
+  | 'businessData'
+  | 'error'
+  | 'responseData';
+
+export type ContextSnapshot = Record<ContextField, string>;
+
+export type ContextWrites = Partial<ContextSnapshot>;
+
+export interface PipelineHook {
+  description: string;
+  writes?: ContextWrites;
+}
+
+export interface PipelineMiddleware {
+  name: string;
+  /** Guards (e.g. `RouteGuards.requirePermissions([...])`) are factory calls rather than classes. */
+  kind?: 'middleware' | 'guard';
+  /** Error class this middleware throws when it rejects a request. */
+  throws?: string;
+  before?: PipelineHook;
+  after?: PipelineHook;
+  onError?: PipelineHook;
+}
+
+export interface PipelineHandler {
+  name?: string;
+  throws?: string;
+  description: string;
+  writes?: ContextWrites;
+}
+
+export type PipelineStage = 'before' | 'handler' | 'after' | 'onError';
+
+export interface PipelineStep {
+  /** Index of the node in the diagram; the handler comes after all middlewares. */
+  node: number;
+  stage: PipelineStage;
+  label: string;
+  description: string;
+  /** Context as it looks once this step has run. */
+  context: ContextSnapshot;
+  changed: ContextField[];
+  /** The step threw and switched the pipeline to the error path. */
+  failed?: boolean;
+}
+
+export const CONTEXT_FIELDS: ContextField[] = [
+  'req.parsedBody',
+  'req.validatedBody',
+  'user',
+  'businessData',
+  'error',
+  'responseData',
+];
+
+export const INITIAL_CONTEXT: ContextSnapshot = {
+  'req.parsedBody': 'undefined',
+  'req.validatedBody': 'undefined',
+  user: 'undefined',
+  businessData: 'Map(0) {}',
+  error: 'null',
+  responseData: 'undefined',
+};
+
+/** Value of `errorAt` that makes the business handler throw. */
+export const HANDLER_NODE = 'handler';
+
+function applyWrites(context: ContextSnapshot, writes: ContextWrites = {}) {
+  const changed = (Object.keys(writes) as ContextField[]).filter(
+    (field) => writes[field] !== context[field],
+  );
+  return {context: {...context, ...writes}, changed};
+}
+
+/**
+ * Expands middlewares and a handler into the ordered steps of one request.
+ *
+ * @param errorAt Name of the middleware whose `before` hook throws, or
+ *   `'handler'` to make the business handler throw. Omit for the success path.
+ */
+export function buildPipelineSteps(
+  middlewares: PipelineMiddleware[],
+  handler: PipelineHandler,
+  errorAt?: string,
+): PipelineStep[] {
+  const steps: PipelineStep[] = [];
+  let context = INITIAL_CONTEXT;
+
+  const push = (
+    node: number,
+    stage: PipelineStage,
+    label: string,
+    hook: PipelineHook,
+    thrown?: string,
+  ) => {
+    const failed = thrown !== undefined;
+    // A hook that throws never gets to write its own fields.
+    const writes = failed ? {error: thrown} : hook.writes;
+    const result = applyWrites(context, writes);
+    context = result.context;
+    steps.push({
+      node,
+      stage,
+      label,
+      description: failed ? `${hook.description} — throws ${thrown}` : hook.description,
+      context,
+      changed: result.changed,
+      ...(failed && {failed}),
+    });
+  };
+
+  const runErrorPath = () => {
+    for (let i = middlewares.length - 1; i >= 0; i--) {
+      const {name, onError} = middlewares[i];
+      if (onError) {
+        push(i, 'onError', `${name}.onError()`, onError);
+      }
+    }
+    return steps;
+  };
+
+  for (let i = 0; i < middlewares.length; i++) {
+    const {name, before, throws} = middlewares[i];
+    const thrown = errorAt === name ? (throws ?? 'Error') : undefined;
+    if (before || thrown) {
+      push(i, 'before', `${name}.before()`, before ?? {description: 'Runs before the handler'}, thrown);
+    }
+    if (thrown) {
+      return runErrorPath();
+    }
+  }
+
+  const handlerThrown = errorAt === HANDLER_NODE ? (handler.throws ?? 'Error') : undefined;
+  push(middlewares.length, 'handler', `${handler.name ?? 'handle'}()`, handler, handlerThrown);
+  if (handlerThrown) {
+    return runErrorPath();
+  }
+
+  for (let i = middlewares.length - 1; i >= 0; i--) {
+    const {name, after} = middlewares[i];
+    if (after) {
+      push(i, 'after', `${name}.after()`, after);
+    }
+  }
+  return steps;
+}
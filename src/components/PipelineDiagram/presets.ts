@@ -0,0 +1,115 @@
+import type {PipelineHandler, PipelineMiddleware} from './pipeline';
+
+export interface PipelinePreset {
+  middlewares: PipelineMiddleware[];
+  handler: PipelineHandler;
+}
+
+/** `POST /users` with authentication, parsing, validation and a wrapped response. */
+export const createUserPipeline: PipelinePreset = {
+  middlewares: [
+    {
+      name: 'ErrorHandlerMiddleware',
+      onError: {
+        description: 'Maps context.error to an HTTP status and a JSON error body',
+        writes: {responseData: '{ success: false, error: { message, code } }'},
+      },
+    },
+    {
+      name: 'AuthenticationMiddleware',
+      throws: 'AuthenticationError',
+      before: {
+        description: 'Verifies the bearer token and loads the caller',
+        writes: {user: "{ id: 'u_42', role: 'admin' }"},
+      },
+    },
+    {
+      name: 'BodyParserMiddleware',
+      throws: 'ValidationError',
+      before: {
+        description: 'Parses the raw JSON request body',
+        writes: {'req.parsedBody': "{ name: 'Ada', email: 'ada@example.com' }"},
+      },
+    },
+    {
+      name: 'BodyValidationMiddleware',
+      throws: 'ValidationError',
+      before: {
+        description: 'Validates req.parsedBody against the Zod schema',
+        writes: {'req.validatedBody': "{ name: 'Ada', email: 'ada@example.com' }"},
+      },
+    },
+    {
+      name: 'ResponseWrapperMiddleware',
+      after: {
+        description: 'Wraps the handler result in a standard envelope',
+        writes: {responseData: '{ success: true, payload: { user }, timestamp }'},
+      },
+    },
+  ],
+  handler: {
+    name: 'createUser',
+    description: 'Creates the user from req.validatedBody',
+    writes: {
+      businessData: "Map(1) { 'createdUser' => User }",
+      responseData: '{ user }',
+    },
+  },
+};
+
+/** `PATCH /orders/:id` behind a RouteGuards permission check, with injected services. */
+export const updateOrderPipeline: PipelinePreset = {
+  middlewares: [
+    {
+      name: 'ErrorHandlerMiddleware',
+      onError: {
+        description: 'Maps context.error to an HTTP status and a JSON error body',
+        writes: {responseData: '{ success: false, error: { message, code } }'},
+      },
+    },
+    {
+      name: "RouteGuards.requirePermissions(['order:update'])",
+      kind: 'guard',
+      throws: 'SecurityError',
+      before: {
+        description: 'Verifies the token and checks the order:update permission',
+        writes: {user: "{ id: 'u_42', permissions: ['order:update'] }"},
+      },
+    },
+    {
+      name: 'BodyParserMiddleware',
+      throws: 'ValidationError',
+      before: {
+        description: 'Parses the raw JSON request body',
+        writes: {'req.parsedBody': "{ status: 'shipped' }"},
+      },
+    },
+    {
+      name: 'BodyValidationMiddleware',
+      throws: 'ValidationError',
+      before: {
+        description: 'Validates req.parsedBody against the Zod schema',
+        writes: {'req.validatedBody': "{ status: 'shipped' }"},
+      },
+    },
+    {
+      name: 'DependencyInjectionMiddleware',
+      before: {
+        description: 'Registers OrderService in the request container',
+      },
+    },
+    {
+      name: 'ResponseWrapperMiddleware',
+      after: {
+        description: 'Wraps the handler result in a standard envelope',
+        writes: {responseData: '{ success: true, payload: { order }, timestamp }'},
+      },
+    },
+  ],
+  handler: {
+    name: 'updateOrder',
+    throws: 'HttpError',
+    description: 'Updates the order through OrderService',
+    writes: {responseData: '{ order }'},
+  },
+};
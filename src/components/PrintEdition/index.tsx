@@ -0,0 +1,166 @@
+import type {ComponentProps, ComponentType, ElementType, ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import {MDXProvider, useMDXComponents} from '@mdx-js/react';
+import Head from '@docusaurus/Head';
+import useBrokenLinks from '@docusaurus/useBrokenLinks';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import {HtmlClassNameProvider} from '@docusaurus/theme-common';
+import type {PropDocContent} from '@docusaurus/plugin-content-docs';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import MDXContent from '@theme/MDXContent';
+import {anchorsByPermalink, headingAnchor, printHref, type PrintLinkContext} from './links';
+import type {PrintDoc, PrintEditionData} from './types';
+import styles from './styles.module.css';
+
+export interface PrintEditionProps {
+  data: PrintEditionData;
+  /** Content of each doc in `data.outline`, in order. */
+  docs: {content: PropDocContent}[];
+}
+
+type Components = ReturnType<typeof useMDXComponents>;
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] as const;
+
+// Prefixes heading ids, points links at the printed copy of their target and
+// swaps Mermaid diagrams for their pre-rendered SVG.
+function usePrintComponents(doc: PrintDoc, links: PrintLinkContext, diagrams: PrintEditionData['diagrams']): Components {
+  const parent = useMDXComponents();
+  return React.useMemo(() => {
+    const A = (parent.a ?? 'a') as ElementType;
+    const Mermaid = (parent as {mermaid?: ComponentType<{value: string}>}).mermaid;
+    const headings = Object.fromEntries(
+      HEADINGS.map((tag) => {
+        const H = (parent[tag] ?? tag) as ElementType;
+        const PrintHeading = ({id, ...props}: ComponentProps<typeof tag>) => (
+          <H {...props} id={id && headingAnchor(doc.anchor, id)} />
+        );
+        return [tag, PrintHeading];
+      }),
+    );
+    return {
+      ...headings,
+      a: ({href, ...props}: ComponentProps<'a'>) => <A {...props} href={href && printHref(href, links)} />,
+      mermaid: ({value}: {value: string}) =>
+        diagrams[value] ? (
+          <div className={styles.diagram} dangerouslySetInnerHTML={{__html: diagrams[value]}} />
+        ) : (
+          Mermaid && <Mermaid value={value} />
+        ),
+    };
+  }, [parent, doc, links, diagrams]);
+}
+
+interface PrintedDocProps {
+  doc: PrintDoc;
+  Content: PropDocContent;
+  anchors: PrintLinkContext['anchors'];
+  diagrams: PrintEditionData['diagrams'];
+}
+
+function PrintedDoc({doc, Content, anchors, diagrams}: PrintedDocProps): ReactNode {
+  const {siteConfig} = useDocusaurusContext();
+  const links = React.useMemo(
+    () => ({permalink: doc.permalink, anchors, baseUrl: siteConfig.baseUrl}),
+    [doc, anchors, siteConfig.baseUrl],
+  );
+  const components = usePrintComponents(doc, links, diagrams);
+  // Rewritten links to a doc point at its section, which isn't a heading.
+  useBrokenLinks().collectAnchor(doc.anchor);
+  return (
+    <section id={doc.anchor} className={clsx('markdown', styles.doc)}>
+      {!Content.contentTitle && <Heading as="h1">{doc.title}</Heading>}
+      <MDXProvider components={components}>
+        <Content />
+      </MDXProvider>
+    </section>
+  );
+}
+
+export default function PrintEdition({data, docs}: PrintEditionProps): ReactNode {
+  const {siteConfig} = useDocusaurusContext();
+  const printed = data.outline.filter((item): item is PrintDoc => item.type === 'doc');
+  const contents = new Map(printed.map((doc, index) => [doc.id, docs[index]!.content]));
+  const anchors = React.useMemo(() => anchorsByPermalink(printed, siteConfig.baseUrl), [data, siteConfig.baseUrl]);
+
+  return (
+    <HtmlClassNameProvider className={styles.printEdition}>
+      <Layout title={data.title} description="All the Noony documentation on a single page, for printing and offline reading.">
+        <Head>
+          {/* Same content as the doc pages; keep search engines on those. */}
+          <meta name="robots" content="noindex" />
+        </Head>
+        <main className={clsx('container', styles.printPage)}>
+          <div className={styles.toolbar}>
+            <span>All {printed.length} docs pages on a single page, for printing and offline reading.</span>
+            <button type="button" className="button button--primary button--sm" onClick={() => window.print()}>
+              Print or save as PDF
+            </button>
+          </div>
+
+          <header className={styles.cover}>
+            <Heading as="h1">{data.title}</Heading>
+            <p>
+              {siteConfig.url}
+              {siteConfig.baseUrl}
+            </p>
+            <p>Generated on {data.generatedOn}</p>
+          </header>
+
+          <nav className={styles.toc} aria-label="Table of contents">
+            <Heading as="h2">Contents</Heading>
+            <ol>
+              {data.outline.map((item) => (
+                <li key={item.anchor} className={styles[`depth${Math.min(item.depth, 3)}`]}>
+                  {item.type === 'part' ? (
+                    <a href={`#${item.anchor}`} className={styles.tocPart}>
+                      {item.label}
+                    </a>
+                  ) : (
+                    <>
+                      <a href={`#${item.anchor}`}>{item.title}</a>
+                      <ol>
+                        {contents
+                          .get(item.id)!
+                          .toc.filter((heading) => heading.level === 2)
+                          .map((heading) => (
+                            <li key={heading.id}>
+                              <a
+                                href={`#${headingAnchor(item.anchor, heading.id)}`}
+                                dangerouslySetInnerHTML={{__html: heading.value}}
+                              />
+                            </li>
+                          ))}
+                      </ol>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </nav>
+
+          <MDXContent>
+            {data.outline.map((item) =>
+              item.type === 'part' ? (
+                // Not <Heading>: it leaves the id off h1 elements.
+                <h1 key={item.anchor} id={item.anchor} className={styles.part}>
+                  {item.label}
+                </h1>
+              ) : (
+                <PrintedDoc
+                  key={item.anchor}
+                  doc={item}
+                  Content={contents.get(item.id)!}
+                  anchors={anchors}
+                  diagrams={data.diagrams}
+                />
+              ),
+            )}
+          </MDXContent>
+        </main>
+      </Layout>
+    </HtmlClassNameProvider>
+  );
+}
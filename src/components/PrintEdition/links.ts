@@ -0,0 +1,57 @@
+/**
+ * Anchors of the print edition. Every doc becomes a section whose id is
+ * derived from its permalink, and its heading ids are prefixed with that id
+ * so the same heading in two docs can't collide. Links to a printed doc are
+ * rewritten to point at its section instead of the online page.
+ */
+
+// Only used to resolve relative links; never requested.
+const ORIGIN = 'https://print.invalid';
+
+function stripBaseUrl(pathname: string, baseUrl: string): string {
+  const path = pathname.startsWith(baseUrl) ? `/${pathname.slice(baseUrl.length)}` : pathname;
+  return path.length > 1 ? path.replace(/\/$/, '') : path;
+}
+
+/** `/noony-docs/docs/core-concepts/handler` → `docs-core-concepts-handler`. */
+export function docAnchor(permalink: string, baseUrl: string): string {
+  return stripBaseUrl(permalink, baseUrl).replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '') || 'home';
+}
+
+export function headingAnchor(doc: string, id: string): string {
+  return `${doc}--${id}`;
+}
+
+export interface PrintLinkContext {
+  /** Permalink of the doc the link appears in, for relative and `#hash` links. */
+  permalink: string;
+  /** Doc anchor by permalink, for every printed doc. */
+  anchors: Map<string, string>;
+  baseUrl: string;
+}
+
+export function anchorsByPermalink(docs: {permalink: string; anchor: string}[], baseUrl: string): Map<string, string> {
+  return new Map(docs.map((doc) => [stripBaseUrl(doc.permalink, baseUrl), doc.anchor]));
+}
+
+/**
+ * In-page href for a link to a printed doc, e.g. `/docs/intro#install` →
+ * `#docs-intro--install`. Links to anything else are returned unchanged.
+ */
+export function printHref(href: string, {permalink, anchors, baseUrl}: PrintLinkContext): string {
+  let url: URL;
+  try {
+    url = new URL(href, ORIGIN + permalink);
+  } catch {
+    return href;
+  }
+  if (url.origin !== ORIGIN) {
+    return href;
+  }
+  const doc = anchors.get(stripBaseUrl(url.pathname, baseUrl));
+  if (!doc) {
+    return href;
+  }
+  const hash = decodeURIComponent(url.hash.slice(1));
+  return `#${hash ? headingAnchor(doc, hash) : doc}`;
+}
@@ -0,0 +1,31 @@
+/** A sidebar category, printed as a part heading before its docs. */
+export interface PrintPart {
+  type: 'part';
+  label: string;
+  anchor: string;
+  /** Nesting depth in the sidebar, starting at 0. */
+  depth: number;
+}
+
+/** A doc page, printed in full. */
+export interface PrintDoc {
+  type: 'doc';
+  id: string;
+  title: string;
+  permalink: string;
+  anchor: string;
+  depth: number;
+}
+
+export type PrintOutlineItem = PrintPart | PrintDoc;
+
+/** Props data of the print edition route. */
+export interface PrintEditionData {
+  title: string;
+  /** Date the edition was built, as `YYYY-MM-DD`. */
+  generatedOn: string;
+  /** Sidebar items in order; `docs` has one content module per `PrintDoc`. */
+  outline: PrintOutlineItem[];
+  /** Pre-rendered SVG of each Mermaid diagram, by diagram source. */
+  diagrams: {[source: string]: string};
+}
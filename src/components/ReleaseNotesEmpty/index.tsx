@@ -0,0 +1,21 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import Link from '@docusaurus/Link';
+
+/** Served at the release notes route until a package changelog is added under `changelogs/`. */
+export default function ReleaseNotesEmpty(): ReactNode {
+  return (
+    <Layout title="Release notes" description="What changed in each release of the Noony packages">
+      <main className="container margin-vert--lg">
+        <Heading as="h1">Release notes</Heading>
+        <p>
+          No release notes have been published here yet. See the{' '}
+          <Link to="https://www.npmjs.com/package/@noony-serverless/core">package on npm</Link> for its published
+          versions.
+        </p>
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * Endpoint scaffolder configuration: everything the `/scaffold` form collects,
+ * plus the URL encoding used for share links.
+ */
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export const FIELD_TYPES = ['string', 'number', 'boolean', 'email', 'uuid', 'date'] as const;
+
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export interface BodyField {
+  name: string;
+  type: FieldType;
+  optional: boolean;
+}
+
+/**
+ * - `none`: public endpoint
+ * - `token`: `AuthenticationMiddleware` with a token verifier
+ * - `guard`: `RouteGuards` authentication plus a permission check
+ */
+export type AuthMode = 'none' | 'token' | 'guard';
+
+export interface ScaffoldConfig {
+  /** camelCase handler name, e.g. `createUser`. */
+  name: string;
+  method: HttpMethod;
+  bodyFields: BodyField[];
+  headers: string[];
+  query: string[];
+  /** Service classes registered with `DependencyInjectionMiddleware`. */
+  services: string[];
+  auth: AuthMode;
+  /** Required permissions when `auth` is `guard`; entries with `*` use wildcard matching. */
+  permissions: string[];
+  errorHandler: boolean;
+  responseWrapper: boolean;
+}
+
+export const DEFAULT_CONFIG: ScaffoldConfig = {
+  name: 'createUser',
+  method: 'POST',
+  bodyFields: [
+    {name: 'name', type: 'string', optional: false},
+    {name: 'email', type: 'email', optional: false},
+    {name: 'age', type: 'number', optional: true},
+  ],
+  headers: ['authorization'],
+  query: [],
+  services: ['UserService'],
+  auth: 'guard',
+  permissions: ['user:create'],
+  errorHandler: true,
+  responseWrapper: true,
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export function isIdentifier(value: string): boolean {
+  return IDENTIFIER.test(value);
+}
+
+/** Methods whose requests carry a JSON body that gets parsed and validated. */
+export function hasBody(config: ScaffoldConfig): boolean {
+  return config.method !== 'GET' && config.method !== 'DELETE' && config.bodyFields.length > 0;
+}
+
+/** Problems that would make the generated module fail to compile. */
+export function validateConfig(config: ScaffoldConfig): string[] {
+  const errors: string[] = [];
+  if (!isIdentifier(config.name)) {
+    errors.push(`Handler name "${config.name}" is not a valid identifier.`);
+  }
+  for (const field of config.bodyFields) {
+    if (!isIdentifier(field.name)) {
+      errors.push(`Body field "${field.name}" is not a valid identifier.`);
+    }
+  }
+  const names = config.bodyFields.map((field) => field.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    errors.push(`Body field "${duplicate}" is defined more than once.`);
+  }
+  for (const service of config.services) {
+    if (!isIdentifier(service)) {
+      errors.push(`Service "${service}" is not a valid class name.`);
+    }
+  }
+  if (config.auth === 'guard' && config.permissions.length === 0) {
+    errors.push('Route guards need at least one permission.');
+  }
+  return errors;
+}
+
+export function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+export function encodeConfig(config: ScaffoldConfig): string {
+  return toBase64Url(JSON.stringify(config));
+}
+
+const stringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string') ? value : undefined;
+
+/**
+ * Reads a shared configuration. Unknown or malformed entries fall back to the
+ * defaults so an old or hand-edited link still opens.
+ */
+export function decodeConfig(value: string): ScaffoldConfig | undefined {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(fromBase64Url(value));
+  } catch {
+    return undefined;
+  }
+  if (typeof raw !== 'object' || raw === null) {
+    return undefined;
+  }
+  const bodyFields = Array.isArray(raw.bodyFields)
+    ? raw.bodyFields.filter(
+        (field): field is BodyField =>
+          typeof field?.name === 'string' &&
+          (FIELD_TYPES as readonly string[]).includes(field.type) &&
+          typeof field.optional === 'boolean',
+      )
+    : undefined;
+  return {
+    name: typeof raw.name === 'string' ? raw.name : DEFAULT_CONFIG.name,
+    method: (HTTP_METHODS as readonly unknown[]).includes(raw.method) ? (raw.method as HttpMethod) : DEFAULT_CONFIG.method,
+    bodyFields: bodyFields ?? DEFAULT_CONFIG.bodyFields,
+    headers: stringList(raw.headers) ?? DEFAULT_CONFIG.headers,
+    query: stringList(raw.query) ?? DEFAULT_CONFIG.query,
+    services: stringList(raw.services) ?? DEFAULT_CONFIG.services,
+    auth: raw.auth === 'none' || raw.auth === 'token' || raw.auth === 'guard' ? raw.auth : DEFAULT_CONFIG.auth,
+    permissions: stringList(raw.permissions) ?? DEFAULT_CONFIG.permissions,
+    errorHandler: typeof raw.errorHandler === 'boolean' ? raw.errorHandler : DEFAULT_CONFIG.errorHandler,
+    responseWrapper: typeof raw.responseWrapper === 'boolean' ? raw.responseWrapper : DEFAULT_CONFIG.responseWrapper,
+  };
+}
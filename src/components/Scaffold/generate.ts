@@ -0,0 +1,402 @@
+import {hasBody, type BodyField, type FieldType, type ScaffoldConfig} from './config';
+
+/**
+ * Turns a scaffolder configuration into a handler module and a Jest test.
+ *
+ * Middlewares are emitted in the order the middleware registry recommends
+ * (`src/components/MiddlewareMatrix/registry.ts`), so the order checker
+ * accepts the result: error handling first, then authentication, header and
+ * query checks, body parsing and validation, DI, and the response wrapper last.
+ */
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+const PACKAGE = '@noony-serverless/core';
+
+const ZOD_TYPES: Record<FieldType, string> = {
+  string: 'z.string().min(1)',
+  number: 'z.number()',
+  boolean: 'z.boolean()',
+  email: 'z.string().email()',
+  uuid: 'z.string().uuid()',
+  date: 'z.string().datetime()',
+};
+
+const TS_TYPES: Record<FieldType, string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  email: 'string',
+  uuid: 'string',
+  date: 'string',
+};
+
+const SAMPLE_VALUES: Record<FieldType, string> = {
+  string: "'example'",
+  number: '1',
+  boolean: 'true',
+  email: "'user@example.com'",
+  uuid: "'123e4567-e89b-12d3-a456-426614174000'",
+  date: "'2025-01-01T00:00:00.000Z'",
+};
+
+const SUCCESS_STATUS: Record<ScaffoldConfig['method'], number> = {
+  GET: 200,
+  POST: 201,
+  PUT: 200,
+  PATCH: 200,
+  DELETE: 200,
+};
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function camelCase(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function stringArray(values: string[]): string {
+  return `[${values.map((value) => `'${value.replace(/'/g, "\\'")}'`).join(', ')}]`;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+function objectLiteral(entries: [string, string][]): string {
+  if (entries.length === 0) {
+    return '{}';
+  }
+  return `{ ${entries.map(([name, value]) => `${propertyKey(name)}: '${value}'`).join(', ')} }`;
+}
+
+function isAuthorization(header: string): boolean {
+  return header.toLowerCase() === 'authorization';
+}
+
+/** A concrete permission the required ones accept, e.g. `user:test` for `user:*`. */
+function grantedPermission(permission: string): string {
+  return permission.replace(/\*/g, 'test');
+}
+
+export function requestTypeName(config: ScaffoldConfig): string {
+  return `${pascalCase(config.name)}Request`;
+}
+
+export function handlerName(config: ScaffoldConfig): string {
+  return `${config.name}Handler`;
+}
+
+function requestInterface(config: ScaffoldConfig): string[] {
+  return [
+    `export interface ${requestTypeName(config)} {`,
+    ...config.bodyFields.map((field) => `  ${field.name}${field.optional ? '?' : ''}: ${TS_TYPES[field.type]};`),
+    '}',
+  ];
+}
+
+function schema(config: ScaffoldConfig): string[] {
+  const field = (f: BodyField) => `  ${f.name}: ${ZOD_TYPES[f.type]}${f.optional ? '.optional()' : ''},`;
+  return [
+    `export const ${config.name}Schema: z.ZodType<${requestTypeName(config)}> = z.object({`,
+    ...config.bodyFields.map(field),
+    '});',
+  ];
+}
+
+interface MiddlewareLine {
+  code: string;
+  imports: string[];
+  comment: string;
+}
+
+function middlewareLines(config: ScaffoldConfig): MiddlewareLine[] {
+  const lines: MiddlewareLine[] = [];
+  if (config.errorHandler) {
+    lines.push({
+      code: 'new ErrorHandlerMiddleware()',
+      imports: ['ErrorHandlerMiddleware'],
+      comment: 'First, so it catches errors from every later step',
+    });
+  }
+  if (config.auth === 'token') {
+    lines.push({
+      code: 'new AuthenticationMiddleware(tokenVerifier)',
+      imports: ['AuthenticationMiddleware'],
+      comment: 'Verifies the bearer token and sets context.user',
+    });
+  }
+  if (config.auth === 'guard') {
+    const wildcard = config.permissions.some((permission) => permission.includes('*'));
+    lines.push({
+      code: `RouteGuards.${wildcard ? 'requireWildcardPermissions' : 'requirePermissions'}(${stringArray(config.permissions)})`,
+      imports: ['RouteGuards'],
+      comment: 'Authenticates, then requires any one of the permissions',
+    });
+  }
+  if (config.headers.length) {
+    lines.push({
+      code: `new HeaderVariablesMiddleware(${stringArray(config.headers)})`,
+      imports: ['HeaderVariablesMiddleware'],
+      comment: 'Required headers',
+    });
+  }
+  if (config.query.length) {
+    lines.push({
+      code: `new QueryParametersMiddleware(${stringArray(config.query)})`,
+      imports: ['QueryParametersMiddleware'],
+      comment: 'Required query parameters',
+    });
+  }
+  if (hasBody(config)) {
+    lines.push(
+      {
+        code: 'new BodyParserMiddleware()',
+        imports: ['BodyParserMiddleware'],
+        comment: 'Parses the JSON body into req.parsedBody',
+      },
+      {
+        code: `new BodyValidationMiddleware(${config.name}Schema)`,
+        imports: ['BodyValidationMiddleware'],
+        comment: 'Validates req.parsedBody into req.validatedBody',
+      },
+    );
+  }
+  if (config.services.length) {
+    const registrations = config.services.map((service) => `{ id: ${service}, value: new ${service}() }`).join(', ');
+    lines.push({
+      code: `new DependencyInjectionMiddleware([${registrations}])`,
+      imports: ['DependencyInjectionMiddleware'],
+      comment: 'Registers the services the handler uses',
+    });
+  }
+  if (config.responseWrapper) {
+    lines.push({
+      code: 'new ResponseWrapperMiddleware()',
+      imports: ['ResponseWrapperMiddleware'],
+      comment: 'Last, so it wraps the final response',
+    });
+  }
+  return lines;
+}
+
+function handleBody(config: ScaffoldConfig): string[] {
+  const lines: string[] = [];
+  for (const service of config.services) {
+    lines.push(`    const ${camelCase(service)} = context.container?.get(${service});`);
+  }
+  if (hasBody(config)) {
+    lines.push('    const body = context.req.validatedBody!;');
+  }
+  if (config.query.length) {
+    lines.push(`    const { ${config.query.filter((name) => /^[A-Za-z_$][\w$]*$/.test(name)).join(', ')} } = context.req.query;`);
+  }
+  if (config.auth !== 'none') {
+    lines.push('    const user = context.user!;');
+  }
+  const status = SUCCESS_STATUS[config.method];
+  lines.push(
+    '',
+    `    // TODO: implement ${config.name}`,
+    `    context.res${status === 200 ? '' : `.status(${status})`}.json({ success: true });`,
+  );
+  return lines;
+}
+
+export function generateHandler(config: ScaffoldConfig): string {
+  const middlewares = middlewareLines(config);
+  const coreImports = ['Handler', 'Context', ...middlewares.flatMap((middleware) => middleware.imports)];
+  const requestType = hasBody(config) ? requestTypeName(config) : 'unknown';
+  const lines: string[] = [];
+
+  if (hasBody(config)) {
+    lines.push("import { z } from 'zod';");
+  }
+  lines.push(`import {\n${coreImports.map((name) => `  ${name},`).join('\n')}\n} from '${PACKAGE}';`);
+  if (config.services.length) {
+    lines.push(`import { ${config.services.join(', ')} } from '../services';`);
+  }
+  if (config.auth === 'token') {
+    lines.push("import { tokenVerifier } from '../auth/token-verifier';");
+  }
+  lines.push('');
+
+  if (hasBody(config)) {
+    lines.push(...requestInterface(config), '', ...schema(config), '');
+  }
+
+  lines.push(
+    `export const ${handlerName(config)} = new Handler<${requestType}>()`,
+    ...middlewares.map((middleware) => `  .use(${middleware.code}) // ${middleware.comment}`),
+    `  .handle(async (context: Context<${requestType}>) => {`,
+    ...handleBody(config),
+    '  });',
+    '',
+  );
+  return lines.join('\n');
+}
+
+function sampleBody(fields: BodyField[]): string {
+  return `{ ${fields.map((field) => `${field.name}: ${SAMPLE_VALUES[field.type]}`).join(', ')} }`;
+}
+
+function authSetup(config: ScaffoldConfig): string[] {
+  if (config.auth === 'token') {
+    return [
+      '// Every token verifies as the same test user',
+      "jest.mock('../auth/token-verifier', () => ({",
+      "  tokenVerifier: { verifyToken: jest.fn(async () => ({ id: 'test-user', sub: 'test-user' })) },",
+      '}));',
+      '',
+    ];
+  }
+  if (config.auth === 'guard') {
+    return [
+      '// Every token verifies as a test user holding the required permission',
+      'const testUser = {',
+      "  id: 'test-user',",
+      "  sub: 'test-user',",
+      `  permissions: ['${grantedPermission(config.permissions[0])}'],`,
+      '  roles: [] as string[],',
+      '};',
+      '',
+      'beforeAll(async () => {',
+      '  await RouteGuards.configure(',
+      '    GuardSetup.testing(),',
+      '    {',
+      '      async getUserPermissions() {',
+      '        return { permissions: testUser.permissions, roles: testUser.roles };',
+      '      },',
+      '      async getRolePermissions() {',
+      '        return [];',
+      '      },',
+      '      async isUserContextStale() {',
+      '        return false;',
+      '      },',
+      '    },',
+      '    { verifyToken: async () => testUser },',
+      "    { tokenHeader: 'authorization', tokenPrefix: 'Bearer ' },",
+      '  );',
+      '});',
+      '',
+    ];
+  }
+  return [];
+}
+
+export function generateTest(config: ScaffoldConfig): string {
+  const handler = handlerName(config);
+  const headerNames =
+    config.auth !== 'none' && !config.headers.some(isAuthorization) ? ['authorization', ...config.headers] : config.headers;
+  const headers = objectLiteral(headerNames.map((name) => [name, isAuthorization(name) ? 'Bearer test-token' : 'test']));
+  const query = objectLiteral(config.query.map((name) => [name, 'test']));
+  const requiredFields = config.bodyFields.filter((field) => !field.optional);
+  const rejected = (call: string, status = 400) =>
+    config.errorHandler
+      ? [`    await ${call};`, '', `    expect(res.statusCode).toBe(${status});`]
+      : [`    await expect(${call}).rejects.toThrow();`];
+
+  const lines = [
+    ...(config.auth === 'guard' ? [`import { GuardSetup, RouteGuards } from '${PACKAGE}';`] : []),
+    `import { ${handler} } from './${config.name}';`,
+    '',
+    ...authSetup(config),
+    '// Minimal framework-agnostic response that records what the handler sent',
+    'function createResponse() {',
+    '  const res = {',
+    '    statusCode: 200,',
+    '    body: undefined as unknown,',
+    '    headers: {} as Record<string, string>,',
+    '    status: jest.fn((code: number) => {',
+    '      res.statusCode = code;',
+    '      return res;',
+    '    }),',
+    '    json: jest.fn((body: unknown) => {',
+    '      res.body = body;',
+    '    }),',
+    '    send: jest.fn((body: unknown) => {',
+    '      res.body = body;',
+    '    }),',
+    '    header: jest.fn((name: string, value: string) => {',
+    '      res.headers[name] = value;',
+    '      return res;',
+    '    }),',
+    '    end: jest.fn(),',
+    '  };',
+    '  return res;',
+    '}',
+    '',
+    'function createRequest(overrides: Record<string, unknown> = {}) {',
+    '  return {',
+    `    method: '${config.method}',`,
+    `    url: '/${config.name}',`,
+    `    headers: ${headers},`,
+    `    query: ${query},`,
+    '    params: {},',
+    ...(hasBody(config) ? [`    body: ${sampleBody(config.bodyFields)},`] : []),
+    '    ...overrides,',
+    '  };',
+    '}',
+    '',
+    `describe('${handler}', () => {`,
+  ];
+  lines.push(
+    `  it('responds ${SUCCESS_STATUS[config.method]} to a valid request', async () => {`,
+    '    const res = createResponse();',
+    `    await ${handler}.execute(createRequest() as any, res as any);`,
+    '',
+    `    expect(res.statusCode).toBe(${SUCCESS_STATUS[config.method]});`,
+    '  });',
+  );
+  if (config.headers.length) {
+    const [header] = config.headers;
+    // Without the token, authentication rejects the request before the header check runs
+    const status = config.auth !== 'none' && isAuthorization(header) ? 401 : 400;
+    lines.push(
+      '',
+      `  it('rejects a request without the ${header} header', async () => {`,
+      '    const res = createResponse();',
+      `    const { ${propertyKey(header)}: _omitted, ...headers } = createRequest().headers;`,
+      ...rejected(`${handler}.execute(createRequest({ headers }) as any, res as any)`, status),
+      '  });',
+    );
+  }
+  if (config.query.length) {
+    lines.push(
+      '',
+      `  it('rejects a request without the ${config.query[0]} query parameter', async () => {`,
+      '    const res = createResponse();',
+      ...rejected(`${handler}.execute(createRequest({ query: {} }) as any, res as any)`),
+      '  });',
+    );
+  }
+  if (hasBody(config) && requiredFields.length) {
+    lines.push(
+      '',
+      `  it('rejects a body without ${requiredFields[0].name}', async () => {`,
+      '    const res = createResponse();',
+      `    const { ${requiredFields[0].name}: _omitted, ...body } = createRequest().body;`,
+      ...rejected(`${handler}.execute(createRequest({ body }) as any, res as any)`),
+      '  });',
+    );
+  }
+  if (config.auth !== 'none') {
+    lines.push('', `  it.todo('rejects a request with an invalid token');`);
+  }
+  if (config.auth === 'guard') {
+    lines.push(`  it.todo('rejects a user without ${config.permissions.join(' or ')}');`);
+  }
+  lines.push('});', '');
+  return lines.join('\n');
+}
+
+export function generateFiles(config: ScaffoldConfig): GeneratedFile[] {
+  return [
+    {path: `src/handlers/${config.name}.ts`, content: generateHandler(config)},
+    {path: `src/handlers/${config.name}.test.ts`, content: generateTest(config)},
+  ];
+}
@@ -0,0 +1,232 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import CodeBlock from '@theme/CodeBlock';
+import {useHistory, useLocation} from '@docusaurus/router';
+import ErrorResponsePreview from '../ErrorCatalog/ErrorResponsePreview';
+import {PRESETS} from './presets';
+import {decodeState, encodeState, SHARE_PARAM} from './share';
+import {outputType} from './typeText';
+import {loadSchema, validateBody, type ValidationOutcome} from './validate';
+import styles from './styles.module.css';
+
+export interface SchemaPlaygroundProps {
+  /** Schema module the editor starts with; the first example by default. */
+  schema?: string;
+  /** JSON body the editor starts with. */
+  body?: string;
+}
+
+type PlaygroundResult =
+  | {kind: 'pending'}
+  | {kind: 'shared'}
+  | {kind: 'schema-error'; message: string}
+  | {kind: 'done'; outcome: ValidationOutcome; type?: string};
+
+const ANCHOR = 'schema-playground';
+const DEBOUNCE_MS = 300;
+
+function rejection(outcome: Extract<ValidationOutcome, {kind: 'invalid'}>): ReactNode {
+  if (outcome.thrown) {
+    return (
+      <>
+        The schema threw <code>{outcome.thrown}</code>, so the client gets a 500.
+      </>
+    );
+  }
+  const issues = Array.isArray(outcome.error.details) ? outcome.error.details.length : 0;
+  return issues
+    ? `The body fails ${issues} ${issues > 1 ? 'checks' : 'check'}; the handler never runs.`
+    : `${outcome.error.message}; the handler never runs.`;
+}
+
+function Outcome({outcome, type}: {outcome: ValidationOutcome; type?: string}): ReactNode {
+  if (outcome.kind === 'invalid') {
+    return (
+      <>
+        <p className={styles.verdict}>
+          <span className={clsx(styles.badge, styles.invalid)}>{outcome.status}</span>
+          <span>{rejection(outcome)}</span>
+        </p>
+        <ErrorResponsePreview
+          error={outcome.thrown ? 'Error' : 'ValidationError'}
+          message={outcome.thrown ?? outcome.error.message}
+          details={outcome.error.details}
+        />
+      </>
+    );
+  }
+  return (
+    <>
+      <p className={styles.verdict}>
+        <span className={clsx(styles.badge, styles.valid)}>Valid</span>
+        <span>
+          The handler receives this as <code>context.req.validatedBody</code>, after defaults and transforms.
+        </span>
+      </p>
+      <CodeBlock language="json" title="context.req.validatedBody">
+        {JSON.stringify(outcome.output, null, 2) ?? 'undefined'}
+      </CodeBlock>
+      {type && (
+        <CodeBlock language="typescript" title="z.infer<typeof schema>">
+          {type}
+        </CodeBlock>
+      )}
+    </>
+  );
+}
+
+/**
+ * Validates a JSON body against a Zod schema the way `BodyValidationMiddleware`
+ * does, and shows either the validated output with its inferred type or the
+ * 400 response the client would get.
+ */
+export default function SchemaPlayground({
+  schema: initialSchema = PRESETS[0].schema,
+  body: initialBody = PRESETS[0].body,
+}: SchemaPlaygroundProps): ReactNode {
+  const id = React.useId();
+  const location = useLocation();
+  const history = useHistory();
+  const [schemaText, setSchemaText] = React.useState(initialSchema);
+  const [bodyText, setBodyText] = React.useState(initialBody);
+  const [result, setResult] = React.useState<PlaygroundResult>({kind: 'pending'});
+  // A schema from a share link is code someone else wrote: it only runs once the reader asks.
+  const [sharedSchema, setSharedSchema] = React.useState(false);
+  const [shareLabel, setShareLabel] = React.useState<string>();
+  // The link this playground put in the URL itself, which needs no confirmation
+  const ownLink = React.useRef<string | null>(null);
+
+  React.useEffect(() => {
+    const shared = new URLSearchParams(location.search).get(SHARE_PARAM);
+    if (shared === ownLink.current) {
+      return;
+    }
+    const decoded = shared ? decodeState(shared) : undefined;
+    if (decoded) {
+      setSchemaText(decoded.schema);
+      setBodyText(decoded.body);
+      setSharedSchema(true);
+    }
+  }, [location.search]);
+
+  // Re-run once typing pauses; a slower earlier run must not overwrite a newer one.
+  React.useEffect(() => {
+    if (sharedSchema) {
+      setResult({kind: 'shared'});
+      return;
+    }
+    let current = true;
+    const timer = setTimeout(async () => {
+      let next: PlaygroundResult;
+      try {
+        const {schema, zod} = await loadSchema(schemaText);
+        const outcome = await validateBody(schema, bodyText);
+        next = {kind: 'done', outcome, type: outcome.kind === 'valid' ? outputType(zod, schema) : undefined};
+      } catch (error) {
+        next = {kind: 'schema-error', message: (error as Error).message};
+      }
+      if (current) {
+        setResult(next);
+      }
+    }, DEBOUNCE_MS);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [schemaText, bodyText, sharedSchema]);
+
+  const loadPreset = (index: number) => {
+    setSchemaText(PRESETS[index].schema);
+    setBodyText(PRESETS[index].body);
+    setSharedSchema(false);
+  };
+
+  const share = async () => {
+    const params = new URLSearchParams(location.search);
+    ownLink.current = encodeState({schema: schemaText, body: bodyText});
+    params.set(SHARE_PARAM, ownLink.current);
+    const search = `?${params}`;
+    history.replace({...location, search});
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${location.pathname}${search}#${ANCHOR}`);
+      setShareLabel('Link copied');
+    } catch {
+      // Clipboard access denied: the link is still in the address bar
+      setShareLabel('Copy the link from the address bar');
+    }
+    setTimeout(() => setShareLabel(undefined), 2000);
+  };
+
+  return (
+    <div id={ANCHOR} className={styles.playground}>
+      <div className={styles.toolbar}>
+        <label className={styles.field}>
+          Example
+          <select value="" onChange={(event) => loadPreset(Number(event.target.value))}>
+            <option value="" disabled>
+              Load an example…
+            </option>
+            {PRESETS.map((preset, index) => (
+              <option key={preset.label} value={index}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="button" className={clsx('button button--sm button--secondary', styles.share)} onClick={share}>
+          {shareLabel ?? 'Copy share link'}
+        </button>
+      </div>
+
+      <div className={styles.inputs}>
+        <div className={styles.field}>
+          <label htmlFor={`${id}-schema`}>Zod schema</label>
+          <textarea
+            id={`${id}-schema`}
+            className={styles.editor}
+            rows={18}
+            spellCheck={false}
+            value={schemaText}
+            onChange={(event) => setSchemaText(event.target.value)}
+          />
+          <span className={styles.hint}>
+            TypeScript importing <code>zod</code>. The default export is used, or else the last exported schema.
+          </span>
+        </div>
+        <div className={styles.field}>
+          <label htmlFor={`${id}-body`}>Request body (JSON)</label>
+          <textarea
+            id={`${id}-body`}
+            className={styles.editor}
+            rows={18}
+            spellCheck={false}
+            value={bodyText}
+            onChange={(event) => setBodyText(event.target.value)}
+          />
+          <span className={styles.hint}>
+            Sent as a <code>POST</code> through <code>BodyParserMiddleware</code> and{' '}
+            <code>BodyValidationMiddleware</code>.
+          </span>
+        </div>
+      </div>
+
+      <div className={styles.result} aria-live="polite">
+        {result.kind === 'pending' && <p className={styles.pending}>Validating…</p>}
+        {result.kind === 'shared' && (
+          <div className={styles.shared}>
+            <p>
+              This schema comes from a shared link. Read it before running it: it runs as code in this page, with access
+              to everything the page can do.
+            </p>
+            <button type="button" className="button button--sm button--primary" onClick={() => setSharedSchema(false)}>
+              Run the shared schema
+            </button>
+          </div>
+        )}
+        {result.kind === 'schema-error' && <p className={styles.error}>{result.message}</p>}
+        {result.kind === 'done' && <Outcome outcome={result.outcome} type={result.type} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * Schemas and request bodies from the BodyValidationMiddleware guide, for
+ * the playground's example menu. The schemas use the Zod 4 API the site
+ * ships, e.g. `z.record(z.string(), z.string())` where the guide predates
+ * single-argument `z.record` being removed.
+ */
+
+export interface SchemaPreset {
+  label: string;
+  /** TypeScript module; the playground validates against its last schema. */
+  schema: string;
+  /** JSON request body. */
+  body: string;
+}
+
+export const PRESETS: SchemaPreset[] = [
+  {
+    label: 'User registration (defaults)',
+    schema: `import { z } from 'zod';
+
+export const registerSchema = z.object({
+  name: z.string().min(1).max(100),
+  email: z.string().email(),
+  password: z.string().min(8),
+  age: z.number().int().min(18).max(120),
+  newsletter: z.boolean().optional().default(false)
+});
+
+export type RegisterRequest = z.infer<typeof registerSchema>;
+`,
+    body: `{
+  "name": "Ada Lovelace",
+  "email": "ada@example.com",
+  "password": "analytical-engine",
+  "age": 36
+}
+`,
+  },
+  {
+    label: 'Product with nested objects',
+    schema: `import { z } from 'zod';
+
+export const productSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(1000),
+  price: z.number().positive().multipleOf(0.01),
+  category: z.enum(['electronics', 'clothing', 'books', 'home']),
+  tags: z.array(z.string()).max(10),
+  specifications: z.record(z.string(), z.string()),
+  availability: z.object({
+    inStock: z.boolean(),
+    quantity: z.number().int().min(0),
+    restockDate: z.string().datetime().optional()
+  }),
+  metadata: z.object({
+    brand: z.string(),
+    model: z.string().optional(),
+    warranty: z.number().int().min(0).max(120) // months
+  })
+});
+`,
+    body: `{
+  "name": "Noise-cancelling headphones",
+  "description": "Over-ear, 30h battery",
+  "price": -199.999,
+  "category": "audio",
+  "tags": ["wireless"],
+  "specifications": { "color": "black", "weight": 250 },
+  "availability": { "inStock": true, "quantity": 12 },
+  "metadata": { "brand": "Acme", "warranty": 24 }
+}
+`,
+  },
+  {
+    label: 'Partial update with refinement',
+    schema: `import { z } from 'zod';
+
+export const updateUserSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  email: z.string().email().optional(),
+  age: z.number().int().min(18).max(120).optional(),
+  preferences: z.object({
+    newsletter: z.boolean(),
+    theme: z.enum(['light', 'dark']),
+    language: z.string().length(2) // ISO 2-letter codes
+  }).optional()
+}).refine(
+  data => Object.keys(data).length > 0,
+  {
+    message: "At least one field must be provided for update",
+    path: ['root']
+  }
+);
+`,
+    body: `{}
+`,
+  },
+  {
+    label: 'Signup with transforms',
+    schema: `import { z } from 'zod';
+
+export const signupSchema = z.object({
+  name: z.string().min(1).transform(name => name.trim()),
+  email: z.string().email().transform(email => email.toLowerCase()),
+  password: z.string().min(8),
+  confirmPassword: z.string(),
+  tags: z.string().transform(str => str.split(',').map(tag => tag.trim()))
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"]
+});
+`,
+    body: `{
+  "name": "  Grace Hopper ",
+  "email": "Grace@Example.COM",
+  "password": "cobol-1959",
+  "confirmPassword": "cobol-1959",
+  "tags": "compilers, navy ,cobol"
+}
+`,
+  },
+  {
+    label: 'E-commerce order',
+    schema: `import { z } from 'zod';
+
+const orderItemSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().int().min(1).max(99),
+  customization: z.record(z.string(), z.string()).optional()
+});
+
+const shippingAddressSchema = z.object({
+  street: z.string().min(1),
+  city: z.string().min(1),
+  state: z.string().length(2), // US state codes
+  zipCode: z.string().regex(/^\\d{5}(-\\d{4})?$/), // US zip codes
+  country: z.string().length(2).default('US')
+});
+
+export const createOrderSchema = z.object({
+  items: z.array(orderItemSchema).min(1).max(50),
+  shippingAddress: shippingAddressSchema,
+  billingAddress: shippingAddressSchema.optional(),
+  paymentMethodId: z.string().uuid(),
+  promoCode: z.string().optional(),
+  notes: z.string().max(500).optional(),
+  priority: z.enum(['standard', 'express', 'overnight']).default('standard')
+});
+`,
+    body: `{
+  "items": [
+    { "productId": "0b6f5c1e-8d1a-4c7e-9f3b-2a4d6e8f0a1c", "quantity": 2 },
+    { "productId": "not-a-uuid", "quantity": 0 }
+  ],
+  "shippingAddress": {
+    "street": "1 Infinite Loop",
+    "city": "Cupertino",
+    "state": "California",
+    "zipCode": "95014"
+  },
+  "paymentMethodId": "5f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f"
+}
+`,
+  },
+];
@@ -0,0 +1,29 @@
+import {fromBase64Url, toBase64Url} from '../Scaffold/config';
+
+/**
+ * Share links carry both editors in the page URL, e.g.
+ * `BodyValidationMiddleware-Guide?schema=<base64url JSON>#schema-playground`.
+ */
+
+export const SHARE_PARAM = 'schema';
+
+export interface PlaygroundState {
+  schema: string;
+  body: string;
+}
+
+export function encodeState(state: PlaygroundState): string {
+  return toBase64Url(JSON.stringify(state));
+}
+
+/** Reads a shared link; `undefined` when it was cut off or edited by hand. */
+export function decodeState(value: string): PlaygroundState | undefined {
+  try {
+    const raw = JSON.parse(fromBase64Url(value)) as Partial<PlaygroundState> | null;
+    return typeof raw?.schema === 'string' && typeof raw.body === 'string'
+      ? {schema: raw.schema, body: raw.body}
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
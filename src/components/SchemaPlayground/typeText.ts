@@ -0,0 +1,118 @@
+/**
+ * Prints the `z.infer` type of a schema as TypeScript, from the JSON Schema
+ * `z.toJSONSchema()` produces for its output. Parts JSON Schema can't
+ * describe, such as the result of a `.transform()`, print as `unknown`.
+ */
+
+interface JsonSchema {
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: JsonSchemaNode[];
+  oneOf?: JsonSchemaNode[];
+  allOf?: JsonSchemaNode[];
+  items?: JsonSchemaNode;
+  prefixItems?: JsonSchemaNode[];
+  properties?: Record<string, JsonSchemaNode>;
+  required?: string[];
+  additionalProperties?: JsonSchemaNode;
+  $ref?: string;
+}
+
+type JsonSchemaNode = JsonSchema | boolean;
+
+const INDENT = '  ';
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.includes('unknown') ? 'unknown' : unique.join(' | ');
+}
+
+// Unions and intersections need parentheses before `[]`
+function isCompound(node: JsonSchemaNode): boolean {
+  if (typeof node === 'boolean') {
+    return false;
+  }
+  return Boolean(
+    node.anyOf || node.oneOf || node.allOf || (node.enum?.length ?? 0) > 1 || (Array.isArray(node.type) && node.type.length > 1),
+  );
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  const extra = schema.additionalProperties;
+  if (!properties.length) {
+    return typeof extra === 'object' ? `Record<string, ${printType(extra, indent)}>` : 'Record<string, unknown>';
+  }
+  const inner = indent + INDENT;
+  const lines = properties.map(([key, value]) => {
+    const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+    const optional = schema.required?.includes(key) ? '' : '?';
+    return `${inner}${name}${optional}: ${printType(value, inner)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function printType(node: JsonSchemaNode, indent = ''): string {
+  if (typeof node === 'boolean') {
+    return node ? 'unknown' : 'never';
+  }
+  if (node.$ref) {
+    return node.$ref === '#' ? 'Body' : node.$ref.split('/').pop()!;
+  }
+  if ('const' in node) {
+    return JSON.stringify(node.const);
+  }
+  if (node.enum) {
+    return union(node.enum.map((value) => JSON.stringify(value)));
+  }
+  const variants = node.anyOf ?? node.oneOf;
+  if (variants) {
+    return union(variants.map((variant) => printType(variant, indent)));
+  }
+  if (node.allOf) {
+    return node.allOf.map((part) => printType(part, indent)).join(' & ');
+  }
+  const types = Array.isArray(node.type) ? node.type : node.type ? [node.type] : [];
+  if (!types.length) {
+    return 'unknown';
+  }
+  return union(
+    types.map((type) => {
+      switch (type) {
+        case 'string':
+        case 'boolean':
+        case 'null':
+          return type;
+        case 'number':
+        case 'integer':
+          return 'number';
+        case 'array': {
+          if (node.prefixItems) {
+            return `[${node.prefixItems.map((item) => printType(item, indent)).join(', ')}]`;
+          }
+          const item = node.items === undefined ? 'unknown' : printType(node.items, indent);
+          return node.items !== undefined && isCompound(node.items) ? `(${item})[]` : `${item}[]`;
+        }
+        case 'object':
+          return objectType(node, indent);
+        default:
+          return 'unknown';
+      }
+    }),
+  );
+}
+
+/** `type Body = …` for the schema's output, or `undefined` when Zod can't describe it. */
+export function outputType(zod: typeof import('zod'), schema: unknown): string | undefined {
+  try {
+    const jsonSchema = zod.toJSONSchema(schema as Parameters<typeof zod.toJSONSchema>[0], {
+      io: 'output',
+      unrepresentable: 'any',
+    });
+    return `type Body = ${printType(jsonSchema as JsonSchemaNode)};`;
+  } catch {
+    return undefined;
+  }
+}
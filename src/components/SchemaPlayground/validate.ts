@@ -0,0 +1,96 @@
+/**
+ * Runs a request body through the same pipeline the guide builds:
+ * `ErrorHandlerMiddleware`, `BodyParserMiddleware` and
+ * `BodyValidationMiddleware` from the handler runner's in-browser stand-in,
+ * with the schema compiled from the playground's editor. Nothing leaves the
+ * page.
+ */
+
+import {
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+  ErrorHandlerMiddleware,
+  Handler,
+  type SafeParseSchema,
+} from '../HandlerRunner/runtime';
+import {withTimeout} from '../HandlerRunner/evaluate';
+import {createMockRequest, MockResponse} from '../HandlerRunner/request';
+import type {ErrorResponseBody} from '../ErrorCatalog/response';
+
+type ZodModule = typeof import('zod');
+
+export interface LoadedSchema {
+  schema: SafeParseSchema<unknown>;
+  zod: ZodModule;
+}
+
+export type ValidationOutcome =
+  | {kind: 'valid'; output: unknown}
+  | {
+      kind: 'invalid';
+      status: number;
+      /** The `error` object of the JSON body `ErrorHandlerMiddleware` sent. */
+      error: {message: string; code?: string; details?: unknown};
+      /** Message of what was thrown when it isn't an `HttpError`; the body hides it. */
+      thrown?: string;
+    };
+
+function isSchema(value: unknown): value is SafeParseSchema<unknown> {
+  return typeof (value as SafeParseSchema<unknown> | undefined)?.safeParseAsync === 'function';
+}
+
+/**
+ * Compiles the editor's module and returns the schema it exports: the
+ * default export, or else the last exported Zod schema.
+ */
+export async function loadSchema(code: string): Promise<LoadedSchema> {
+  const [{transform}, zod] = await Promise.all([import('sucrase'), import('zod')]);
+  const compiled = transform(code, {transforms: ['typescript', 'imports']}).code;
+
+  const requireModule = (specifier: string): unknown => {
+    if (specifier === 'zod') {
+      return zod;
+    }
+    throw new Error(`"${specifier}" can't be imported in the playground; only "zod" is available`);
+  };
+  const exports: Record<string, unknown> = {};
+  const module = new Function('require', 'exports', compiled);
+  module(requireModule, exports);
+
+  // Sucrase assigns named exports in source order.
+  const schema = isSchema(exports.default) ? exports.default : Object.values(exports).filter(isSchema).at(-1);
+  if (!schema) {
+    throw new Error('No Zod schema found: export one with `export const schema = z.object({...})`');
+  }
+  return {schema, zod};
+}
+
+export async function validateBody(schema: SafeParseSchema<unknown>, body: string): Promise<ValidationOutcome> {
+  let output: unknown;
+  const handler = new Handler()
+    .use(new ErrorHandlerMiddleware())
+    .use(new BodyParserMiddleware())
+    .use(new BodyValidationMiddleware(schema))
+    .handle((context) => {
+      output = context.req.validatedBody;
+    });
+  const res = new MockResponse();
+  // Async refinements can hang; compiling the module and sync checks run before the timeout could fire.
+  const context = await withTimeout(
+    handler.execute(
+      createMockRequest({method: 'POST', path: '/', headers: 'Content-Type: application/json', query: '', body}),
+      res,
+    ),
+    'Validation',
+  );
+  if (!context.error) {
+    return {kind: 'valid', output};
+  }
+  const sent = res.body as ErrorResponseBody;
+  return {
+    kind: 'invalid',
+    status: res.statusCode,
+    error: sent.error,
+    ...(res.statusCode === 500 && {thrown: context.error.message}),
+  };
+}
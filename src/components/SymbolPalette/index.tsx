@@ -0,0 +1,162 @@
+import type {KeyboardEvent, ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import {useHistory} from '@docusaurus/router';
+import {useActivePluginAndVersion} from '@docusaurus/plugin-content-docs/client';
+import {searchSymbols} from './search';
+import type {SymbolEntry, SymbolIndexData, SymbolKind} from './types';
+import styles from './styles.module.css';
+
+const KIND_LABELS: Record<SymbolKind, string> = {
+  heading: 'symbol',
+  member: 'member',
+  class: 'class',
+  interface: 'interface',
+  function: 'function',
+  method: 'method',
+  property: 'property',
+};
+
+/** Ctrl+. (⌘. on macOS); Ctrl+K stays with the full-text search bar. */
+function isShortcut(event: globalThis.KeyboardEvent): boolean {
+  return (event.ctrlKey || event.metaKey) && !event.altKey && event.key === '.';
+}
+
+// Its own chunk, fetched the first time the palette opens.
+function loadSymbolIndex(): Promise<SymbolIndexData> {
+  return import('@generated/symbol-index/default/symbols.json').then((module) => module.default);
+}
+
+// Symbols of the docs version being read (the last one outside of the docs) and of the API reference.
+function useVersionSymbols(index: SymbolIndexData | undefined): SymbolEntry[] {
+  const active = useActivePluginAndVersion();
+  return React.useMemo(() => {
+    if (!index) {
+      return [];
+    }
+    const version =
+      (active?.activePlugin.pluginId === index.docsPluginId && active.activeVersion?.name) || index.lastVersion;
+    return index.symbols.filter((symbol) => symbol.version === undefined || symbol.version === version);
+  }, [index, active?.activePlugin.pluginId, active?.activeVersion?.name]);
+}
+
+/**
+ * Keyboard palette over the symbol index: type a name like
+ * `requirePermissions` or `businessData` and jump to its definition anchor.
+ */
+export default function SymbolPalette(): ReactNode {
+  const [index, setIndex] = React.useState<SymbolIndexData>();
+  const symbols = useVersionSymbols(index);
+  const history = useHistory();
+  const id = React.useId();
+  const [open, setOpen] = React.useState(false);
+  const [query, setQuery] = React.useState('');
+  const [active, setActive] = React.useState(0);
+  const listRef = React.useRef<HTMLUListElement>(null);
+
+  React.useEffect(() => {
+    const onKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (isShortcut(event)) {
+        event.preventDefault();
+        setOpen((value) => !value);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  React.useEffect(() => {
+    if (open && !index) {
+      void loadSymbolIndex().then(setIndex);
+    }
+  }, [open, index]);
+
+  const results = React.useMemo(() => searchSymbols(symbols, query), [symbols, query]);
+
+  React.useEffect(() => setActive(0), [query]);
+
+  React.useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({block: 'nearest'});
+  }, [active]);
+
+  if (!open) {
+    return null;
+  }
+
+  const close = () => {
+    setOpen(false);
+    setQuery('');
+  };
+
+  const go = (index: number) => {
+    const symbol = results[index];
+    if (symbol) {
+      close();
+      history.push(symbol.url);
+    }
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const offset = event.key === 'ArrowDown' ? 1 : -1;
+      setActive((index) => (index + offset + results.length) % Math.max(results.length, 1));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      go(active);
+    } else if (event.key === 'Escape') {
+      close();
+    }
+  };
+
+  return (
+    <div className={styles.overlay} onMouseDown={close}>
+      <div
+        className={styles.palette}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Jump to symbol"
+        onMouseDown={(event) => event.stopPropagation()}>
+        <input
+          className={styles.input}
+          autoFocus
+          role="combobox"
+          aria-expanded="true"
+          aria-controls={`${id}-results`}
+          aria-activedescendant={results.length ? `${id}-${active}` : undefined}
+          placeholder="Jump to symbol, e.g. requirePermissions"
+          spellCheck={false}
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={onKeyDown}
+        />
+        <ul id={`${id}-results`} ref={listRef} className={styles.results} role="listbox">
+          {results.map((symbol, index) => (
+            <li
+              key={symbol.url + symbol.name}
+              id={`${id}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              className={clsx(styles.result, {[styles.resultActive]: index === active})}
+              onMouseEnter={() => setActive(index)}
+              onClick={() => go(index)}>
+              <span className={styles.resultHeader}>
+                <code className={styles.name}>{symbol.name}</code>
+                <span className={styles.kind}>{KIND_LABELS[symbol.kind]}</span>
+              </span>
+              {symbol.signature && <code className={styles.signature}>{symbol.signature}</code>}
+              <span className={styles.location}>
+                {symbol.section} › {symbol.page}
+              </span>
+            </li>
+          ))}
+          {!index && <li className={styles.empty}>Loading symbols…</li>}
+          {index && results.length === 0 && <li className={styles.empty}>No symbols match “{query}”.</li>}
+        </ul>
+        <p className={styles.footer}>
+          <kbd>↑</kbd> <kbd>↓</kbd> to navigate · <kbd>↵</kbd> to open · <kbd>esc</kbd> to close
+        </p>
+      </div>
+    </div>
+  );
+}
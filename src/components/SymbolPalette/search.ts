@@ -0,0 +1,67 @@
+import type {SymbolEntry, SymbolKind} from './types';
+
+/**
+ * Ranks symbols for a palette query. Exact names beat prefixes, prefixes beat
+ * substrings, and substrings beat fuzzy (in-order characters) matches. Both
+ * sides ignore case, generics and call parentheses, so `requirepermissions`
+ * finds `RouteGuards.requirePermissions()`.
+ */
+
+const KIND_ORDER: Record<SymbolKind, number> = {
+  heading: 0,
+  class: 0,
+  interface: 0,
+  function: 0,
+  member: 1,
+  method: 1,
+  property: 1,
+};
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, '')
+    .replace(/\(\)/g, '')
+    .replace(/\s+/g, '');
+}
+
+function isSubsequence(query: string, text: string): boolean {
+  let position = 0;
+  for (const char of text) {
+    if (char === query[position]) {
+      position++;
+    }
+  }
+  return position === query.length;
+}
+
+function score(symbol: SymbolEntry, query: string): number | undefined {
+  const name = normalize(symbol.name);
+  const last = name.slice(name.lastIndexOf('.') + 1);
+  if (name === query || last === query) {
+    return 0;
+  }
+  if (name.startsWith(query) || last.startsWith(query)) {
+    return 1;
+  }
+  if (name.includes(query)) {
+    return 2;
+  }
+  return isSubsequence(query, name) ? 3 : undefined;
+}
+
+export function searchSymbols(symbols: SymbolEntry[], query: string, limit = 50): SymbolEntry[] {
+  const normalized = normalize(query);
+  return symbols
+    .map((symbol) => ({symbol, score: normalized ? score(symbol, normalized) : 0}))
+    .filter((result): result is {symbol: SymbolEntry; score: number} => result.score !== undefined)
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        KIND_ORDER[a.symbol.kind] - KIND_ORDER[b.symbol.kind] ||
+        a.symbol.name.length - b.symbol.name.length ||
+        a.symbol.name.localeCompare(b.symbol.name),
+    )
+    .slice(0, limit)
+    .map((result) => result.symbol);
+}
@@ -0,0 +1,38 @@
+/** Symbol index built by `plugins/symbol-index` and searched by the symbol palette. */
+
+/**
+ * - `heading`: a doc heading that names a symbol, e.g. ``### `RouteGuards.configure()` ``
+ * - `member`: a property or method from the signature block under such a heading
+ * - `class` / `interface` / `function`, `method` / `property`: the generated API reference
+ */
+export type SymbolKind = 'heading' | 'member' | 'class' | 'interface' | 'function' | 'method' | 'property';
+
+export interface SymbolEntry {
+  /** Display name, e.g. `RouteGuards.requirePermissions()` or `Context.businessData`. */
+  name: string;
+  kind: SymbolKind;
+  /** Declaration line, when one is known. */
+  signature?: string;
+  /** Title of the page the symbol is defined on. */
+  page: string;
+  /** Top-level docs section (`core-concepts`, `middlewares`, ...) or `api`. */
+  section: string;
+  /** Docs version (`current`, `1.0`, ...) the page belongs to; unset for the API reference. */
+  version?: string;
+  /** Permalink including the `#anchor`. */
+  url: string;
+}
+
+export interface SymbolIndexData {
+  /** Docs plugin instance the `version` of each entry refers to. */
+  docsPluginId: string;
+  /** Version searched outside of that instance's pages. */
+  lastVersion?: string;
+  symbols: SymbolEntry[];
+}
+
+/**
+ * Written with `createData`, so the palette imports it as
+ * `@generated/symbol-index/default/symbols.json` (see `src/symbol-index.d.ts`).
+ */
+export const SYMBOL_INDEX_FILE = 'symbols.json';
@@ -0,0 +1,129 @@
+import type {KeyboardEvent, ReactNode} from 'react';
+import clsx from 'clsx';
+import {QUADRANT_IDS, RING_IDS, type QuadrantId, type RadarConfig, type RingId, type Technology} from './types';
+import styles from './styles.module.css';
+
+const SIZE = 520;
+const CENTER = SIZE / 2;
+const RADIUS = SIZE / 2 - 10;
+
+/** Outer edge of each ring, as a share of the radar radius. */
+const RING_EDGES: Record<RingId, number> = {adopt: 0.4, trial: 0.65, assess: 0.85, hold: 1};
+
+/** Start angle (degrees, clockwise from 3 o'clock) of each quadrant. */
+const QUADRANT_ANGLES: Record<QuadrantId, number> = {q1: 180, q2: 270, q3: 90, q4: 0};
+
+function ringBounds(ring: RingId): [number, number] {
+  const index = RING_IDS.indexOf(ring);
+  const inner = index === 0 ? 0 : RING_EDGES[RING_IDS[index - 1]];
+  return [inner * RADIUS, RING_EDGES[ring] * RADIUS];
+}
+
+function blipPosition({quadrant, status, position}: Technology) {
+  const [inner, outer] = ringBounds(status);
+  // Keep blips off the ring and quadrant borders.
+  const radius = inner + (outer - inner) * (0.15 + 0.7 * (position.x / 100));
+  const angle = ((QUADRANT_ANGLES[quadrant] + 5 + 80 * (position.y / 100)) * Math.PI) / 180;
+  return {x: CENTER + radius * Math.cos(angle), y: CENTER + radius * Math.sin(angle)};
+}
+
+function BlipShape({technology}: {technology: Technology}) {
+  switch (technology.movement) {
+    case 'up':
+      return <polygon points="0,-11 10,7 -10,7" />;
+    case 'down':
+      return <polygon points="0,11 10,-7 -10,-7" />;
+    case 'new':
+      return (
+        <>
+          <circle r={12} className={styles.blipHalo} />
+          <circle r={9} />
+        </>
+      );
+    default:
+      return <circle r={9} />;
+  }
+}
+
+interface RadarChartProps {
+  config: RadarConfig;
+  technologies: Technology[];
+  selectedId?: number;
+  onSelect: (technology: Technology) => void;
+}
+
+export default function RadarChart({config, technologies, selectedId, onSelect}: RadarChartProps): ReactNode {
+  const onKeyDown = (event: KeyboardEvent<SVGGElement>, technology: Technology) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelect(technology);
+    }
+  };
+
+  return (
+    <svg
+      className={styles.chart}
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      role="group"
+      aria-label={`${config.title}, ${config.date}`}>
+      {[...RING_IDS].reverse().map((ring) => (
+        <circle
+          key={ring}
+          cx={CENTER}
+          cy={CENTER}
+          r={RING_EDGES[ring] * RADIUS}
+          className={clsx(styles.ring, styles[`ring_${ring}`])}
+        />
+      ))}
+      <line x1={CENTER - RADIUS} y1={CENTER} x2={CENTER + RADIUS} y2={CENTER} className={styles.axis} />
+      <line x1={CENTER} y1={CENTER - RADIUS} x2={CENTER} y2={CENTER + RADIUS} className={styles.axis} />
+      {RING_IDS.map((ring) => {
+        const [inner, outer] = ringBounds(ring);
+        return (
+          <text key={ring} x={CENTER + (inner + outer) / 2} y={CENTER - 4} className={styles.ringLabel}>
+            {ring}
+          </text>
+        );
+      })}
+      {QUADRANT_IDS.map((quadrant) => {
+        // Labels sit in the empty corners outside the outer ring.
+        const angle = ((QUADRANT_ANGLES[quadrant] + 45) * Math.PI) / 180;
+        const left = Math.cos(angle) < 0;
+        const top = Math.sin(angle) < 0;
+        return (
+          <text
+            key={quadrant}
+            x={left ? 4 : SIZE - 4}
+            y={top ? 16 : SIZE - 6}
+            textAnchor={left ? 'start' : 'end'}
+            className={styles.quadrantLabel}>
+            {config.quadrants[quadrant].name}
+          </text>
+        );
+      })}
+      {technologies.map((technology) => {
+        const {x, y} = blipPosition(technology);
+        return (
+          <g
+            key={technology.id}
+            transform={`translate(${x} ${y})`}
+            className={clsx(styles.blip, styles[`blip_${technology.status}`], {
+              [styles.blipSelected]: technology.id === selectedId,
+            })}
+            role="button"
+            tabIndex={0}
+            aria-label={`${technology.name}: ${technology.status}, ${technology.movement === 'none' ? 'unchanged' : technology.movement}`}
+            aria-pressed={technology.id === selectedId}
+            onClick={() => onSelect(technology)}
+            onKeyDown={(event) => onKeyDown(event, technology)}>
+            <title>{technology.name}</title>
+            <BlipShape technology={technology} />
+            <text y={4} textAnchor="middle" className={styles.blipNumber}>
+              {technology.id}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,36 @@
+import {RING_IDS, type RadarConfig, type RingId, type Technology} from './types';
+
+export type RadarChangeKind = 'new' | 'up' | 'down' | 'removed';
+
+export interface RadarChange {
+  kind: RadarChangeKind;
+  technology: Technology;
+  /** Ring in the previous edition, for moved and removed technologies. */
+  from?: RingId;
+}
+
+/**
+ * Lists what changed between two editions, matching technologies by id.
+ * "up" means the technology moved towards the adopt ring.
+ */
+export function compareEditions(current: RadarConfig, previous: RadarConfig): RadarChange[] {
+  const before = new Map(previous.technologies.map((tech) => [tech.id, tech]));
+  const changes: RadarChange[] = [];
+
+  for (const technology of current.technologies) {
+    const old = before.get(technology.id);
+    before.delete(technology.id);
+    if (!old) {
+      changes.push({kind: 'new', technology});
+      continue;
+    }
+    const delta = RING_IDS.indexOf(technology.status) - RING_IDS.indexOf(old.status);
+    if (delta !== 0) {
+      changes.push({kind: delta < 0 ? 'up' : 'down', technology, from: old.status});
+    }
+  }
+  for (const technology of before.values()) {
+    changes.push({kind: 'removed', technology, from: technology.status});
+  }
+  return changes;
+}
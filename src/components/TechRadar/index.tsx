@@ -0,0 +1,231 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import {useHistory, useLocation} from '@docusaurus/router';
+import RadarChart from './RadarChart';
+import {compareEditions, type RadarChangeKind} from './changes';
+import {
+  MOVEMENTS,
+  QUADRANT_IDS,
+  RING_IDS,
+  type Movement,
+  type QuadrantId,
+  type RingId,
+  type TechRadarData,
+  type Technology,
+} from './types';
+import styles from './styles.module.css';
+
+const ALL = 'all';
+
+const MOVEMENT_LABELS: Record<Movement, string> = {
+  new: 'New',
+  up: 'Moved in',
+  down: 'Moved out',
+  none: 'No change',
+};
+
+const CHANGE_LABELS: Record<RadarChangeKind, string> = {
+  new: 'New',
+  up: 'Moved in',
+  down: 'Moved out',
+  removed: 'Removed',
+};
+
+/** Deep links look like `/radar?edition=2025.01#tech-12`. */
+function techIdFromHash(hash: string): number | undefined {
+  const match = /^#tech-(\d+)$/.exec(hash);
+  return match ? Number(match[1]) : undefined;
+}
+
+export interface TechRadarProps {
+  /** Loaded by the tech-radar plugin for this route only. */
+  data: TechRadarData;
+}
+
+export default function TechRadar({data: {editions}}: TechRadarProps): ReactNode {
+  const location = useLocation();
+  const history = useHistory();
+
+  const requestedEdition = new URLSearchParams(location.search).get('edition');
+  const editionIndex = Math.max(
+    editions.findIndex((edition) => edition.date === requestedEdition),
+    0,
+  );
+  const config = editions[editionIndex];
+  const previous = editions[editionIndex + 1];
+  const selectedId = techIdFromHash(location.hash);
+  const selected = config.technologies.find((tech) => tech.id === selectedId);
+
+  const [quadrant, setQuadrant] = React.useState<QuadrantId | typeof ALL>(ALL);
+  const [status, setStatus] = React.useState<RingId | typeof ALL>(ALL);
+  const [movement, setMovement] = React.useState<Movement | typeof ALL>(ALL);
+
+  const visible = config.technologies.filter(
+    (tech) =>
+      (quadrant === ALL || tech.quadrant === quadrant) &&
+      (status === ALL || tech.status === status) &&
+      (movement === ALL || tech.movement === movement),
+  );
+  const changes = React.useMemo(() => (previous ? compareEditions(config, previous) : []), [config, previous]);
+  const previousRing = (tech: Technology) =>
+    previous?.technologies.find((old) => old.id === tech.id)?.status;
+
+  const select = (tech: Technology) => history.replace({...location, hash: `tech-${tech.id}`});
+
+  const selectEdition = (date: string) => {
+    const search = date === editions[0].date ? '' : `?edition=${date}`;
+    history.replace({...location, search, hash: ''});
+  };
+
+  return (
+    <Layout title="Tech Radar" description="Technologies we adopt, trial, assess and hold for Noony services.">
+      <main className={clsx('container', styles.radarPage)}>
+        <header className={styles.radarHeader}>
+          <Heading as="h1">{config.title}</Heading>
+          <label className={styles.filter}>
+            Edition
+            <select value={config.date} onChange={(event) => selectEdition(event.target.value)}>
+              {editions.map((edition, index) => (
+                <option key={edition.date} value={edition.date}>
+                  {edition.date}
+                  {index === 0 ? ' (current)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        </header>
+
+        <div className={styles.filters} role="search" aria-label="Filter technologies">
+          <label className={styles.filter}>
+            Quadrant
+            <select value={quadrant} onChange={(event) => setQuadrant(event.target.value as QuadrantId)}>
+              <option value={ALL}>All quadrants</option>
+              {QUADRANT_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {config.quadrants[id].name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.filter}>
+            Status
+            <select value={status} onChange={(event) => setStatus(event.target.value as RingId)}>
+              <option value={ALL}>All rings</option>
+              {RING_IDS.map((ring) => (
+                <option key={ring} value={ring}>
+                  {ring}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.filter}>
+            Movement
+            <select value={movement} onChange={(event) => setMovement(event.target.value as Movement)}>
+              <option value={ALL}>Any movement</option>
+              {MOVEMENTS.map((value) => (
+                <option key={value} value={value}>
+                  {MOVEMENT_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <span className={styles.filterCount}>
+            {visible.length} of {config.technologies.length} technologies
+          </span>
+        </div>
+
+        <div className={styles.radarLayout}>
+          <RadarChart config={config} technologies={visible} selectedId={selectedId} onSelect={select} />
+
+          <aside className={styles.details} aria-live="polite">
+            {selected ? (
+              <>
+                <Heading as="h2" id={`tech-${selected.id}`}>
+                  {selected.id}. {selected.name}
+                </Heading>
+                <p>
+                  <span className={clsx(styles.badge, styles[`blip_${selected.status}`])}>{selected.status}</span>{' '}
+                  {config.quadrants[selected.quadrant].name} · {MOVEMENT_LABELS[selected.movement]}
+                </p>
+                <p>{selected.description}</p>
+                {previous && previousRing(selected) && previousRing(selected) !== selected.status && (
+                  <p>
+                    Was <strong>{previousRing(selected)}</strong> in {previous.date}.
+                  </p>
+                )}
+                {selected.url && (
+                  <a href={selected.url} target="_blank" rel="noopener noreferrer">
+                    {selected.url}
+                  </a>
+                )}
+              </>
+            ) : (
+              <p>Select a technology on the radar or in the lists below to see why it sits where it does.</p>
+            )}
+          </aside>
+        </div>
+
+        {editions.length === 1 && (
+          <p className={styles.changes}>This is the first edition of the radar, so there are no changes to show yet.</p>
+        )}
+
+        {previous && changes.length > 0 && (
+          <section className={styles.changes}>
+            <Heading as="h2">Changes since {previous.date}</Heading>
+            <ul>
+              {changes.map(({kind, technology, from}) => (
+                <li key={technology.id}>
+                  <span className={clsx(styles.badge, styles[`change_${kind}`])}>{CHANGE_LABELS[kind]}</span>{' '}
+                  {kind === 'removed' ? (
+                    technology.name
+                  ) : (
+                    <button type="button" className={clsx('clean-btn', styles.techLink)} onClick={() => select(technology)}>
+                      {technology.name}
+                    </button>
+                  )}
+                  {from && kind !== 'removed' && ` (${from} → ${technology.status})`}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div className={styles.quadrantLists}>
+          {QUADRANT_IDS.filter((id) => quadrant === ALL || id === quadrant).map((id) => (
+            <section key={id} className={styles.quadrantList}>
+              <Heading as="h3">{config.quadrants[id].name}</Heading>
+              {RING_IDS.map((ring) => {
+                const items = visible.filter((tech) => tech.quadrant === id && tech.status === ring);
+                return (
+                  items.length > 0 && (
+                    <div key={ring}>
+                      <h4 className={styles.ringTitle}>{ring}</h4>
+                      <ul>
+                        {items.map((tech) => (
+                          <li key={tech.id}>
+                            <button
+                              type="button"
+                              className={clsx('clean-btn', styles.techLink, {
+                                [styles.selectedLink]: tech.id === selectedId,
+                              })}
+                              aria-pressed={tech.id === selectedId}
+                              onClick={() => select(tech)}>
+                              {tech.id}. {tech.name}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )
+                );
+              })}
+            </section>
+          ))}
+        </div>
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,47 @@
+/** Typed model of `radar/radar_config.json` and its archived editions. */
+
+export type QuadrantId = 'q1' | 'q2' | 'q3' | 'q4';
+
+export type RingId = 'adopt' | 'trial' | 'assess' | 'hold';
+
+export type Movement = 'new' | 'up' | 'down' | 'none';
+
+export const QUADRANT_IDS: QuadrantId[] = ['q1', 'q2', 'q3', 'q4'];
+
+/** Innermost ring first. */
+export const RING_IDS: RingId[] = ['adopt', 'trial', 'assess', 'hold'];
+
+export const MOVEMENTS: Movement[] = ['new', 'up', 'down', 'none'];
+
+export interface Quadrant {
+  name: string;
+}
+
+export interface Technology {
+  id: number;
+  name: string;
+  status: RingId;
+  quadrant: QuadrantId;
+  description: string;
+  url?: string;
+  movement: Movement;
+  /**
+   * Placement inside its quadrant and ring, both 0–100: `x` is the distance
+   * from the ring's inner edge, `y` the angle across the quadrant.
+   */
+  position: {x: number; y: number};
+}
+
+export interface RadarConfig {
+  title: string;
+  /** Edition date, `YYYY.MM`. */
+  date: string;
+  quadrants: Record<QuadrantId, Quadrant>;
+  technologies: Technology[];
+}
+
+/** Data of the radar page, loaded by the tech-radar plugin. */
+export interface TechRadarData {
+  /** Newest edition first; the first one is the current radar. */
+  editions: RadarConfig[];
+}
@@ -1,5 +1,6 @@
 import type {ReactNode} from 'react';
 import clsx from 'clsx';
+import Translate, {translate} from '@docusaurus/Translate';
 import styles from './styles.module.css';
 
 interface Testimonial {
@@ -14,27 +15,39 @@ interface Testimonial {
 const testimonials: Testimonial[] = [
   {
     name: 'Sarah Chen',
-    role: 'Senior Engineering Manager',
+    role: translate({id: 'homepage.testimonials.sarahChen.role', message: 'Senior Engineering Manager'}),
     company: 'TechFlow Inc',
     image: '👩‍💻',
-    content: 'CloudFlow reduced our deployment time from 45 minutes to under 2 minutes. The developer experience is phenomenal, and the cost savings are substantial.',
-    metrics: '95% faster deployments'
+    content: translate({
+      id: 'homepage.testimonials.sarahChen.content',
+      message:
+        'CloudFlow reduced our deployment time from 45 minutes to under 2 minutes. The developer experience is phenomenal, and the cost savings are substantial.',
+    }),
+    metrics: translate({id: 'homepage.testimonials.sarahChen.metrics', message: '95% faster deployments'})
   },
   {
     name: 'Marcus Rodriguez',
-    role: 'CTO',
+    role: translate({id: 'homepage.testimonials.marcusRodriguez.role', message: 'CTO'}),
     company: 'DataSync Solutions',
     image: '👨‍💼',
-    content: 'We migrated from traditional containers to CloudFlow and saw immediate improvements. The auto-scaling is flawless and the cold start times are incredible.',
-    metrics: '70% cost reduction'
+    content: translate({
+      id: 'homepage.testimonials.marcusRodriguez.content',
+      message:
+        'We migrated from traditional containers to CloudFlow and saw immediate improvements. The auto-scaling is flawless and the cold start times are incredible.',
+    }),
+    metrics: translate({id: 'homepage.testimonials.marcusRodriguez.metrics', message: '70% cost reduction'})
   },
   {
     name: 'Emily Watson',
-    role: 'Lead Developer',
+    role: translate({id: 'homepage.testimonials.emilyWatson.role', message: 'Lead Developer'}),
     company: 'CloudFirst Corp',
     image: '👩‍🔬',
-    content: 'The built-in observability and monitoring saved us weeks of setup time. CloudFlow just works, allowing us to focus on building features instead of managing infrastructure.',
-    metrics: '10x faster to market'
+    content: translate({
+      id: 'homepage.testimonials.emilyWatson.content',
+      message:
+        'The built-in observability and monitoring saved us weeks of setup time. CloudFlow just works, allowing us to focus on building features instead of managing infrastructure.',
+    }),
+    metrics: translate({id: 'homepage.testimonials.emilyWatson.metrics', message: '10x faster to market'})
   }
 ];
 
@@ -66,10 +79,22 @@ export default function TestimonialsSection(): ReactNode {
       <div className="container">
         <div className="text--center margin-bottom--xl">
           <h2 className={styles.testimonialsTitle}>
-            Loved by <span className="text-gradient">developers worldwide</span>
+            <Translate
+              id="homepage.testimonials.title"
+              values={{
+                audience: (
+                  <span className="text-gradient">
+                    <Translate id="homepage.testimonials.title.audience">developers worldwide</Translate>
+                  </span>
+                ),
+              }}>
+              {'Loved by {audience}'}
+            </Translate>
           </h2>
           <p className={styles.testimonialsSubtitle}>
-            Join thousands of teams already building with CloudFlow Functions
+            <Translate id="homepage.testimonials.subtitle">
+              Join thousands of teams already building with CloudFlow Functions
+            </Translate>
           </p>
         </div>
         
@@ -87,25 +112,33 @@ export default function TestimonialsSection(): ReactNode {
           <div className={styles.proofItem}>
             <div className={styles.proofIcon}>⭐</div>
             <div className={styles.proofText}>
-              <strong>4.9/5</strong> Developer satisfaction
+              <Translate id="homepage.socialProof.satisfaction" values={{value: <strong>4.9/5</strong>}}>
+                {'{value} Developer satisfaction'}
+              </Translate>
             </div>
           </div>
           <div className={styles.proofItem}>
             <div className={styles.proofIcon}>🏢</div>
             <div className={styles.proofText}>
-              <strong>1000+</strong> Companies using CloudFlow
+              <Translate id="homepage.socialProof.companies" values={{value: <strong>1000+</strong>}}>
+                {'{value} Companies using CloudFlow'}
+              </Translate>
             </div>
           </div>
           <div className={styles.proofItem}>
             <div className={styles.proofIcon}>🚀</div>
             <div className={styles.proofText}>
-              <strong>500K+</strong> Functions deployed
+              <Translate id="homepage.socialProof.functions" values={{value: <strong>500K+</strong>}}>
+                {'{value} Functions deployed'}
+              </Translate>
             </div>
           </div>
           <div className={styles.proofItem}>
             <div className={styles.proofIcon}>💡</div>
             <div className={styles.proofText}>
-              <strong>99.99%</strong> Uptime SLA
+              <Translate id="homepage.socialProof.uptime" values={{value: <strong>99.99%</strong>}}>
+                {'{value} Uptime SLA'}
+              </Translate>
             </div>
           </div>
         </div>
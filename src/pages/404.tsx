@@ -1,15 +1,21 @@
 import type {ReactNode} from 'react';
 import clsx from 'clsx';
 import Link from '@docusaurus/Link';
+import Translate, {translate} from '@docusaurus/Translate';
 import Layout from '@theme/Layout';
 import Heading from '@theme/Heading';
+import {useNotFoundReporter} from '@site/src/components/PageFeedback/reporters';
 import styles from './404.module.css';
 
 export default function NotFound(): ReactNode {
+  useNotFoundReporter();
   return (
     <Layout
-      title="Page Not Found"
-      description="The page you're looking for doesn't exist.">
+      title={translate({id: 'theme.NotFound.title', message: 'Page Not Found'})}
+      description={translate({
+        id: 'notFound.description',
+        message: "The page you're looking for doesn't exist.",
+      })}>
       <main className={styles.notFoundPage}>
         <div className="container">
           <div className={styles.notFoundContent}>
@@ -25,55 +31,85 @@ export default function NotFound(): ReactNode {
             
             <div className={styles.notFoundText}>
               <Heading as="h1" className={styles.notFoundTitle}>
-                Oops! This function seems to be <span className="text-gradient">offline</span>
+                <Translate
+                  id="notFound.heading"
+                  values={{
+                    offline: (
+                      <span className="text-gradient">
+                        <Translate id="notFound.heading.offline">offline</Translate>
+                      </span>
+                    ),
+                  }}>
+                  {'Oops! This function seems to be {offline}'}
+                </Translate>
               </Heading>
               <p className={styles.notFoundSubtitle}>
-                The page you're looking for has drifted away like a cloud. 
-                Don't worry though - our serverless functions are still running perfectly!
+                <Translate id="notFound.subtitle">
+                  The page you're looking for has drifted away like a cloud. Don't worry though - our serverless
+                  functions are still running perfectly!
+                </Translate>
               </p>
               
               <div className={styles.notFoundActions}>
                 <Link
                   className={clsx('button button--primary button--lg', styles.homeButton)}
                   to="/">
-                  🏠 Go Home
+                  🏠 <Translate id="notFound.goHome">Go Home</Translate>
                 </Link>
                 <Link
                   className={clsx('button button--outline button--lg', styles.docsButton)}
                   to="/docs/intro">
-                  📚 Browse Docs
+                  📚 <Translate id="notFound.browseDocs">Browse Docs</Translate>
                 </Link>
               </div>
               
               <div className={styles.helpfulLinks}>
-                <h3>Looking for something specific?</h3>
+                <h3>
+                  <Translate id="notFound.helpfulLinks.title">Looking for something specific?</Translate>
+                </h3>
                 <div className={styles.linkGrid}>
                   <Link to="/docs/intro" className={styles.helpfulLink}>
                     <span className={styles.linkIcon}>🚀</span>
                     <div>
-                      <strong>Getting Started</strong>
-                      <p>Learn CloudFlow basics</p>
+                      <strong>
+                        <Translate id="notFound.helpfulLinks.gettingStarted.title">Getting Started</Translate>
+                      </strong>
+                      <p>
+                        <Translate id="notFound.helpfulLinks.gettingStarted.description">Learn Noony basics</Translate>
+                      </p>
                     </div>
                   </Link>
                   <Link to="/docs/examples" className={styles.helpfulLink}>
-                    <span className={styles.linkIcon}>�</span>
+                    <span className={styles.linkIcon}>📖</span>
                     <div>
-                      <strong>Examples</strong>
-                      <p>Browse code examples and recipes</p>
+                      <strong>
+                        <Translate id="notFound.helpfulLinks.examples.title">Examples</Translate>
+                      </strong>
+                      <p>
+                        <Translate id="notFound.helpfulLinks.examples.description">Browse code examples and recipes</Translate>
+                      </p>
                     </div>
                   </Link>
-                  <Link to="/blog" className={styles.helpfulLink}>
+                  <Link to="/releases" className={styles.helpfulLink}>
                     <span className={styles.linkIcon}>📝</span>
                     <div>
-                      <strong>Blog</strong>
-                      <p>Latest updates and insights</p>
+                      <strong>
+                        <Translate id="notFound.helpfulLinks.releases.title">Release notes</Translate>
+                      </strong>
+                      <p>
+                        <Translate id="notFound.helpfulLinks.releases.description">What changed in each release</Translate>
+                      </p>
                     </div>
                   </Link>
-                  <a href="https://github.com/cloudflow/cloudflow-functions" className={styles.helpfulLink}>
+                  <a href="https://github.com/noony-serverless" className={styles.helpfulLink}>
                     <span className={styles.linkIcon}>💻</span>
                     <div>
-                      <strong>GitHub</strong>
-                      <p>Source code and examples</p>
+                      <strong>
+                        <Translate id="notFound.helpfulLinks.github.title">GitHub</Translate>
+                      </strong>
+                      <p>
+                        <Translate id="notFound.helpfulLinks.github.description">Source code and examples</Translate>
+                      </p>
                     </div>
                   </a>
                 </div>
@@ -1,10 +1,13 @@
 import type {ReactNode} from 'react';
 import clsx from 'clsx';
 import Link from '@docusaurus/Link';
+import Translate, {translate} from '@docusaurus/Translate';
 import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
 import Layout from '@theme/Layout';
+import CodeShowcase from '@site/src/components/CodeShowcase';
 import HomepageFeatures from '@site/src/components/HomepageFeatures';
-// import ArchitectureDiagram from '@site/src/components/ArchitectureDiagram';
+import PipelineDiagram from '@site/src/components/PipelineDiagram';
+import {createUserPipeline} from '@site/src/components/PipelineDiagram/presets';
 import TestimonialsSection from '@site/src/components/TestimonialsSection';
 import CTASection from '@site/src/components/CTASection';
 import Heading from '@theme/Heading';
@@ -19,22 +22,24 @@ function HomepageHeader() {
         <Heading as="h1" className="hero__title">
           {siteConfig.title}
         </Heading>
-        <p className="hero__subtitle">{siteConfig.tagline}</p>
+        <p className="hero__subtitle">
+          <Translate id="homepage.hero.tagline">Type-safe serverless framework for modern cloud applications</Translate>
+        </p>
         <div className={styles.buttons}>
           <Link
             className={clsx('button', styles.heroButton, styles.heroButtonPrimary)}
             to="/docs/intro">
-            Get Started
+            <Translate id="homepage.hero.getStarted">Get Started</Translate>
           </Link>
           <Link
             className={clsx('button', styles.heroButton, styles.heroButtonSecondary)}
             to="/docs/examples">
-            Explore Examples
+            <Translate id="homepage.hero.exploreExamples">Explore Examples</Translate>
           </Link>
           <Link
             className={clsx('button', styles.heroButton, styles.heroButtonSecondary)}
             to="/docs/getting-started">
-            Quick Start Guide
+            <Translate id="homepage.hero.quickStart">Quick Start Guide</Translate>
           </Link>
         </div>
       </div>
@@ -47,40 +52,26 @@ function QuickStartSection() {
     <section className={styles.quickStart}>
       <div className="container">
         <Heading as="h2" className={styles.quickStartTitle}>
-          Deploy your first function in <span className="text-gradient">under 60 seconds</span>
+          <Translate
+            id="homepage.quickStart.title"
+            values={{
+              duration: (
+                <span className="text-gradient">
+                  <Translate id="homepage.quickStart.title.duration">under 60 seconds</Translate>
+                </span>
+              ),
+            }}>
+            {'Deploy your first function in {duration}'}
+          </Translate>
         </Heading>
         <div className="row">
           <div className="col col--8 col--offset-2">
-            <div className={styles.codeExample}>
-              <div className={styles.codeHeader}>
-                <div className={styles.codeDots}>
-                  <div className={styles.codeDot}></div>
-                  <div className={styles.codeDot}></div>
-                  <div className={styles.codeDot}></div>
-                </div>
-                <span>main.js</span>
-              </div>
-              <div className={styles.codeContent}>
-                <div><span className={styles.codeComment}>// Create your first CloudFlow function</span></div>
-                <div><span className={styles.codeKeyword}>export</span> <span className={styles.codeKeyword}>async</span> <span className={styles.codeKeyword}>function</span> handler(event, context) {'{'}</div>
-                <div>&nbsp;&nbsp;<span className={styles.codeKeyword}>return</span> {'{'}</div>
-                <div>&nbsp;&nbsp;&nbsp;&nbsp;statusCode: <span className={styles.codeString}>200</span>,</div>
-                <div>&nbsp;&nbsp;&nbsp;&nbsp;body: JSON.stringify({'{'}</div>
-                <div>&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;message: <span className={styles.codeString}>'Hello from CloudFlow!'</span>,</div>
-                <div>&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;timestamp: <span className={styles.codeKeyword}>new</span> Date().toISOString()</div>
-                <div>&nbsp;&nbsp;&nbsp;&nbsp;{'}'})</div>
-                <div>&nbsp;&nbsp;{'}'}</div>
-                <div>{'}'}</div>
-                <div></div>
-                <div><span className={styles.codeComment}>// Deploy with one command</span></div>
-                <div><span className={styles.codeComment}>// $ cloudflow deploy</span></div>
-              </div>
-            </div>
+            <CodeShowcase />
             <div className="text--center margin-top--lg">
               <Link
                 className="button button--primary button--lg"
                 to="/docs/intro">
-                Start Building →
+                <Translate id="homepage.quickStart.startBuilding">Start Building →</Translate>
               </Link>
             </div>
           </div>
@@ -90,16 +81,59 @@ function QuickStartSection() {
   );
 }
 
+function PipelineSection() {
+  return (
+    <section className={styles.pipelineSection}>
+      <div className="container">
+        <Heading as="h2" className={styles.quickStartTitle}>
+          <Translate
+            id="homepage.pipeline.title"
+            values={{
+              pipeline: (
+                <span className="text-gradient">
+                  <Translate id="homepage.pipeline.title.pipeline">middleware pipeline</Translate>
+                </span>
+              ),
+            }}>
+            {'Follow a request through the {pipeline}'}
+          </Translate>
+        </Heading>
+        <p className={styles.pipelineSubtitle}>
+          <Translate
+            id="homepage.pipeline.subtitle"
+            values={{
+              use: <code>Handler.use()</code>,
+              handle: <code>handle()</code>,
+              context: <code>Context</code>,
+            }}>
+            {
+              'Step through {use} and {handle} to see how each middleware changes the {context}, and what happens when one of them throws.'
+            }
+          </Translate>
+        </p>
+        <PipelineDiagram {...createUserPipeline} />
+      </div>
+    </section>
+  );
+}
+
 export default function Home(): ReactNode {
   const {siteConfig} = useDocusaurusContext();
   return (
     <Layout
-      title={`${siteConfig.title} - Next-gen Serverless Framework`}
-      description="Build and deploy serverless functions with lightning speed. Auto-scaling, cost-effective, and developer-friendly cloud functions platform.">
+      title={translate(
+        {id: 'homepage.meta.title', message: '{siteTitle} - Next-gen Serverless Framework'},
+        {siteTitle: siteConfig.title},
+      )}
+      description={translate({
+        id: 'homepage.meta.description',
+        message:
+          'Build and deploy serverless functions with lightning speed. Auto-scaling, cost-effective, and developer-friendly cloud functions platform.',
+      })}>
       <HomepageHeader />
       <main>
         <QuickStartSection />
-        {/* <ArchitectureDiagram /> */}
+        <PipelineSection />
         <HomepageFeatures />
         <TestimonialsSection />
         <CTASection />
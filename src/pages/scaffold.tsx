@@ -0,0 +1,348 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import clsx from 'clsx';
+import {strToU8, zipSync} from 'fflate';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import CodeBlock from '@theme/CodeBlock';
+import Tabs from '@theme/Tabs';
+import TabItem from '@theme/TabItem';
+import {useHistory, useLocation} from '@docusaurus/router';
+import {
+  DEFAULT_CONFIG,
+  FIELD_TYPES,
+  HTTP_METHODS,
+  decodeConfig,
+  encodeConfig,
+  hasBody,
+  validateConfig,
+  type AuthMode,
+  type BodyField,
+  type FieldType,
+  type HttpMethod,
+  type ScaffoldConfig,
+} from '@site/src/components/Scaffold/config';
+import {generateFiles, type GeneratedFile} from '@site/src/components/Scaffold/generate';
+import styles from '@site/src/components/Scaffold/styles.module.css';
+
+const AUTH_LABELS: Record<AuthMode, string> = {
+  none: 'None (public endpoint)',
+  token: 'AuthenticationMiddleware (token only)',
+  guard: 'RouteGuards (token + permissions)',
+};
+
+function parseList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function downloadZip(name: string, files: GeneratedFile[]) {
+  const archive = zipSync(Object.fromEntries(files.map((file) => [file.path, strToU8(file.content)])));
+  const url = URL.createObjectURL(new Blob([archive], {type: 'application/zip'}));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}.zip`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Textarea bound to a string list; keeps the raw text so typing a comma doesn't get trimmed away. */
+function ListField({
+  label,
+  hint,
+  value,
+  onChange,
+}: {
+  label: string;
+  hint: ReactNode;
+  value: string[];
+  onChange: (value: string[]) => void;
+}) {
+  const id = React.useId();
+  const [text, setText] = React.useState(value.join('\n'));
+  // Only resync when the list changes from outside (a shared link or reset)
+  React.useEffect(() => {
+    if (parseList(text).join('\n') !== value.join('\n')) {
+      setText(value.join('\n'));
+    }
+  }, [value]);
+  return (
+    <div className={styles.field}>
+      <label htmlFor={id}>{label}</label>
+      <textarea
+        id={id}
+        className={styles.editor}
+        rows={3}
+        spellCheck={false}
+        value={text}
+        onChange={(event) => {
+          setText(event.target.value);
+          onChange(parseList(event.target.value));
+        }}
+      />
+      <span className={styles.hint}>{hint}</span>
+    </div>
+  );
+}
+
+export default function Scaffold(): ReactNode {
+  const location = useLocation();
+  const history = useHistory();
+  const [config, setConfig] = React.useState<ScaffoldConfig>(DEFAULT_CONFIG);
+  const [shareLabel, setShareLabel] = React.useState<string>();
+
+  // Shared links look like `/scaffold?config=<base64url JSON>`
+  React.useEffect(() => {
+    const shared = new URLSearchParams(location.search).get('config');
+    const decoded = shared ? decodeConfig(shared) : undefined;
+    if (decoded) {
+      setConfig(decoded);
+    }
+  }, [location.search]);
+
+  const update = <K extends keyof ScaffoldConfig>(key: K, value: ScaffoldConfig[K]) =>
+    setConfig((current) => ({...current, [key]: value}));
+
+  const updateField = (index: number, changes: Partial<BodyField>) =>
+    update(
+      'bodyFields',
+      config.bodyFields.map((field, i) => (i === index ? {...field, ...changes} : field)),
+    );
+
+  const errors = validateConfig(config);
+  const files = React.useMemo(() => generateFiles(config), [config]);
+
+  const share = async () => {
+    const search = `?config=${encodeConfig(config)}`;
+    history.replace({...location, search});
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${location.pathname}${search}`);
+      setShareLabel('Link copied');
+    } catch {
+      // Clipboard access denied: the link is still in the address bar
+      setShareLabel('Copy the link from the address bar');
+    }
+    setTimeout(() => setShareLabel(undefined), 2000);
+  };
+
+  const reset = () => {
+    history.replace({...location, search: ''});
+    setConfig(DEFAULT_CONFIG);
+  };
+
+  return (
+    <Layout
+      title="Handler Scaffolder"
+      description="Generate a Noony handler module, request type and Jest test from a form.">
+      <main className={clsx('container', styles.scaffoldPage)}>
+        <header className={styles.header}>
+          <Heading as="h1">Handler Scaffolder</Heading>
+          <p>
+            Describe an endpoint and get a ready-to-paste <code>new Handler&lt;T&gt;()</code> module with its
+            middlewares in the recommended order, the request type, and a Jest test skeleton.
+          </p>
+        </header>
+
+        <div className={styles.layout}>
+          <form className={styles.form} onSubmit={(event) => event.preventDefault()}>
+            <fieldset className={styles.group}>
+              <legend>Endpoint</legend>
+              <div className={styles.row}>
+                <label className={styles.field}>
+                  Handler name
+                  <input
+                    className={styles.input}
+                    value={config.name}
+                    spellCheck={false}
+                    onChange={(event) => update('name', event.target.value)}
+                  />
+                </label>
+                <label className={styles.field}>
+                  Method
+                  <select value={config.method} onChange={(event) => update('method', event.target.value as HttpMethod)}>
+                    {HTTP_METHODS.map((method) => (
+                      <option key={method}>{method}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </fieldset>
+
+            <fieldset className={styles.group} disabled={config.method === 'GET' || config.method === 'DELETE'}>
+              <legend>Body schema</legend>
+              {config.method === 'GET' || config.method === 'DELETE' ? (
+                <p className={styles.hint}>{config.method} requests have no body to validate.</p>
+              ) : (
+                <>
+                  {config.bodyFields.map((field, index) => (
+                    <div key={index} className={styles.bodyField}>
+                      <input
+                        className={styles.input}
+                        aria-label="Field name"
+                        value={field.name}
+                        spellCheck={false}
+                        onChange={(event) => updateField(index, {name: event.target.value})}
+                      />
+                      <select
+                        aria-label="Field type"
+                        value={field.type}
+                        onChange={(event) => updateField(index, {type: event.target.value as FieldType})}>
+                        {FIELD_TYPES.map((type) => (
+                          <option key={type}>{type}</option>
+                        ))}
+                      </select>
+                      <label className={styles.checkbox}>
+                        <input
+                          type="checkbox"
+                          checked={field.optional}
+                          onChange={(event) => updateField(index, {optional: event.target.checked})}
+                        />
+                        optional
+                      </label>
+                      <button
+                        type="button"
+                        className="clean-btn"
+                        aria-label={`Remove ${field.name || 'field'}`}
+                        onClick={() =>
+                          update(
+                            'bodyFields',
+                            config.bodyFields.filter((_, i) => i !== index),
+                          )
+                        }>
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    className="button button--sm button--secondary"
+                    onClick={() =>
+                      update('bodyFields', [
+                        ...config.bodyFields,
+                        {name: `field${config.bodyFields.length + 1}`, type: 'string', optional: false},
+                      ])
+                    }>
+                    Add field
+                  </button>
+                </>
+              )}
+            </fieldset>
+
+            <fieldset className={styles.group}>
+              <legend>Request variables</legend>
+              <ListField
+                label="Required headers"
+                hint={<>Checked by <code>HeaderVariablesMiddleware</code>.</>}
+                value={config.headers}
+                onChange={(value) => update('headers', value)}
+              />
+              <ListField
+                label="Required query parameters"
+                hint={<>Checked by <code>QueryParametersMiddleware</code>.</>}
+                value={config.query}
+                onChange={(value) => update('query', value)}
+              />
+            </fieldset>
+
+            <fieldset className={styles.group}>
+              <legend>Services</legend>
+              <ListField
+                label="Injected services"
+                hint={<>Class names registered with <code>DependencyInjectionMiddleware</code>.</>}
+                value={config.services}
+                onChange={(value) => update('services', value)}
+              />
+            </fieldset>
+
+            <fieldset className={styles.group}>
+              <legend>Authentication</legend>
+              <label className={styles.field}>
+                Mode
+                <select value={config.auth} onChange={(event) => update('auth', event.target.value as AuthMode)}>
+                  {(Object.keys(AUTH_LABELS) as AuthMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {AUTH_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {config.auth === 'guard' && (
+                <ListField
+                  label="Required permissions"
+                  hint={
+                    <>
+                      The user needs any one of these. Entries with <code>*</code> use{' '}
+                      <code>requireWildcardPermissions</code>.
+                    </>
+                  }
+                  value={config.permissions}
+                  onChange={(value) => update('permissions', value)}
+                />
+              )}
+            </fieldset>
+
+            <fieldset className={styles.group}>
+              <legend>Error handling and responses</legend>
+              <label className={styles.checkbox}>
+                <input
+                  type="checkbox"
+                  checked={config.errorHandler}
+                  onChange={(event) => update('errorHandler', event.target.checked)}
+                />
+                <code>ErrorHandlerMiddleware</code>
+              </label>
+              <label className={styles.checkbox}>
+                <input
+                  type="checkbox"
+                  checked={config.responseWrapper}
+                  onChange={(event) => update('responseWrapper', event.target.checked)}
+                />
+                <code>ResponseWrapperMiddleware</code>
+              </label>
+            </fieldset>
+          </form>
+
+          <section className={styles.output} aria-live="polite">
+            <div className={styles.actions}>
+              <button
+                type="button"
+                className="button button--primary"
+                disabled={errors.length > 0}
+                onClick={() => downloadZip(config.name, files)}>
+                Download .zip
+              </button>
+              <button type="button" className="button button--secondary" onClick={share}>
+                {shareLabel ?? 'Copy share link'}
+              </button>
+              <button type="button" className="button button--link" onClick={reset}>
+                Reset
+              </button>
+            </div>
+            {errors.length > 0 ? (
+              <ul className={styles.errors}>
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            ) : (
+              <Tabs>
+                {files.map((file, index) => (
+                  <TabItem key={index} value={String(index)} label={file.path.split('/').pop()}>
+                    <CodeBlock language="typescript" title={file.path} showLineNumbers>
+                      {file.content}
+                    </CodeBlock>
+                  </TabItem>
+                ))}
+              </Tabs>
+            )}
+            {!hasBody(config) && config.method !== 'GET' && config.method !== 'DELETE' && (
+              <p className={styles.hint}>Add a body field to generate a request type and schema.</p>
+            )}
+          </section>
+        </div>
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,5 @@
+// Source files imported as strings, e.g. the homepage quick-start snippets
+declare module '!!raw-loader!*' {
+  const content: string;
+  export default content;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Context } from '@noony-serverless/core';
+import { getProduct } from './handler';
+import { PricingService, ProductRepository } from './services';
+
+// Only the fields getProduct reads; the real Context comes from the Handler
+function contextFor(id: string): Context {
+  const services = new Map<unknown, unknown>([
+    [ProductRepository, new ProductRepository()],
+    [PricingService, new PricingService(0.5)],
+  ]);
+  return {
+    req: { query: { id } },
+    container: { get: (serviceId: unknown) => services.get(serviceId) },
+  } as unknown as Context;
+}
+
+describe('getProduct', () => {
+  it('adds tax to the product price', async () => {
+    await expect(getProduct(contextFor('p-1'))).resolves.toMatchObject({ id: 'p-1', priceWithTaxCents: 450 });
+  });
+
+  it('returns 404 for unknown products', async () => {
+    await expect(getProduct(contextFor('missing'))).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,35 @@
+import {
+  Handler,
+  Context,
+  ErrorHandlerMiddleware,
+  DependencyInjectionMiddleware,
+  QueryParametersMiddleware,
+  ResponseWrapperMiddleware,
+  HttpError,
+} from '@noony-serverless/core';
+import { PricingService, ProductRepository } from './services';
+
+const services = [
+  { id: ProductRepository, value: new ProductRepository() },
+  { id: PricingService, value: new PricingService(0.21) },
+];
+
+// A named function can be unit-tested without the middleware chain
+export async function getProduct(context: Context) {
+  const products = context.container!.get(ProductRepository);
+  const pricing = context.container!.get(PricingService);
+  const id = String(context.req.query.id);
+
+  const product = await products.findById(id);
+  if (!product) {
+    throw new HttpError(404, `Product ${id} not found`, 'PRODUCT_NOT_FOUND');
+  }
+  return { ...product, priceWithTaxCents: pricing.withTax(product.priceCents) };
+}
+
+export const getProductHandler = new Handler()
+  .use(new ErrorHandlerMiddleware())
+  .use(new QueryParametersMiddleware(['id']))
+  .use(new DependencyInjectionMiddleware(services))
+  .use(new ResponseWrapperMiddleware())
+  .handle(getProduct);
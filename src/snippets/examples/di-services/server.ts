@@ -0,0 +1,36 @@
+import Fastify from 'fastify';
+import { getProductHandler } from './handler';
+
+// Kept apart from handler.ts so the unit test can import the handler without starting a server
+const fastify = Fastify();
+
+fastify.get('/product', async (request, reply) => {
+  // Adapt Fastify to Noony's framework-agnostic request/response
+  const genericRes = {
+    status: (code: number) => { reply.status(code); return genericRes; },
+    json: (data: unknown) => { reply.send(data); return genericRes; },
+    send: (data: unknown) => { reply.send(data); return genericRes; },
+    header: (name: string, value: string) => { reply.header(name, value); return genericRes; },
+    headers: (headers: Record<string, string>) => {
+      Object.entries(headers).forEach(([key, value]) => reply.header(key, value));
+      return genericRes;
+    },
+    end: () => reply.send(),
+    get statusCode() { return reply.statusCode; },
+    get headersSent() { return reply.sent; },
+  };
+  await getProductHandler.executeGeneric(
+    {
+      method: request.method,
+      url: request.url,
+      path: request.routeOptions.url,
+      headers: request.headers,
+      query: request.query as Record<string, string>,
+      params: request.params as Record<string, string>,
+      body: request.body,
+    },
+    genericRes,
+  );
+});
+
+await fastify.listen({ port: 3000 });
@@ -0,0 +1,23 @@
+export interface Product {
+  id: string;
+  name: string;
+  priceCents: number;
+}
+
+export class ProductRepository {
+  private readonly products = new Map<string, Product>([
+    ['p-1', { id: 'p-1', name: 'Noony sticker', priceCents: 300 }],
+  ]);
+
+  async findById(id: string): Promise<Product | undefined> {
+    return this.products.get(id);
+  }
+}
+
+export class PricingService {
+  constructor(private readonly taxRate: number) {}
+
+  withTax(priceCents: number): number {
+    return Math.round(priceCents * (1 + this.taxRate));
+  }
+}
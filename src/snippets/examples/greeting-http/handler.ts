@@ -0,0 +1,25 @@
+import { http } from '@google-cloud/functions-framework';
+import {
+  Handler,
+  Context,
+  ErrorHandlerMiddleware,
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+  ResponseWrapperMiddleware,
+} from '@noony-serverless/core';
+import { greetingSchema, type GreetingRequest } from './schema';
+
+const GREETINGS = { en: 'Hello', es: 'Hola' } as const;
+
+const greetHandler = new Handler<GreetingRequest>()
+  .use(new ErrorHandlerMiddleware())
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(greetingSchema))
+  .use(new ResponseWrapperMiddleware())
+  .handle(async (context: Context<GreetingRequest>) => {
+    const { name, language } = context.req.validatedBody!;
+    return { message: `${GREETINGS[language]}, ${name}!` };
+  });
+
+// Deploy with: gcloud functions deploy greet --runtime nodejs20 --trigger-http
+export const greet = http('greet', (req, res) => greetHandler.execute(req, res));
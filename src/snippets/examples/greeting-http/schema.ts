@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const greetingSchema = z.object({
+  name: z.string().min(1).max(100),
+  language: z.enum(['en', 'es']).default('en'),
+});
+
+export type GreetingRequest = z.infer<typeof greetingSchema>;
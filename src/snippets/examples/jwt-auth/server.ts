@@ -0,0 +1,58 @@
+import express from 'express';
+import { z } from 'zod';
+import {
+  Handler,
+  Context,
+  ErrorHandlerMiddleware,
+  AuthenticationMiddleware,
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+  ResponseWrapperMiddleware,
+} from '@noony-serverless/core';
+import { JWTVerifier, type AuthUser } from './verifier';
+
+const noteSchema = z.object({ text: z.string().min(1).max(500) });
+type CreateNoteRequest = z.infer<typeof noteSchema>;
+
+const createNoteHandler = new Handler<CreateNoteRequest, AuthUser>()
+  .use(new ErrorHandlerMiddleware())
+  .use(new AuthenticationMiddleware(new JWTVerifier(process.env.JWT_SECRET!)))
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(noteSchema))
+  .use(new ResponseWrapperMiddleware())
+  .handle(async (context: Context<CreateNoteRequest, AuthUser>) => {
+    const { text } = context.req.validatedBody!;
+    const user = context.user!;
+    return { note: { text, author: user.email, createdAt: new Date().toISOString() } };
+  });
+
+const app = express();
+app.use(express.json());
+
+app.post('/notes', async (req, res) => {
+  // Adapt Express to Noony's framework-agnostic request/response
+  const genericRes = {
+    status: (code: number) => { res.status(code); return genericRes; },
+    json: (data: unknown) => { res.json(data); return genericRes; },
+    send: (data: unknown) => { res.send(data); return genericRes; },
+    header: (name: string, value: string) => { res.header(name, value); return genericRes; },
+    headers: (headers: Record<string, string>) => { res.set(headers); return genericRes; },
+    end: () => res.end(),
+    get statusCode() { return res.statusCode; },
+    get headersSent() { return res.headersSent; },
+  };
+  await createNoteHandler.executeGeneric(
+    {
+      method: req.method,
+      url: req.url,
+      path: req.path,
+      headers: req.headers,
+      query: req.query as Record<string, string>,
+      params: req.params,
+      body: req.body,
+    },
+    genericRes,
+  );
+});
+
+app.listen(3000);
@@ -0,0 +1,27 @@
+import jwt from 'jsonwebtoken';
+import { AuthenticationError, type CustomTokenVerificationPort } from '@noony-serverless/core';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  roles: string[];
+}
+
+interface TokenPayload {
+  sub: string;
+  email: string;
+  roles?: string[];
+}
+
+export class JWTVerifier implements CustomTokenVerificationPort<AuthUser> {
+  constructor(private readonly secret: string) {}
+
+  async verifyToken(token: string): Promise<AuthUser> {
+    try {
+      const payload = jwt.verify(token, this.secret) as TokenPayload;
+      return { id: payload.sub, email: payload.email, roles: payload.roles ?? [] };
+    } catch {
+      throw new AuthenticationError('Invalid or expired token');
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { http } from '@google-cloud/functions-framework';
+import { PubSub } from '@google-cloud/pubsub';
+import { z } from 'zod';
+import {
+  Handler,
+  Context,
+  ErrorHandlerMiddleware,
+  OpenTelemetryMiddleware,
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+  ResponseWrapperMiddleware,
+  injectTraceContext,
+} from '@noony-serverless/core';
+
+const pubsub = new PubSub();
+
+const orderSchema = z.object({
+  sku: z.string().min(1),
+  quantity: z.number().int().positive(),
+});
+type CreateOrderRequest = z.infer<typeof orderSchema>;
+
+const createOrderHandler = new Handler<CreateOrderRequest>()
+  .use(new ErrorHandlerMiddleware())
+  .use(new OpenTelemetryMiddleware())
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(orderSchema))
+  .use(new ResponseWrapperMiddleware())
+  .handle(async (context: Context<CreateOrderRequest>) => {
+    const order = { id: crypto.randomUUID(), ...context.req.validatedBody! };
+
+    // The trace context travels in the message attributes to the subscriber
+    const message = injectTraceContext(
+      {
+        data: Buffer.from(JSON.stringify(order)).toString('base64'),
+        attributes: { eventType: 'order.created' },
+      },
+      context,
+    );
+    await pubsub
+      .topic('orders')
+      .publishMessage({ data: Buffer.from(message.data, 'base64'), attributes: message.attributes });
+
+    return { orderId: order.id };
+  });
+
+export const createOrder = http('createOrder', (req, res) => createOrderHandler.execute(req, res));
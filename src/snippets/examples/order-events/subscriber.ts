@@ -0,0 +1,32 @@
+import { http } from '@google-cloud/functions-framework';
+import { z } from 'zod';
+import {
+  Handler,
+  Context,
+  ErrorHandlerMiddleware,
+  OpenTelemetryMiddleware,
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+} from '@noony-serverless/core';
+
+const orderCreatedSchema = z.object({
+  id: z.string().uuid(),
+  sku: z.string(),
+  quantity: z.number().int().positive(),
+});
+type OrderCreated = z.infer<typeof orderCreatedSchema>;
+
+// Push subscription: BodyParserMiddleware decodes the base64 Pub/Sub payload
+const reserveStockHandler = new Handler<OrderCreated>()
+  .use(new ErrorHandlerMiddleware())
+  .use(new OpenTelemetryMiddleware({ propagatePubSubTraces: true }))
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(orderCreatedSchema))
+  .handle(async (context: Context<OrderCreated>) => {
+    const { id, sku, quantity } = context.req.validatedBody!;
+    // Spans here are children of the publisher's request span
+    console.log(`Reserving ${quantity} x ${sku} for order ${id}`);
+    return { reserved: true };
+  });
+
+export const reserveStock = http('reserveStock', (req, res) => reserveStockHandler.execute(req, res));
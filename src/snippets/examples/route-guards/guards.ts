@@ -0,0 +1,47 @@
+import jwt from 'jsonwebtoken';
+import { RouteGuards, GuardSetup, type CustomTokenVerificationPort } from '@noony-serverless/core';
+
+export interface User {
+  id: string;
+  email: string;
+  roles: string[];
+  permissions: string[];
+  sub: string;
+  exp: number;
+}
+
+interface Claims {
+  sub: string;
+  email: string;
+  exp: number;
+  roles?: string[];
+  permissions?: string[];
+}
+
+const tokenVerifier: CustomTokenVerificationPort<User> = {
+  async verifyToken(token: string): Promise<User> {
+    const claims = jwt.verify(token, process.env.JWT_SECRET!) as Claims;
+    return {
+      id: claims.sub,
+      email: claims.email,
+      roles: claims.roles ?? [],
+      permissions: claims.permissions ?? [],
+      sub: claims.sub,
+      exp: claims.exp,
+    };
+  },
+};
+
+// Permissions come from the token here; load them from your user store in production.
+const permissionSource = {
+  async getUserPermissions(userId: string) {
+    return { userId, permissions: [] as string[], roles: [] as string[] };
+  },
+};
+
+export async function configureGuards(): Promise<void> {
+  await RouteGuards.configureWithJWT(GuardSetup.production(), permissionSource, tokenVerifier, {
+    tokenHeader: 'authorization',
+    tokenPrefix: 'Bearer ',
+  });
+}
@@ -0,0 +1,44 @@
+import { http } from '@google-cloud/functions-framework';
+import { z } from 'zod';
+import {
+  Handler,
+  Context,
+  RouteGuards,
+  ErrorHandlerMiddleware,
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+  ResponseWrapperMiddleware,
+} from '@noony-serverless/core';
+import { configureGuards, type User } from './guards';
+
+const refundSchema = z.object({
+  orderId: z.string().uuid(),
+  amount: z.number().positive(),
+});
+type RefundRequest = z.infer<typeof refundSchema>;
+
+const ready = configureGuards();
+
+// Finance staff can refund unless the order is locked; admins can always override.
+const refundHandler = new Handler<RefundRequest, User>()
+  .use(new ErrorHandlerMiddleware())
+  .use(
+    RouteGuards.requireComplexPermissions({
+      or: [
+        { and: [{ permission: 'finance:refund' }, { not: { permission: 'finance:locked' } }] },
+        { permission: 'admin:override' },
+      ],
+    }),
+  )
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(refundSchema))
+  .use(new ResponseWrapperMiddleware())
+  .handle(async (context: Context<RefundRequest, User>) => {
+    const { orderId, amount } = context.req.validatedBody!;
+    return { refund: { orderId, amount, approvedBy: context.user!.email } };
+  });
+
+export const refundOrder = http('refundOrder', async (req, res) => {
+  await ready;
+  await refundHandler.execute(req, res);
+});
@@ -0,0 +1,54 @@
+import express from 'express';
+import { z } from 'zod';
+import {
+  Handler,
+  Context,
+  ErrorHandlerMiddleware,
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+  ResponseWrapperMiddleware,
+} from '@noony-serverless/core';
+
+const greetingSchema = z.object({ name: z.string().min(1) });
+type GreetingRequest = z.infer<typeof greetingSchema>;
+
+const greetHandler = new Handler<GreetingRequest>()
+  .use(new ErrorHandlerMiddleware())
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(greetingSchema))
+  .use(new ResponseWrapperMiddleware())
+  .handle(async (context: Context<GreetingRequest>) => {
+    const { name } = context.req.validatedBody!;
+    context.res.json({ message: `Hello, ${name}!` });
+  });
+
+const app = express();
+app.use(express.json());
+
+app.post('/greet', async (req, res) => {
+  // Adapt Express to Noony's framework-agnostic request/response
+  const genericRes = {
+    status: (code: number) => { res.status(code); return genericRes; },
+    json: (data: unknown) => { res.json(data); return genericRes; },
+    send: (data: unknown) => { res.send(data); return genericRes; },
+    header: (name: string, value: string) => { res.header(name, value); return genericRes; },
+    headers: (headers: Record<string, string>) => { res.set(headers); return genericRes; },
+    end: () => res.end(),
+    get statusCode() { return res.statusCode; },
+    get headersSent() { return res.headersSent; },
+  };
+  await greetHandler.executeGeneric(
+    {
+      method: req.method,
+      url: req.url,
+      path: req.path,
+      headers: req.headers,
+      query: req.query as Record<string, string>,
+      params: req.params,
+      body: req.body,
+    },
+    genericRes,
+  );
+});
+
+app.listen(3000);
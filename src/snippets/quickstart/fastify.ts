@@ -0,0 +1,56 @@
+import Fastify from 'fastify';
+import { z } from 'zod';
+import {
+  Handler,
+  Context,
+  ErrorHandlerMiddleware,
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+  ResponseWrapperMiddleware,
+} from '@noony-serverless/core';
+
+const greetingSchema = z.object({ name: z.string().min(1) });
+type GreetingRequest = z.infer<typeof greetingSchema>;
+
+const greetHandler = new Handler<GreetingRequest>()
+  .use(new ErrorHandlerMiddleware())
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(greetingSchema))
+  .use(new ResponseWrapperMiddleware())
+  .handle(async (context: Context<GreetingRequest>) => {
+    const { name } = context.req.validatedBody!;
+    context.res.json({ message: `Hello, ${name}!` });
+  });
+
+const fastify = Fastify();
+
+fastify.post('/greet', async (request, reply) => {
+  // Adapt Fastify to Noony's framework-agnostic request/response
+  const genericRes = {
+    status: (code: number) => { reply.status(code); return genericRes; },
+    json: (data: unknown) => { reply.send(data); return genericRes; },
+    send: (data: unknown) => { reply.send(data); return genericRes; },
+    header: (name: string, value: string) => { reply.header(name, value); return genericRes; },
+    headers: (headers: Record<string, string>) => {
+      Object.entries(headers).forEach(([key, value]) => reply.header(key, value));
+      return genericRes;
+    },
+    end: () => reply.send(),
+    get statusCode() { return reply.statusCode; },
+    get headersSent() { return reply.sent; },
+  };
+  await greetHandler.executeGeneric(
+    {
+      method: request.method,
+      url: request.url,
+      path: request.routeOptions.url,
+      headers: request.headers,
+      query: request.query as Record<string, string>,
+      params: request.params as Record<string, string>,
+      body: request.body,
+    },
+    genericRes,
+  );
+});
+
+await fastify.listen({ port: 3000 });
@@ -0,0 +1,26 @@
+import { http } from '@google-cloud/functions-framework';
+import { z } from 'zod';
+import {
+  Handler,
+  Context,
+  ErrorHandlerMiddleware,
+  BodyParserMiddleware,
+  BodyValidationMiddleware,
+  ResponseWrapperMiddleware,
+} from '@noony-serverless/core';
+
+const greetingSchema = z.object({ name: z.string().min(1) });
+type GreetingRequest = z.infer<typeof greetingSchema>;
+
+const greetHandler = new Handler<GreetingRequest>()
+  .use(new ErrorHandlerMiddleware())
+  .use(new BodyParserMiddleware())
+  .use(new BodyValidationMiddleware(greetingSchema))
+  .use(new ResponseWrapperMiddleware())
+  .handle(async (context: Context<GreetingRequest>) => {
+    const { name } = context.req.validatedBody!;
+    context.res.json({ message: `Hello, ${name}!` });
+  });
+
+// Deploy with: gcloud functions deploy greet --runtime nodejs20 --trigger-http
+export const greet = http('greet', (req, res) => greetHandler.execute(req, res));
@@ -0,0 +1,7 @@
+// Symbol index written by plugins/symbol-index with createData, loaded by the symbol palette
+declare module '@generated/symbol-index/default/symbols.json' {
+  import type {SymbolIndexData} from '@site/src/components/SymbolPalette/types';
+
+  const data: SymbolIndexData;
+  export default data;
+}
@@ -0,0 +1,18 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import CopyButton from '@theme-original/CodeBlock/Buttons/CopyButton';
+import type {Props} from '@theme/CodeBlock/Buttons/CopyButton';
+import {useFeedback} from '@site/src/components/PageFeedback';
+import {headingBefore} from '@site/src/components/PageFeedback/headings';
+
+// Counts copy-code clicks, with the doc section the code block is in
+export default function CopyButtonWrapper(props: Props): ReactNode {
+  const track = useFeedback();
+  return (
+    <span
+      style={{display: 'contents'}}
+      onClickCapture={(event) => track({type: 'copy-code', heading: headingBefore(event.currentTarget)})}>
+      <CopyButton {...props} />
+    </span>
+  );
+}
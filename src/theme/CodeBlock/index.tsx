@@ -0,0 +1,32 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import CodeBlock from '@theme-original/CodeBlock';
+import type {Props} from '@theme/CodeBlock';
+import HandlerRunner, {parseRunMeta} from '@site/src/components/HandlerRunner';
+import styles from '@site/src/components/HandlerRunner/styles.module.css';
+
+// ```typescript run blocks get a "Run" button that executes the handler in the browser
+export default function CodeBlockWrapper(props: Props): ReactNode {
+  const [open, setOpen] = React.useState(false);
+  const request = parseRunMeta(props.metastring);
+
+  if (!request || typeof props.children !== 'string') {
+    return <CodeBlock {...props} />;
+  }
+
+  return (
+    <>
+      <CodeBlock {...props} />
+      <div className={styles.runToggle}>
+        <button
+          type="button"
+          className="button button--outline button--primary button--sm"
+          aria-expanded={open}
+          onClick={() => setOpen((value) => !value)}>
+          {open ? 'Hide runner' : '▶ Run'}
+        </button>
+      </div>
+      {open && <HandlerRunner code={props.children} request={request} />}
+    </>
+  );
+}
@@ -0,0 +1,20 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import Content from '@theme-original/DocItem/Content';
+import type ContentType from '@theme/DocItem/Content';
+import type {WrapperProps} from '@docusaurus/types';
+import {useDoc} from '@docusaurus/plugin-content-docs/client';
+import DocVersionBadge from '@site/src/components/DocsHealth';
+
+type Props = WrapperProps<typeof ContentType>;
+
+// Shows the `noony_version` / `verified_on` badges above the doc title
+export default function ContentWrapper(props: Props): ReactNode {
+  const {frontMatter} = useDoc();
+  return (
+    <>
+      <DocVersionBadge frontMatter={frontMatter} />
+      <Content {...props} />
+    </>
+  );
+}
@@ -0,0 +1,20 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import Footer from '@theme-original/DocItem/Footer';
+import type FooterType from '@theme/DocItem/Footer';
+import type {WrapperProps} from '@docusaurus/types';
+import {useDoc} from '@docusaurus/plugin-content-docs/client';
+import PageFeedback from '@site/src/components/PageFeedback';
+
+type Props = WrapperProps<typeof FooterType>;
+
+// Asks "Was this page helpful?" under the edit link and tags
+export default function FooterWrapper(props: Props): ReactNode {
+  const {metadata} = useDoc();
+  return (
+    <>
+      <Footer {...props} />
+      <PageFeedback key={metadata.permalink} />
+    </>
+  );
+}
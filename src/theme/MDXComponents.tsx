@@ -0,0 +1,27 @@
+import MDXComponents from '@theme-original/MDXComponents';
+import CodeDiff from '@site/src/components/CodeDiff';
+import CodeFiles from '@site/src/components/CodeFiles';
+import ErrorResponsePreview from '@site/src/components/ErrorCatalog/ErrorResponsePreview';
+import GlossaryTerm from '@site/src/components/Glossary/GlossaryTerm';
+import MiddlewareMatrix, {MiddlewareOrderChecker} from '@site/src/components/MiddlewareMatrix';
+import MiddlewareSequence from '@site/src/components/MiddlewareSequence';
+import OtelConfigBuilder from '@site/src/components/OtelConfigBuilder';
+import PermissionPlayground from '@site/src/components/PermissionPlayground';
+import PipelineDiagram from '@site/src/components/PipelineDiagram';
+import SchemaPlayground from '@site/src/components/SchemaPlayground';
+
+// Components available in every doc page without an import
+export default {
+  ...MDXComponents,
+  CodeDiff,
+  CodeFiles,
+  ErrorResponsePreview,
+  GlossaryTerm,
+  MiddlewareMatrix,
+  MiddlewareOrderChecker,
+  MiddlewareSequence,
+  OtelConfigBuilder,
+  PermissionPlayground,
+  PipelineDiagram,
+  SchemaPlayground,
+};
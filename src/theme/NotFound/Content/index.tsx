@@ -0,0 +1,14 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import Content from '@theme-original/NotFound/Content';
+import type ContentType from '@theme/NotFound/Content';
+import type {WrapperProps} from '@docusaurus/types';
+import {useNotFoundReporter} from '@site/src/components/PageFeedback/reporters';
+
+type Props = WrapperProps<typeof ContentType>;
+
+// Reports client-side 404s (unknown routes) to the feedback sink
+export default function ContentWrapper(props: Props): ReactNode {
+  useNotFoundReporter();
+  return <Content {...props} />;
+}
@@ -0,0 +1,14 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import {FeedbackProvider} from '@site/src/components/PageFeedback';
+import SymbolPalette from '@site/src/components/SymbolPalette';
+
+// Wraps every page, so the symbol palette shortcut and the feedback sink work site-wide
+export default function Root({children}: {children: ReactNode}): ReactNode {
+  return (
+    <FeedbackProvider>
+      {children}
+      <SymbolPalette />
+    </FeedbackProvider>
+  );
+}
@@ -0,0 +1,19 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import SearchBar from '@theme-original/SearchBar';
+import {useEmptySearchReporter} from '@site/src/components/PageFeedback/reporters';
+
+// Reports navbar searches that return nothing to the feedback sink
+export default function SearchBarWrapper(props: Record<string, unknown>): ReactNode {
+  const ref = React.useRef<HTMLDivElement>(null);
+  useEmptySearchReporter(ref, {
+    source: 'search-bar',
+    input: 'input',
+    isEmpty: (root) => root.querySelector('[class*="noResults"]') !== null,
+  });
+  return (
+    <div ref={ref} style={{display: 'contents'}}>
+      <SearchBar {...props} />
+    </div>
+  );
+}
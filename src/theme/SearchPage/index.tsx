@@ -0,0 +1,24 @@
+import type {ReactNode} from 'react';
+import React from 'react';
+import {translate} from '@docusaurus/Translate';
+import SearchPage from '@theme-original/SearchPage';
+import {useEmptySearchReporter} from '@site/src/components/PageFeedback/reporters';
+
+// Reports /search queries that return nothing to the feedback sink
+export default function SearchPageWrapper(props: Record<string, unknown>): ReactNode {
+  const ref = React.useRef<HTMLDivElement>(null);
+  // Same id and message as the search plugin's empty-results paragraph. The plugin
+  // exposes no results hook, so this breaks if it renames that translation or
+  // stops rendering it as a <p>; it also only renders it in production builds.
+  const noResults = translate({id: 'theme.SearchPage.noResultsText', message: 'No documents were found'});
+  useEmptySearchReporter(ref, {
+    source: 'search-page',
+    input: 'input[type="search"]',
+    isEmpty: (root) => Array.from(root.querySelectorAll('p')).some((p) => p.textContent === noResults),
+  });
+  return (
+    <div ref={ref} style={{display: 'contents'}}>
+      <SearchPage {...props} />
+    </div>
+  );
+}
@@ -0,0 +1,474 @@
+/**
+ * Public API of `@noony-serverless/core`, as documented in this site.
+ *
+ * The package's own declaration bundle isn't published to npm, so this file is
+ * maintained by hand from the docs (`noony-doc/advanced/components-reference.md`
+ * and the middleware and authentication guides). The snippet type-check and the
+ * `/api` reference both read it: update it in the same change as the docs when
+ * a signature changes.
+ */
+import type {ZodType} from 'zod';
+
+// ---------------------------------------------------------------------------
+// Handler system
+// ---------------------------------------------------------------------------
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+/** Framework-agnostic request. The body moves from `body` to `parsedBody` to `validatedBody` through the middleware chain. */
+export interface GenericRequest<T = unknown> {
+  method: HttpMethod | string;
+  url: string;
+  path?: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, string | string[] | undefined>;
+  params: Record<string, string>;
+  /** Raw request body. */
+  body?: unknown;
+  rawBody?: Buffer | string;
+  /** Set by `BodyParserMiddleware`. */
+  parsedBody?: T;
+  /** Set by `BodyValidationMiddleware` once the body matches its schema. */
+  validatedBody?: T;
+  ip?: string;
+  userAgent?: string;
+}
+
+/** Framework-agnostic response. */
+export interface GenericResponse {
+  status(code: number): GenericResponse;
+  json(data: unknown): GenericResponse | void;
+  send(data: unknown): GenericResponse | void;
+  header(name: string, value: string): GenericResponse;
+  headers(headers: Record<string, string>): GenericResponse;
+  end(): void;
+  statusCode?: number;
+  headersSent?: boolean;
+}
+
+/** Platform request passed to `Handler.execute`, e.g. the Google Cloud Functions request. */
+export interface CustomRequest<T = unknown> {
+  method: string;
+  url?: string;
+  path?: string;
+  headers: Record<string, string | string[] | undefined>;
+  query?: unknown;
+  params?: unknown;
+  body?: T | unknown;
+  rawBody?: Buffer;
+}
+
+/** Platform response passed to `Handler.execute`. */
+export interface CustomResponse {
+  status(code: number): unknown;
+  json(data: unknown): unknown;
+  send(data: unknown): unknown;
+  header?(name: string, value: string): unknown;
+  set?(name: string, value: string): unknown;
+  end(): unknown;
+  statusCode?: number;
+  headersSent?: boolean;
+}
+
+/** Per-request TypeDI container set up by `DependencyInjectionMiddleware`. */
+export interface Container {
+  get<S>(id: abstract new (...args: any[]) => S): S;
+  get<S = unknown>(id: string | symbol): S;
+  set(id: unknown, value: unknown): this;
+  has(id: unknown): boolean;
+}
+
+/**
+ * The execution context that carries data through the middleware chain.
+ *
+ * @typeParam T - The validated request body type.
+ * @typeParam U - The authenticated user type.
+ */
+export interface Context<T = unknown, U = unknown> {
+  readonly req: GenericRequest<T>;
+  readonly res: GenericResponse;
+  container?: Container;
+  error?: Error | null;
+  /** Data shared between middlewares. */
+  readonly businessData: Map<string, unknown>;
+  /** Set by `AuthenticationMiddleware`. */
+  user?: U;
+  readonly startTime: number;
+  readonly requestId: string;
+  timeoutSignal?: AbortSignal;
+  /** Value returned by the handler; `ResponseWrapperMiddleware` sends it. */
+  responseData?: unknown;
+}
+
+/**
+ * The interface every middleware implements. `before` runs first to last,
+ * `after` and `onError` run last to first.
+ */
+export interface BaseMiddleware<T = unknown, U = unknown> {
+  before?: (context: Context<T, U>) => Promise<void>;
+  after?: (context: Context<T, U>) => Promise<void>;
+  onError?: (error: Error, context: Context<T, U>) => Promise<void>;
+}
+
+/**
+ * The central orchestrator: runs the middleware pipeline around the business
+ * logic set with `handle`.
+ *
+ * @typeParam T - The validated request body type.
+ * @typeParam U - The authenticated user type.
+ */
+export declare class Handler<T = unknown, U = unknown> {
+  constructor();
+  /** Adds a middleware to the pipeline. */
+  use(middleware: BaseMiddleware<T, U>): Handler<T, U>;
+  /** Sets the business logic. A returned value becomes `context.responseData`. */
+  handle(handler: (context: Context<T, U>) => Promise<unknown>): Handler<T, U>;
+  /** Runs the pipeline with a platform request/response, e.g. from Google Cloud Functions or Express. */
+  execute(req: CustomRequest<T>, res: CustomResponse): Promise<void>;
+  /** Runs the pipeline with a framework-agnostic request/response. */
+  executeGeneric(req: GenericRequest<T>, res: GenericResponse): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Base class of the errors `ErrorHandlerMiddleware` turns into a response with their status. */
+export declare class HttpError extends Error {
+  status: number;
+  code?: string;
+  details?: unknown;
+  constructor(status: number, message: string, code?: string, details?: unknown);
+}
+
+/** 400 Bad Request. */
+export declare class ValidationError extends HttpError {
+  constructor(message: string, details?: unknown);
+}
+
+/** 401 Unauthorized. */
+export declare class AuthenticationError extends HttpError {
+  constructor(message?: string);
+}
+
+/** 403 Forbidden. */
+export declare class SecurityError extends HttpError {
+  constructor(message: string, details?: unknown);
+}
+
+/** 408 Request Timeout. */
+export declare class TimeoutError extends HttpError {
+  constructor(message?: string, details?: unknown);
+}
+
+/** 413 Payload Too Large. */
+export declare class TooLargeError extends HttpError {
+  constructor(message?: string, details?: unknown);
+}
+
+/** Business rule violation with a custom status. */
+export declare class BusinessError extends HttpError {
+  constructor(message: string, status?: number, details?: unknown);
+}
+
+// ---------------------------------------------------------------------------
+// Built-in middlewares
+// ---------------------------------------------------------------------------
+
+/** Centralized error handling. Use it first in every chain. */
+export declare class ErrorHandlerMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  onError(error: Error, context: Context<T, U>): Promise<void>;
+}
+
+/** Wraps the handler's return value in a consistent JSON structure. Use it last in the chain. */
+export declare class ResponseWrapperMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  after(context: Context<T, U>): Promise<void>;
+}
+
+/** Parses the JSON body, or the base64 payload of a Pub/Sub push message, into `req.parsedBody`. */
+export declare class BodyParserMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  constructor(maxSize?: number);
+  before(context: Context<T, U>): Promise<void>;
+}
+
+/** Validates the body against a Zod schema and sets `req.validatedBody`; throws `ValidationError` otherwise. */
+export declare class BodyValidationMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  constructor(schema: ZodType<T>);
+  before(context: Context<T, U>): Promise<void>;
+}
+
+/** Throws `ValidationError` when one of the required headers is missing. */
+export declare class HeaderVariablesMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  constructor(requiredHeaders: string[]);
+  before(context: Context<T, U>): Promise<void>;
+}
+
+/** Parses the query string into `req.query`; throws `ValidationError` when a required parameter is missing. */
+export declare class QueryParametersMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  constructor(requiredParams?: string[]);
+  before(context: Context<T, U>): Promise<void>;
+}
+
+/** Extracts the path parameters into `req.params`. */
+export declare class PathParametersMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  before(context: Context<T, U>): Promise<void>;
+}
+
+/** A service registered in the request container. */
+export interface ServiceDefinition {
+  id: unknown;
+  value: unknown;
+}
+
+/** Sets up `context.container` with the given services. */
+export declare class DependencyInjectionMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  constructor(services?: ServiceDefinition[]);
+  before(context: Context<T, U>): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Authentication
+// ---------------------------------------------------------------------------
+
+/** Verifies a token and returns the user it belongs to; throws when the token is invalid. */
+export interface CustomTokenVerificationPort<U = unknown> {
+  verifyToken(token: string): Promise<U>;
+}
+
+/** Alias of `CustomTokenVerificationPort`. */
+export interface TokenVerifier<U = unknown> extends CustomTokenVerificationPort<U> {}
+
+/** Verifies the bearer token and sets `context.user`; throws `AuthenticationError` otherwise. */
+export declare class AuthenticationMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  constructor(tokenVerifier: CustomTokenVerificationPort<U>);
+  before(context: Context<T, U>): Promise<void>;
+}
+
+export declare enum AuthProviderType {
+  JWT = 'JWT',
+  FIREBASE = 'FIREBASE',
+  AUTH0 = 'AUTH0',
+  CUSTOM = 'CUSTOM',
+}
+
+export interface ValidatorFactorySettings {
+  enableFailover: boolean;
+  maxFailoverAttempts: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerResetTimeout: number;
+  enableHealthMonitoring: boolean;
+  healthCheckInterval: number;
+}
+
+/** Configuration of a `TokenValidatorFactory`: one entry in `providers` per provider type. */
+export interface ValidatorFactoryConfig {
+  primaryProvider: AuthProviderType;
+  fallbackProviders?: AuthProviderType[];
+  providers: Partial<Record<AuthProviderType, Record<string, unknown>>>;
+  settings: ValidatorFactorySettings;
+}
+
+export interface TokenValidationResult<D = any> {
+  valid: boolean;
+  decoded?: D;
+  error?: string;
+  provider?: AuthProviderType;
+}
+
+export interface TokenValidator {
+  validateToken(token: string): Promise<TokenValidationResult>;
+}
+
+/** Validates tokens with the configured providers, failing over from the primary one when enabled. */
+export declare class TokenValidatorFactory {
+  constructor(config: ValidatorFactoryConfig);
+  /** Validates with the primary provider, then the fallback providers. */
+  validateToken(token: string): Promise<TokenValidationResult>;
+  getPrimaryValidator(): TokenValidator;
+  getValidator(provider: AuthProviderType): TokenValidator | undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Route guards
+// ---------------------------------------------------------------------------
+
+export interface UserPermissions {
+  userId?: string;
+  permissions: string[];
+  roles?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+/** Where the guards load a user's permissions from. */
+export interface UserPermissionSource {
+  getUserPermissions(userId: string): Promise<UserPermissions | null>;
+  getRolePermissions?(roles: string[]): Promise<string[]>;
+  isUserContextStale?(userId: string, lastUpdated: string): Promise<boolean>;
+}
+
+export interface AuthGuardConfig {
+  tokenHeader?: string;
+  tokenPrefix?: string;
+  requireEmailVerification?: boolean;
+  allowInactiveUsers?: boolean;
+  customValidation?: (token: string, user: any) => Promise<boolean>;
+}
+
+/** A boolean permission expression for `RouteGuards.requireComplexPermissions`. */
+export type PermissionExpression =
+  | {permission: string}
+  | {and: PermissionExpression[]}
+  | {or: PermissionExpression[]}
+  | {not: PermissionExpression};
+
+export interface PermissionGuardOptions {
+  requireAuth?: boolean;
+  cacheResults?: boolean;
+  auditTrail?: boolean;
+  errorMessage?: string;
+}
+
+/** Environment presets for the guard system (cache, logging, monitoring). */
+export declare class GuardConfiguration {
+  static production(): GuardConfiguration;
+  static development(): GuardConfiguration;
+  static testing(): GuardConfiguration;
+}
+
+/** Shorthand for the `GuardConfiguration` presets. */
+export declare class GuardSetup {
+  static production(): GuardConfiguration;
+  static development(): GuardConfiguration;
+  static testing(): GuardConfiguration;
+}
+
+export interface GuardSystemStats {
+  cacheHitRate: number;
+  averageResolutionTimeUs: number;
+  totalChecks: number;
+  [metric: string]: unknown;
+}
+
+/** Main facade for the permission system. Configure it once per process before handling requests. */
+export declare class RouteGuards {
+  static configure(
+    config: GuardConfiguration,
+    permissionSource: UserPermissionSource,
+    tokenVerifier: CustomTokenVerificationPort<any>,
+    authConfig: AuthGuardConfig,
+  ): Promise<void>;
+  /** `configure` for JWT bearer tokens. */
+  static configureWithJWT(
+    config: GuardConfiguration,
+    permissionSource: UserPermissionSource,
+    tokenVerifier: CustomTokenVerificationPort<any>,
+    authConfig?: AuthGuardConfig,
+  ): Promise<void>;
+  /** Plain permission list, checked in O(1). The user needs one of them. */
+  static requirePermissions(permissions: string[], options?: PermissionGuardOptions): BaseMiddleware<any, any>;
+  /** Wildcard patterns such as `admin.*`. */
+  static requireWildcardPermissions(patterns: string[], options?: PermissionGuardOptions): BaseMiddleware<any, any>;
+  /** Boolean permission expression. */
+  static requireComplexPermissions(
+    expression: PermissionExpression,
+    options?: PermissionGuardOptions,
+  ): BaseMiddleware<any, any>;
+  /** Authentication without a permission check. */
+  static requireAuth(options?: PermissionGuardOptions): BaseMiddleware<any, any>;
+  /** Invalidates the cached permissions of a user when they change. */
+  static invalidateUserPermissions(userId: string, reason: string): Promise<void>;
+  /** Clears every cache, e.g. after a security incident. */
+  static emergencyInvalidation(reason: string): Promise<void>;
+  static getSystemStats(): GuardSystemStats;
+  static healthCheck(): Promise<{status: 'healthy' | 'degraded' | 'unhealthy'; details: Record<string, unknown>}>;
+}
+
+// ---------------------------------------------------------------------------
+// Observability and security
+// ---------------------------------------------------------------------------
+
+export interface TelemetryProvider {
+  readonly name: string;
+  initialize(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+export interface OpenTelemetryOptions {
+  provider?: TelemetryProvider;
+  enabled?: boolean;
+  extractAttributes?: (context: Context<unknown, unknown>) => Record<string, unknown>;
+  shouldTrace?: (context: Context<unknown, unknown>) => boolean;
+  /** Continues the publisher's trace from the W3C Trace Context in Pub/Sub message attributes. */
+  propagatePubSubTraces?: boolean;
+}
+
+/** Distributed tracing. Auto-detects the telemetry provider from the environment. */
+export declare class OpenTelemetryMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  constructor(options?: OpenTelemetryOptions);
+  before(context: Context<T, U>): Promise<void>;
+  after(context: Context<T, U>): Promise<void>;
+  onError(error: Error, context: Context<T, U>): Promise<void>;
+}
+
+export interface PubSubMessage {
+  data: string;
+  attributes?: Record<string, string>;
+}
+
+/** Adds the W3C Trace Context of the current request to a Pub/Sub message's attributes. */
+export declare function injectTraceContext<M extends PubSubMessage>(
+  message: M,
+  context: Context<any, any>,
+): M & {attributes: Record<string, string>};
+
+export interface SecurityHeadersConfig {
+  contentSecurityPolicy?: string;
+  xFrameOptions?: string;
+  xContentTypeOptions?: string;
+  referrerPolicy?: string;
+}
+
+/** Adds common security headers to the response. */
+export declare class SecurityHeadersMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  constructor(config?: SecurityHeadersConfig);
+  before(context: Context<T, U>): Promise<void>;
+}
+
+export interface RateLimitConfig {
+  windowMs: number;
+  max: number;
+  keyGenerator?: (context: Context<any, any>) => string;
+}
+
+/** Rate limiting per IP address, or per the key from `keyGenerator`. */
+export declare class RateLimitingMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  constructor(config?: RateLimitConfig);
+  before(context: Context<T, U>): Promise<void>;
+}
+
+/** Logs security-related events for auditing. */
+export declare class SecurityAuditMiddleware<T = unknown, U = unknown> implements BaseMiddleware<T, U> {
+  before(context: Context<T, U>): Promise<void>;
+  onError(error: Error, context: Context<T, U>): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Functional middleware factories
+// ---------------------------------------------------------------------------
+
+/** Functional form of `BodyParserMiddleware`; only parses POST, PUT and PATCH bodies. */
+export declare function bodyParser<T = unknown, U = unknown>(maxSize?: number): BaseMiddleware<T, U>;
+/** Functional form of `BodyValidationMiddleware`. */
+export declare function bodyValidatorMiddleware<T, U = unknown>(schema: ZodType<T>): BaseMiddleware<T, U>;
+/** Functional form of `HeaderVariablesMiddleware`. */
+export declare function headerVariablesMiddleware<T = unknown, U = unknown>(requiredHeaders: string[]): BaseMiddleware<T, U>;
+/** Functional form of `HeaderVariablesMiddleware`. */
+export declare function headerVariablesValidator<T = unknown, U = unknown>(requiredHeaders: string[]): BaseMiddleware<T, U>;
+/** Functional form of `QueryParametersMiddleware`. */
+export declare function queryParametersMiddleware<T = unknown, U = unknown>(requiredParams?: string[]): BaseMiddleware<T, U>;
+/** Validates `req.query` against a Zod schema; throws `ValidationError` otherwise. */
+export declare function validatedQueryParameters<T = unknown, U = unknown>(schema: ZodType): BaseMiddleware<T, U>;
+/** Functional form of `PathParametersMiddleware`. */
+export declare function pathParameters<T = unknown, U = unknown>(): BaseMiddleware<T, U>;
+/** Functional form of `DependencyInjectionMiddleware`. */
+export declare function dependencyInjection<T = unknown, U = unknown>(services?: ServiceDefinition[]): BaseMiddleware<T, U>;